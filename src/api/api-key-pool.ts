@@ -0,0 +1,111 @@
+import { RateLimiter } from '../utils/rate-limiter';
+import { securityManager } from '../utils/security';
+import type { ApiKeyHealthSnapshot, RateLimitHealthSnapshot } from './client-health';
+
+/** One API key in a client's pool with its own rate-limit budget. */
+export interface PooledApiKey {
+  readonly key: string;
+  readonly rateLimiter: RateLimiter;
+  active: boolean;
+  requests: number;
+  lastSelectedAt: number;
+}
+
+const rateLimitSnapshot = (rateLimiter: RateLimiter): RateLimitHealthSnapshot => {
+  const resetTime = rateLimiter.getResetTime();
+  return {
+    remaining: rateLimiter.getRemainingRequests(),
+    limit: rateLimiter.getLimit(),
+    resetAt: resetTime === 0 ? null : new Date(resetTime).toISOString(),
+  };
+};
+
+/**
+ * Client-local pool of PUBG API keys that balances requests by remaining rate-limit budget.
+ *
+ * @remarks
+ * Keys rejected with HTTP 401 leave the rotation while another key remains active; the last
+ * active key always stays in rotation so the client can still observe a recovery. Health
+ * snapshots mask every key.
+ *
+ * @internal
+ */
+export class ApiKeyPool {
+  private readonly keys: PooledApiKey[];
+  private selections = 0;
+
+  constructor(
+    keys: readonly string[],
+    createRateLimiter: () => RateLimiter = () => new RateLimiter(10, 60_000)
+  ) {
+    this.keys = keys.map((key) => ({
+      key,
+      rateLimiter: createRateLimiter(),
+      active: true,
+      requests: 0,
+      lastSelectedAt: 0,
+    }));
+  }
+
+  /** Selects the active key with the most remaining budget, preferring the least recently used. */
+  select(): PooledApiKey {
+    let selected: PooledApiKey | undefined;
+    let selectedRemaining = -1;
+
+    for (const candidate of this.keys) {
+      if (!candidate.active) continue;
+      const remaining = candidate.rateLimiter.getRemainingRequests();
+      if (
+        !selected ||
+        remaining > selectedRemaining ||
+        (remaining === selectedRemaining && candidate.lastSelectedAt < selected.lastSelectedAt)
+      ) {
+        selected = candidate;
+        selectedRemaining = remaining;
+      }
+    }
+
+    // The constructor requires at least one key and disable() never removes the last active key.
+    const key = selected!;
+    key.lastSelectedAt = ++this.selections;
+    key.requests++;
+    return key;
+  }
+
+  /** Takes a key out of rotation. Returns false when it is the last active key. */
+  disable(key: PooledApiKey): boolean {
+    if (!key.active || this.keys.filter((candidate) => candidate.active).length <= 1) {
+      return false;
+    }
+
+    key.active = false;
+    return true;
+  }
+
+  /** Returns the combined budget of all active keys. */
+  getRateLimit(): RateLimitHealthSnapshot {
+    const active = this.keys
+      .filter((key) => key.active)
+      .map((key) => rateLimitSnapshot(key.rateLimiter));
+    const resets = active
+      .map(({ resetAt }) => resetAt)
+      .filter((resetAt): resetAt is string => resetAt !== null)
+      .sort();
+
+    return {
+      remaining: active.reduce((total, { remaining }) => total + remaining, 0),
+      limit: active.reduce((total, { limit }) => total + limit, 0),
+      resetAt: resets[0] ?? null,
+    };
+  }
+
+  /** Returns masked per-key statistics for Client Health. */
+  getHealth(): ApiKeyHealthSnapshot[] {
+    return this.keys.map((key) => ({
+      key: securityManager.maskApiKey(key.key),
+      active: key.active,
+      requests: key.requests,
+      rateLimit: rateLimitSnapshot(key.rateLimiter),
+    }));
+  }
+}
@@ -0,0 +1,56 @@
+import axios, {
+  type AxiosAdapter,
+  AxiosHeaders,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+} from 'axios';
+import type { FetchTransportAdapters } from './fetch-transport';
+
+/** Options for {@link createAxiosTransport}. */
+export interface AxiosTransportOptions {
+  baseUrl: string;
+  timeout: number;
+  apiKey: string;
+}
+
+const createTelemetryAdapter = (): AxiosAdapter => {
+  const adapter = axios.getAdapter(axios.defaults.adapter);
+
+  return (config) => {
+    const headers = new AxiosHeaders({ Accept: 'application/json' });
+    const telemetryConfig = { ...config, headers };
+    delete telemetryConfig.auth;
+    return adapter(telemetryConfig);
+  };
+};
+
+/**
+ * Creates PUBG API and Match Telemetry adapters on axios.
+ *
+ * @remarks
+ * The client runtime loads this module only when the axios transport sends its first request,
+ * so clients on the `fetch` transport never load axios. Match Telemetry downloads use a separate
+ * axios instance that sends only `Accept: application/json`, never the API key.
+ *
+ * @internal
+ */
+export const createAxiosTransport = (options: AxiosTransportOptions): FetchTransportAdapters => {
+  const api = axios.create({
+    baseURL: options.baseUrl,
+    timeout: options.timeout,
+    headers: {
+      Authorization: `Bearer ${options.apiKey}`,
+      Accept: 'application/vnd.api+json',
+      'Content-Type': 'application/json',
+    },
+  });
+  let telemetry: AxiosInstance | undefined;
+
+  return {
+    request: (config) => api.request(config),
+    externalGet: <T>(url: string, config?: AxiosRequestConfig) => {
+      telemetry ??= axios.create({ adapter: createTelemetryAdapter() });
+      return telemetry.request<T>({ ...config, method: 'get', url });
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import type { CircuitBreakerConfig } from '../types/api';
+import type {
+  CircuitBreakerHealthSnapshot,
+  CircuitBreakerState,
+  RequestOutcome,
+} from './client-health';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * Client-local circuit breaker fed by terminal PUBG API request outcomes.
+ *
+ * @remarks
+ * Only `server_failed` and `network_failed` outcomes count toward opening the circuit; any other
+ * response proves the API is reachable and closes it. Once `resetTimeout` elapses, one request is
+ * let through as a half-open probe whose outcome closes or reopens the circuit. Without a
+ * configuration the breaker never opens.
+ *
+ * @internal
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private state: CircuitBreakerState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    config?: CircuitBreakerConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.failureThreshold = config
+      ? (config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)
+      : Number.POSITIVE_INFINITY;
+    this.resetTimeout = config?.resetTimeout ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  /** Returns true when a request may proceed, claiming the half-open probe when one is due. */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.now() - (this.openedAt ?? 0) >= this.resetTimeout) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /** Milliseconds until the open circuit allows a half-open probe. */
+  getRetryDelay(): number {
+    if (this.state !== 'open' || this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.resetTimeout - this.now());
+  }
+
+  /** Applies the terminal outcome of a request that passed `tryAcquire`. */
+  record(outcome: RequestOutcome): void {
+    this.probeInFlight = false;
+
+    if (outcome.kind !== 'server_failed' && outcome.kind !== 'network_failed') {
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      this.openedAt = null;
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /** Releases an acquired request that ended without an outcome, such as a cancelled probe. */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  getHealth(): CircuitBreakerHealthSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+    };
+  }
+}
@@ -1,3 +1,6 @@
+import type { HealthHistoryConfig, RequestPriority } from '../types/api';
+import { logger as defaultLogger, errorMessage, type Logger } from '../utils/logger';
+
 /** Overall last-observed operability of a client runtime. */
 export type ClientHealthStatus = 'unknown' | 'healthy' | 'degraded' | 'unhealthy';
 
@@ -8,13 +11,25 @@ export type ClientHealthReason =
   | 'authentication_failed'
   | 'rate_limited'
   | 'network_failed'
-  | 'server_failed';
+  | 'server_failed'
+  | 'circuit_open';
 
-/** Terminal outcome of one logical request after retries and cache handling. */
+/**
+ * Terminal outcome of one logical request after retries and cache handling.
+ *
+ * @remarks
+ * `throttled` is the only non-terminal outcome: it is recorded for each Retry-After wait before the
+ * request's terminal outcome and is not counted as a request attempt. `request_cancelled` records
+ * a caller-aborted request; it is neither counted nor allowed to change health. `circuit_open`
+ * records a request rejected by the open circuit breaker without a network call.
+ */
 export type RequestOutcome =
   | { kind: 'request_succeeded' }
   | { kind: 'authentication_failed'; statusCode: 401 }
   | { kind: 'rate_limited'; statusCode: 429 }
+  | { kind: 'throttled'; statusCode: 429; waitMs: number }
+  | { kind: 'request_cancelled' }
+  | { kind: 'circuit_open' }
   | { kind: 'network_failed' }
   | { kind: 'server_failed'; statusCode: number }
   | { kind: 'request_rejected'; statusCode: number }
@@ -30,6 +45,16 @@ export interface CacheHealthSnapshot {
   readonly hitRate: number;
 }
 
+/** Telemetry-cache statistics included with a health snapshot; zeros when no store is configured. */
+export interface TelemetryCacheHealthSnapshot {
+  readonly entries: number;
+  readonly bytes: number;
+  readonly maxBytes: number;
+  readonly hits: number;
+  readonly misses: number;
+  readonly hitRate: number;
+}
+
 /** Redacted last-known rate-limit state included with a health snapshot. */
 export interface RateLimitHealthSnapshot {
   readonly remaining: number;
@@ -37,6 +62,107 @@ export interface RateLimitHealthSnapshot {
   readonly resetAt: string | null;
 }
 
+/** Masked per-key statistics for a client configured with one or more API keys. */
+export interface ApiKeyHealthSnapshot {
+  /** API key masked with `SecurityManager.maskApiKey`. */
+  readonly key: string;
+  /** False once the key was rejected with HTTP 401 and taken out of rotation. */
+  readonly active: boolean;
+  readonly requests: number;
+  readonly rateLimit: RateLimitHealthSnapshot;
+}
+
+/** Circuit-breaker state: `half_open` lets one probe request through to test recovery. */
+export type CircuitBreakerState = 'closed' | 'open' | 'half_open';
+
+/** Circuit-breaker state included with a health snapshot. */
+export interface CircuitBreakerHealthSnapshot {
+  readonly state: CircuitBreakerState;
+  /** Consecutive server or network failures since the last other outcome. */
+  readonly consecutiveFailures: number;
+  readonly openedAt: string | null;
+}
+
+/** Queue depth and wait times of one request-scheduler lane. */
+export interface SchedulerLaneHealthSnapshot {
+  /** Requests currently waiting for a slot. */
+  readonly queued: number;
+  /** Requests that have been given a slot, including those that did not wait. */
+  readonly started: number;
+  readonly averageWaitMs: number;
+  readonly maxWaitMs: number;
+}
+
+/** Request-scheduler state included with a health snapshot. */
+export interface RequestSchedulerHealthSnapshot {
+  /** Configured `maxConcurrentRequests`, or `null` when unlimited. */
+  readonly maxConcurrent: number | null;
+  readonly inFlight: number;
+  readonly lanes: Readonly<Record<RequestPriority, SchedulerLaneHealthSnapshot>>;
+}
+
+/** Runtime statistics combined with request health in a snapshot. */
+export interface RuntimeHealthStatistics {
+  readonly responseCache: CacheHealthSnapshot;
+  readonly telemetryCache: TelemetryCacheHealthSnapshot;
+  /** Combined budget of all active API keys. */
+  readonly rateLimit: RateLimitHealthSnapshot;
+  readonly apiKeys: readonly ApiKeyHealthSnapshot[];
+  readonly circuitBreaker: CircuitBreakerHealthSnapshot;
+  readonly scheduler: RequestSchedulerHealthSnapshot;
+}
+
+/** Retry-After waits taken before retrying rate-limited requests. */
+export interface ThrottlingHealthSnapshot {
+  readonly waits: number;
+  readonly totalWaitMs: number;
+}
+
+/** One change of client health status or reason, as emitted to health listeners. */
+export interface HealthTransition {
+  readonly from: ClientHealthStatus;
+  readonly to: ClientHealthStatus;
+  readonly previousReason: ClientHealthReason;
+  readonly reason: ClientHealthReason;
+  readonly statusCode?: number;
+  readonly at: string;
+}
+
+/** One Request Outcome kept in the health history. */
+export interface RecordedOutcome {
+  readonly outcome: RequestOutcome;
+  /** Time from the start of the request to its outcome; absent for outcomes without a request. */
+  readonly durationMs?: number;
+  readonly at: string;
+}
+
+/** Most recent transitions and outcomes, oldest first, bounded by `healthHistory.size`. */
+export interface ClientHealthHistory {
+  readonly transitions: readonly HealthTransition[];
+  readonly outcomes: readonly RecordedOutcome[];
+}
+
+/** Latency percentiles in milliseconds; `null` when the window holds no timed requests. */
+export interface LatencyPercentiles {
+  readonly p50: number | null;
+  readonly p90: number | null;
+  readonly p99: number | null;
+}
+
+/** Error rate and latency of the requests completed within one rolling window. */
+export interface HealthWindowSnapshot {
+  readonly windowMs: number;
+  readonly requests: number;
+  readonly failed: number;
+  /** `failed / requests`, or 0 for an empty window. */
+  readonly errorRate: number;
+  /** Latency of requests that reached the network; cache hits are excluded. */
+  readonly latency: LatencyPercentiles;
+}
+
+/** Listener notified synchronously of each health transition. */
+export type HealthTransitionListener = (transition: HealthTransition) => void;
+
 /** Synchronous, redacted view of client request health and runtime statistics. */
 export interface ClientHealth {
   readonly status: ClientHealthStatus;
@@ -44,10 +170,35 @@ export interface ClientHealth {
   readonly transitionedAt: string | null;
   readonly statusCode?: number;
   readonly requests: Readonly<{ attempted: number; succeeded: number; failed: number }>;
+  readonly throttling: ThrottlingHealthSnapshot;
   readonly responseCache: CacheHealthSnapshot;
+  readonly telemetryCache: TelemetryCacheHealthSnapshot;
   readonly rateLimit: RateLimitHealthSnapshot;
+  readonly apiKeys: readonly ApiKeyHealthSnapshot[];
+  readonly circuitBreaker: CircuitBreakerHealthSnapshot;
+  readonly scheduler: RequestSchedulerHealthSnapshot;
+  /** Rolling statistics for each configured `healthHistory.windows` duration. */
+  readonly windows: readonly HealthWindowSnapshot[];
+}
+
+const DEFAULT_HISTORY_SIZE = 100;
+const DEFAULT_HEALTH_WINDOWS_MS: readonly number[] = [60_000, 300_000];
+
+interface WindowSample {
+  readonly at: number;
+  readonly failed: boolean;
+  readonly durationMs?: number;
 }
 
+const isSuccess = (outcome: RequestOutcome): boolean =>
+  outcome.kind === 'request_succeeded' ||
+  outcome.kind === 'cache_hit' ||
+  outcome.kind === 'telemetry_succeeded';
+
+/** Nearest-rank percentile of ascending `sorted` values. */
+const percentile = (sorted: readonly number[], rank: number): number | null =>
+  sorted.length === 0 ? null : sorted[Math.max(0, Math.ceil(rank * sorted.length) - 1)];
+
 /** Reduces terminal request outcomes into client-local health state. */
 export class ClientHealthState {
   private status: ClientHealthStatus = 'unknown';
@@ -55,43 +206,172 @@ export class ClientHealthState {
   private transitionedAt: string | null = null;
   private statusCode?: number;
   private requests = { attempted: 0, succeeded: 0, failed: 0 };
+  private throttling = { waits: 0, totalWaitMs: 0 };
+  private readonly historySize: number;
+  private readonly windows: readonly number[];
+  private readonly transitions: HealthTransition[] = [];
+  private readonly outcomes: RecordedOutcome[] = [];
+  private samples: WindowSample[] = [];
+  private readonly listeners = new Set<HealthTransitionListener>();
 
-  constructor(private readonly now: () => Date = () => new Date()) {}
+  constructor(
+    private readonly now: () => Date = () => new Date(),
+    history: HealthHistoryConfig = {},
+    private readonly logger: Logger = defaultLogger
+  ) {
+    this.historySize = history.size ?? DEFAULT_HISTORY_SIZE;
+    this.windows = [...(history.windows ?? DEFAULT_HEALTH_WINDOWS_MS)];
+  }
 
-  /** Records one terminal logical request outcome and applies any health transition. */
-  record(outcome: RequestOutcome): void {
-    this.requests.attempted++;
-    if (
-      outcome.kind === 'request_succeeded' ||
-      outcome.kind === 'cache_hit' ||
-      outcome.kind === 'telemetry_succeeded'
-    ) {
-      this.requests.succeeded++;
-    } else {
-      this.requests.failed++;
+  /**
+   * Records one request outcome or throttling wait and applies any health transition.
+   *
+   * @param durationMs - Time the request took to reach this outcome, when it reached the network.
+   */
+  record(outcome: RequestOutcome, durationMs?: number): void {
+    const at = this.now();
+    this.remember(this.outcomes, {
+      outcome: { ...outcome },
+      ...(durationMs === undefined ? {} : { durationMs }),
+      at: at.toISOString(),
+    });
+
+    if (outcome.kind === 'throttled') {
+      this.throttling.waits++;
+      this.throttling.totalWaitMs += outcome.waitMs;
+    } else if (outcome.kind !== 'request_cancelled') {
+      this.countRequest(outcome);
+      this.addSample({ at: at.getTime(), failed: !isSuccess(outcome), durationMs });
     }
 
     const transition = this.transitionFor(outcome);
     if (!transition) return;
+    const previous = { status: this.status, reason: this.reason };
     this.status = transition.status;
     this.reason = transition.reason;
     this.statusCode = transition.statusCode;
-    this.transitionedAt = this.now().toISOString();
+    this.transitionedAt = at.toISOString();
+
+    if (previous.status !== this.status || previous.reason !== this.reason) {
+      this.emit({
+        from: previous.status,
+        to: this.status,
+        previousReason: previous.reason,
+        reason: this.reason,
+        ...(this.statusCode === undefined ? {} : { statusCode: this.statusCode }),
+        at: this.transitionedAt,
+      });
+    }
+  }
+
+  /**
+   * Registers a listener for changes of health status or reason.
+   *
+   * @returns A function that removes the listener again.
+   */
+  onTransition(listener: HealthTransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Returns copies of the most recent transitions and outcomes, oldest first. */
+  history(): ClientHealthHistory {
+    return {
+      transitions: this.transitions.map((transition) => ({ ...transition })),
+      outcomes: this.outcomes.map((recorded) => ({
+        ...recorded,
+        outcome: { ...recorded.outcome },
+      })),
+    };
   }
 
   /** Returns a synchronous, redacted copy of current health with the supplied runtime statistics. */
-  snapshot(responseCache: CacheHealthSnapshot, rateLimit: RateLimitHealthSnapshot): ClientHealth {
+  snapshot(runtime: RuntimeHealthStatistics): ClientHealth {
     return {
       status: this.status,
       reason: this.reason,
       transitionedAt: this.transitionedAt,
       ...(this.statusCode === undefined ? {} : { statusCode: this.statusCode }),
       requests: { ...this.requests },
-      responseCache: { ...responseCache },
-      rateLimit: { ...rateLimit },
+      throttling: { ...this.throttling },
+      responseCache: { ...runtime.responseCache },
+      telemetryCache: { ...runtime.telemetryCache },
+      rateLimit: { ...runtime.rateLimit },
+      apiKeys: runtime.apiKeys.map((apiKey) => ({ ...apiKey, rateLimit: { ...apiKey.rateLimit } })),
+      circuitBreaker: { ...runtime.circuitBreaker },
+      scheduler: {
+        ...runtime.scheduler,
+        lanes: {
+          interactive: { ...runtime.scheduler.lanes.interactive },
+          background: { ...runtime.scheduler.lanes.background },
+        },
+      },
+      windows: this.windowSnapshots(),
     };
   }
 
+  private countRequest(outcome: RequestOutcome): void {
+    this.requests.attempted++;
+    if (isSuccess(outcome)) {
+      this.requests.succeeded++;
+    } else {
+      this.requests.failed++;
+    }
+  }
+
+  private remember<T>(buffer: T[], entry: T): void {
+    if (this.historySize <= 0) return;
+    buffer.push(entry);
+    if (buffer.length > this.historySize) buffer.shift();
+  }
+
+  /** Keeps only the samples the longest window can still see. */
+  private addSample(sample: WindowSample): void {
+    if (this.windows.length === 0) return;
+    this.samples.push(sample);
+    const horizon = sample.at - Math.max(...this.windows);
+    if (this.samples[0].at <= horizon) {
+      this.samples = this.samples.filter(({ at }) => at > horizon);
+    }
+  }
+
+  private windowSnapshots(): HealthWindowSnapshot[] {
+    const now = this.now().getTime();
+    return this.windows.map((windowMs) => {
+      const samples = this.samples.filter(({ at }) => at > now - windowMs);
+      const failed = samples.filter((sample) => sample.failed).length;
+      const durations = samples
+        .flatMap(({ durationMs }) => (durationMs === undefined ? [] : [durationMs]))
+        .sort((left, right) => left - right);
+      return {
+        windowMs,
+        requests: samples.length,
+        failed,
+        errorRate: samples.length > 0 ? failed / samples.length : 0,
+        latency: {
+          p50: percentile(durations, 0.5),
+          p90: percentile(durations, 0.9),
+          p99: percentile(durations, 0.99),
+        },
+      };
+    });
+  }
+
+  private emit(transition: HealthTransition): void {
+    this.remember(this.transitions, transition);
+    for (const listener of [...this.listeners]) {
+      try {
+        listener({ ...transition });
+      } catch (error) {
+        this.logger.client.warn('Health transition listener failed', {
+          error: errorMessage(error),
+        });
+      }
+    }
+  }
+
   private transitionFor(
     outcome: RequestOutcome
   ): { status: ClientHealthStatus; reason: ClientHealthReason; statusCode?: number } | undefined {
@@ -101,11 +381,14 @@ export class ClientHealthState {
       case 'authentication_failed':
         return { status: 'unhealthy', reason: 'authentication_failed', statusCode: 401 };
       case 'rate_limited':
+      case 'throttled':
         return { status: 'degraded', reason: 'rate_limited', statusCode: 429 };
       case 'network_failed':
         return { status: 'degraded', reason: 'network_failed' };
       case 'server_failed':
         return { status: 'degraded', reason: 'server_failed', statusCode: outcome.statusCode };
+      case 'circuit_open':
+        return { status: 'unhealthy', reason: 'circuit_open' };
       default:
         return undefined;
     }
@@ -1,20 +1,44 @@
-import axios, {
-  type AxiosAdapter,
-  AxiosHeaders,
-  type AxiosInstance,
-  type AxiosRequestConfig,
-  type AxiosResponse,
-} from 'axios';
-import { PubgConfigurationError } from '../errors';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { PubgCancellationError, PubgConfigurationError } from '../errors';
 import type { PubgClientConfig } from '../types/api';
 import { SHARDS } from '../types/shards';
-import { MemoryCache } from '../utils/cache';
-import { logger } from '../utils/logger';
+import {
+  MemoryCacheStore,
+  type ResponseCacheStats,
+  type ResponseCacheStore,
+} from '../utils/cache-store';
+import { createLogger, errorMessage, type Logger } from '../utils/logger';
 import { RateLimiter } from '../utils/rate-limiter';
 import { RequestDeduplicator } from '../utils/request';
-import { type ClientHealth, ClientHealthState, type RequestOutcome } from './client-health';
-import type { CacheRequestConfig, MatchTransport } from './endpoint-transport';
+import { type SecurityEvent, SecurityManager } from '../utils/security';
+import type { TelemetryCacheStats, TelemetryCacheStore } from '../utils/telemetry-cache-store';
+import {
+  compressTelemetry,
+  decompressTelemetry,
+  parseTelemetryStream,
+  TelemetryPayloadWriter,
+} from '../utils/telemetry-stream';
+import { ApiKeyPool } from './api-key-pool';
+import type { AxiosTransportOptions } from './axios-transport';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  type ClientHealth,
+  type ClientHealthHistory,
+  ClientHealthState,
+  type HealthTransitionListener,
+  type RequestOutcome,
+} from './client-health';
+import type {
+  CacheRequestConfig,
+  MatchTransport,
+  TelemetryRequestConfig,
+} from './endpoint-transport';
+import { createFetchTransport, type FetchTransportAdapters } from './fetch-transport';
 import { HttpTransactionRunner } from './http-transaction';
+import { InputValidator } from './input-validation';
+import { MiddlewareChain, type PubgMiddleware } from './middleware';
+import { createRecordReplayAdapters } from './record-replay';
+import { RequestScheduler } from './request-scheduler';
 
 type RuntimeRequestFunction = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
 type RuntimeExternalGetFunction = <T>(
@@ -29,36 +53,63 @@ interface ClientRuntimeAdapters {
 }
 
 interface TransactionRuntimeDependencies {
-  cache: MemoryCache;
-  rateLimiter: RateLimiter;
+  cache: ResponseCacheStore;
+  apiKeys: ApiKeyPool;
+  circuitBreaker: CircuitBreaker;
   deduplicator: RequestDeduplicator;
-  recordOutcome: (outcome: RequestOutcome) => void;
+  middleware: MiddlewareChain;
+  scheduler: RequestScheduler;
+  logger: Logger;
+  recordOutcome: (outcome: RequestOutcome, durationMs?: number) => void;
 }
 
 const VALID_SHARDS = new Set<string>(SHARDS);
+const EMPTY_CACHE_STATS: ResponseCacheStats = {
+  size: 0,
+  maxSize: 0,
+  hits: 0,
+  misses: 0,
+  hitRate: 0,
+};
 
-const createTelemetryAdapter = (): AxiosAdapter => {
-  const adapter = axios.getAdapter(axios.defaults.adapter);
-
-  return (config) => {
-    const headers = new AxiosHeaders({ Accept: 'application/json' });
-    const telemetryConfig = { ...config, headers };
-    delete telemetryConfig.auth;
-    return adapter(telemetryConfig);
-  };
+const EMPTY_TELEMETRY_CACHE_STATS: TelemetryCacheStats = {
+  entries: 0,
+  bytes: 0,
+  maxBytes: 0,
+  hits: 0,
+  misses: 0,
+  hitRate: 0,
 };
 
-const createProductionTelemetryGet = (): RuntimeExternalGetFunction => {
-  let telemetryClient: AxiosInstance | undefined;
+/**
+ * Axios transport that loads axios on its first request, so the `fetch` transport never does.
+ */
+const lazyAxiosTransport = (options: AxiosTransportOptions): FetchTransportAdapters => {
+  let transport: Promise<FetchTransportAdapters> | undefined;
+  const load = (): Promise<FetchTransportAdapters> => {
+    transport ??= import('./axios-transport').then(({ createAxiosTransport }) =>
+      createAxiosTransport(options)
+    );
+    return transport;
+  };
 
-  return <T>(url: string, config?: AxiosRequestConfig) => {
-    telemetryClient ??= axios.create({ adapter: createTelemetryAdapter() });
-    return telemetryClient.request<T>({ ...config, method: 'get', url });
+  return {
+    request: async (config) => (await load()).request(config),
+    externalGet: async <T>(url: string, config?: AxiosRequestConfig) =>
+      (await load()).externalGet<T>(url, config),
   };
 };
 
+const apiKeysFor = (config: PubgClientConfig): string[] => [
+  ...(config.apiKey === undefined ? [] : [config.apiKey]),
+  ...(config.apiKeys ?? []),
+];
+
 const validateConfig = (config: PubgClientConfig): void => {
-  if (!config.apiKey || typeof config.apiKey !== 'string') {
+  if (
+    (config.apiKey !== undefined || config.apiKeys === undefined) &&
+    (!config.apiKey || typeof config.apiKey !== 'string')
+  ) {
     throw new PubgConfigurationError(
       'API key is required and must be a valid string',
       'apiKey',
@@ -67,6 +118,31 @@ const validateConfig = (config: PubgClientConfig): void => {
     );
   }
 
+  if (config.apiKeys !== undefined) {
+    const keys = apiKeysFor(config);
+    // Report only the key count so configuration errors never carry key material.
+    if (
+      !Array.isArray(config.apiKeys) ||
+      config.apiKeys.length === 0 ||
+      config.apiKeys.some((key) => !key || typeof key !== 'string')
+    ) {
+      throw new PubgConfigurationError(
+        'API keys must be a non-empty array of non-empty strings',
+        'apiKeys',
+        'string[]',
+        Array.isArray(config.apiKeys) ? config.apiKeys.length : undefined
+      );
+    }
+    if (new Set(keys).size !== keys.length) {
+      throw new PubgConfigurationError(
+        'API keys must be unique',
+        'apiKeys',
+        'unique string[]',
+        keys.length
+      );
+    }
+  }
+
   if (!config.shard || typeof config.shard !== 'string' || !VALID_SHARDS.has(config.shard)) {
     throw new PubgConfigurationError(
       'Shard is required and must be a supported PUBG shard',
@@ -115,6 +191,197 @@ const validateConfig = (config: PubgClientConfig): void => {
       config.retryDelay
     );
   }
+
+  if (
+    config.maxRateLimitWait !== undefined &&
+    (typeof config.maxRateLimitWait !== 'number' ||
+      !Number.isFinite(config.maxRateLimitWait) ||
+      config.maxRateLimitWait < 0)
+  ) {
+    throw new PubgConfigurationError(
+      'Maximum rate-limit wait must be a non-negative finite number',
+      'maxRateLimitWait',
+      'non-negative finite number',
+      config.maxRateLimitWait
+    );
+  }
+
+  for (const field of ['staleWhileRevalidate', 'staleIfError'] as const) {
+    const window = config[field];
+    if (
+      window !== undefined &&
+      (typeof window !== 'number' || !Number.isFinite(window) || window < 0)
+    ) {
+      throw new PubgConfigurationError(
+        'Stale response windows must be non-negative finite numbers',
+        field,
+        'non-negative finite number',
+        window
+      );
+    }
+  }
+
+  if (config.circuitBreaker !== undefined) {
+    const { failureThreshold, resetTimeout } = config.circuitBreaker;
+    if (
+      failureThreshold !== undefined &&
+      (typeof failureThreshold !== 'number' ||
+        !Number.isInteger(failureThreshold) ||
+        failureThreshold < 1)
+    ) {
+      throw new PubgConfigurationError(
+        'Circuit breaker failure threshold must be a positive integer',
+        'circuitBreaker.failureThreshold',
+        'positive integer',
+        failureThreshold
+      );
+    }
+    if (
+      resetTimeout !== undefined &&
+      (typeof resetTimeout !== 'number' || !Number.isFinite(resetTimeout) || resetTimeout < 0)
+    ) {
+      throw new PubgConfigurationError(
+        'Circuit breaker reset timeout must be a non-negative finite number',
+        'circuitBreaker.resetTimeout',
+        'non-negative finite number',
+        resetTimeout
+      );
+    }
+  }
+
+  if (config.middleware !== undefined && !Array.isArray(config.middleware)) {
+    throw new PubgConfigurationError(
+      'Middleware must be an array',
+      'middleware',
+      'PubgMiddleware[]',
+      config.middleware
+    );
+  }
+
+  if (
+    config.recordReplay !== undefined &&
+    ((config.recordReplay.mode !== 'record' && config.recordReplay.mode !== 'replay') ||
+      !config.recordReplay.directory ||
+      typeof config.recordReplay.directory !== 'string')
+  ) {
+    throw new PubgConfigurationError(
+      "Record/replay requires mode 'record' or 'replay' and a fixture directory",
+      'recordReplay',
+      '{ mode: "record" | "replay"; directory: string }',
+      config.recordReplay
+    );
+  }
+
+  if (
+    config.transport !== undefined &&
+    config.transport !== 'axios' &&
+    config.transport !== 'fetch'
+  ) {
+    throw new PubgConfigurationError(
+      "Transport must be 'axios' or 'fetch'",
+      'transport',
+      "'axios' | 'fetch'",
+      config.transport
+    );
+  }
+
+  if (config.transport === 'fetch' && typeof globalThis.fetch !== 'function') {
+    throw new PubgConfigurationError(
+      "The 'fetch' transport requires a global fetch implementation",
+      'transport',
+      'runtime with global fetch',
+      config.transport
+    );
+  }
+
+  if (config.inputValidation !== undefined && typeof config.inputValidation !== 'boolean') {
+    throw new PubgConfigurationError(
+      'Input validation must be a boolean',
+      'inputValidation',
+      'boolean',
+      config.inputValidation
+    );
+  }
+
+  if (
+    config.responseValidation !== undefined &&
+    config.responseValidation !== 'strict' &&
+    config.responseValidation !== 'lenient'
+  ) {
+    throw new PubgConfigurationError(
+      "Response validation must be 'strict' or 'lenient'",
+      'responseValidation',
+      "'strict' | 'lenient'",
+      config.responseValidation
+    );
+  }
+
+  if (
+    config.maxConcurrentRequests !== undefined &&
+    (typeof config.maxConcurrentRequests !== 'number' ||
+      !Number.isInteger(config.maxConcurrentRequests) ||
+      config.maxConcurrentRequests < 1)
+  ) {
+    throw new PubgConfigurationError(
+      'Maximum concurrent requests must be a positive integer',
+      'maxConcurrentRequests',
+      'positive integer',
+      config.maxConcurrentRequests
+    );
+  }
+
+  if (config.healthHistory !== undefined) {
+    const { size, windows } = config.healthHistory;
+    if (size !== undefined && (typeof size !== 'number' || !Number.isInteger(size) || size < 0)) {
+      throw new PubgConfigurationError(
+        'Health history size must be a non-negative integer',
+        'healthHistory.size',
+        'non-negative integer',
+        size
+      );
+    }
+    if (
+      windows !== undefined &&
+      (!Array.isArray(windows) ||
+        windows.some(
+          (window) => typeof window !== 'number' || !Number.isFinite(window) || window <= 0
+        ))
+    ) {
+      throw new PubgConfigurationError(
+        'Health windows must be positive finite numbers of milliseconds',
+        'healthHistory.windows',
+        'positive finite number[]',
+        windows
+      );
+    }
+  }
+
+  if (
+    config.logger !== undefined &&
+    (typeof config.logger !== 'object' ||
+      config.logger === null ||
+      typeof config.logger.log !== 'function')
+  ) {
+    throw new PubgConfigurationError(
+      'Logger must be an object with a log(record) method',
+      'logger',
+      'PubgLogger',
+      typeof config.logger
+    );
+  }
+
+  if (config.cacheTtl !== undefined) {
+    for (const [kind, ttl] of Object.entries(config.cacheTtl)) {
+      if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl < 0) {
+        throw new PubgConfigurationError(
+          'Cache TTLs must be non-negative finite numbers',
+          `cacheTtl.${kind}`,
+          'non-negative finite number',
+          ttl
+        );
+      }
+    }
+  }
 };
 
 const createTransactionRunner = (
@@ -122,23 +389,29 @@ const createTransactionRunner = (
   dependencies: TransactionRuntimeDependencies,
   adapters: ClientRuntimeAdapters
 ): HttpTransactionRunner => {
-  const axiosInstance = adapters.request
-    ? undefined
-    : axios.create({
-        baseURL: config.baseUrl || 'https://api.pubg.com',
-        timeout: config.timeout ?? 10000,
-        headers: {
-          Authorization: `Bearer ${config.apiKey}`,
-          Accept: 'application/vnd.api+json',
-          'Content-Type': 'application/json',
-        },
-      });
+  const baseUrl = config.baseUrl || 'https://api.pubg.com';
+  const timeout = config.timeout ?? 10000;
+  const transport =
+    config.transport === 'fetch'
+      ? createFetchTransport({ baseUrl, timeout })
+      : lazyAxiosTransport({ baseUrl, timeout, apiKey: apiKeysFor(config)[0] });
+
+  const live = {
+    externalGet: adapters.externalGet ?? transport.externalGet,
+    request: adapters.request ?? transport.request,
+  };
 
   return new HttpTransactionRunner({
     ...dependencies,
     config,
-    externalGet: adapters.externalGet ?? createProductionTelemetryGet(),
-    request: adapters.request ?? ((requestConfig) => axiosInstance!.request(requestConfig)),
+    ...(config.recordReplay
+      ? createRecordReplayAdapters(
+          config.recordReplay,
+          apiKeysFor(config),
+          live,
+          dependencies.logger
+        )
+      : live),
   });
 };
 
@@ -148,28 +421,62 @@ const createTransactionRunner = (
  * @internal
  */
 export class ClientRuntime implements MatchTransport {
-  private readonly cache: MemoryCache;
-  private readonly rateLimiter: RateLimiter;
+  private readonly cache: ResponseCacheStore;
+  private readonly telemetryCache?: TelemetryCacheStore;
+  private readonly apiKeys: ApiKeyPool;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly middleware: MiddlewareChain;
+  private readonly scheduler: RequestScheduler;
   private readonly health: ClientHealthState;
   private readonly transactions: HttpTransactionRunner;
+  private readonly logger: Logger;
+  private readonly security: SecurityManager;
+  /** Input checks for the endpoint services; disabled unless `inputValidation` is set. */
+  readonly input: InputValidator;
 
   constructor(config: PubgClientConfig, adapters: ClientRuntimeAdapters = {}) {
     validateConfig(config);
-    this.cache = new MemoryCache({ ttl: 300_000, maxSize: 1000 });
-    this.rateLimiter = new RateLimiter(10, 60_000);
-    this.health = new ClientHealthState(adapters.now);
+    this.logger = createLogger(config.logger);
+    this.security = new SecurityManager({ enableInputValidation: true }, this.logger);
+    this.input = config.inputValidation
+      ? new InputValidator(this.security)
+      : InputValidator.disabled;
+    this.cache =
+      config.cacheStore ??
+      new MemoryCacheStore({ ttl: 300_000, maxSize: 1000, logger: this.logger });
+    this.telemetryCache = config.telemetryCache;
+    // Replayed responses never reach the PUBG API, so they are not throttled.
+    this.apiKeys =
+      config.recordReplay?.mode === 'replay'
+        ? new ApiKeyPool(apiKeysFor(config), () => new RateLimiter(Number.MAX_SAFE_INTEGER, 60_000))
+        : new ApiKeyPool(apiKeysFor(config));
+    const now = adapters.now;
+    this.circuitBreaker = new CircuitBreaker(
+      config.circuitBreaker,
+      now ? () => now().getTime() : undefined
+    );
+    this.middleware = new MiddlewareChain(config.middleware, this.logger);
+    this.scheduler = new RequestScheduler(config.maxConcurrentRequests);
+    this.health = new ClientHealthState(adapters.now, config.healthHistory, this.logger);
     this.transactions = createTransactionRunner(
       config,
       {
         cache: this.cache,
-        rateLimiter: this.rateLimiter,
+        apiKeys: this.apiKeys,
+        circuitBreaker: this.circuitBreaker,
         deduplicator: new RequestDeduplicator(),
-        recordOutcome: (outcome) => this.health.record(outcome),
+        middleware: this.middleware,
+        scheduler: this.scheduler,
+        logger: this.logger,
+        recordOutcome: (outcome, durationMs) => this.health.record(outcome, durationMs),
       },
       adapters
     );
 
-    logger.client('Client runtime initialized', { shard: config.shard, timeout: config.timeout });
+    this.logger.client.info('Client runtime initialized', {
+      shard: config.shard,
+      timeout: config.timeout,
+    });
   }
 
   /**
@@ -198,30 +505,181 @@ export class ClientRuntime implements MatchTransport {
     return this.transactions.get<T>(url, config);
   }
 
-  /** Fetches external telemetry without authenticated headers or response caching. */
-  fetchTelemetry<T>(url: string): Promise<T> {
-    return this.transactions.getExternal<T>(url, {
+  /**
+   * Fetches external telemetry without authenticated headers or response caching.
+   *
+   * @remarks
+   * With a telemetry cache and a match ID, a cached payload is returned instead of downloading,
+   * and a downloaded one is compressed into the cache.
+   */
+  async fetchTelemetry<T>(url: string, config: TelemetryRequestConfig = {}): Promise<T> {
+    const { matchId, signal, priority, deadline } = config;
+    const cached = matchId === undefined ? undefined : await this.readTelemetryCache(matchId);
+    if (cached) {
+      try {
+        const events = await decompressTelemetry<T>(cached);
+        this.health.record({ kind: 'cache_hit' });
+        return events;
+      } catch (error) {
+        await this.discardTelemetryCache(matchId!, error);
+      }
+    }
+
+    const events = await this.transactions.getExternal<T>(url, {
       headers: { Accept: 'application/json' },
+      signal,
+      priority,
+      deadline,
     });
+    if (matchId !== undefined && this.telemetryCache) {
+      await this.writeTelemetryCache(matchId, () => compressTelemetry(events));
+    }
+    return events;
+  }
+
+  /**
+   * Streams external telemetry events without authenticated headers or response caching.
+   *
+   * @remarks
+   * With a telemetry cache and a match ID, cached events are streamed from the compressed payload,
+   * and a download that is read to the end is compressed into the cache as it streams. A corrupt
+   * cached payload is discarded and downloaded again, skipping the events it already yielded.
+   */
+  async *streamTelemetry<T>(url: string, config: TelemetryRequestConfig = {}): AsyncGenerator<T> {
+    const { matchId, signal, priority, deadline } = config;
+    const cached = matchId === undefined ? undefined : await this.readTelemetryCache(matchId);
+    let yielded = 0;
+    if (cached) {
+      this.health.record({ kind: 'cache_hit' });
+      try {
+        for await (const event of parseTelemetryStream<T>(Buffer.from(cached), signal)) {
+          yield event;
+          yielded++;
+        }
+        return;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new PubgCancellationError('Telemetry request was cancelled', {
+            operation: 'telemetry_cache',
+          });
+        }
+        await this.discardTelemetryCache(matchId!, error);
+      }
+    }
+
+    const events = this.transactions.streamExternal<T>(url, {
+      headers: { Accept: 'application/json' },
+      signal,
+      priority,
+      deadline,
+    });
+    if (matchId === undefined || !this.telemetryCache) {
+      yield* events;
+      return;
+    }
+
+    const writer = new TelemetryPayloadWriter();
+    let complete = false;
+    let downloaded = 0;
+    try {
+      for await (const event of events) {
+        writer.write(event);
+        if (downloaded++ >= yielded) yield event;
+      }
+      complete = true;
+    } finally {
+      if (!complete) writer.discard();
+    }
+    await this.writeTelemetryCache(matchId, () => writer.finish());
   }
 
   /** Returns a synchronous, redacted health snapshot for this client runtime. */
   getHealth(): ClientHealth {
-    const { size, maxSize, hits, misses, hitRate } = this.cache.getStats();
-    const remaining = this.rateLimiter.getRemainingRequests();
-    const resetTime = this.rateLimiter.getResetTime();
-    return this.health.snapshot(
-      { size, maxSize, hits, misses, hitRate },
-      {
-        remaining,
-        limit: this.rateLimiter.getLimit(),
-        resetAt: resetTime === 0 ? null : new Date(resetTime).toISOString(),
-      }
-    );
+    const { size, maxSize, hits, misses, hitRate } = this.cache.getStats?.() ?? EMPTY_CACHE_STATS;
+    const telemetry = this.telemetryCache?.getStats?.() ?? EMPTY_TELEMETRY_CACHE_STATS;
+    return this.health.snapshot({
+      responseCache: { size, maxSize, hits, misses, hitRate },
+      telemetryCache: {
+        entries: telemetry.entries,
+        bytes: telemetry.bytes,
+        maxBytes: telemetry.maxBytes,
+        hits: telemetry.hits,
+        misses: telemetry.misses,
+        hitRate: telemetry.hitRate,
+      },
+      rateLimit: this.apiKeys.getRateLimit(),
+      apiKeys: this.apiKeys.getHealth(),
+      circuitBreaker: this.circuitBreaker.getHealth(),
+      scheduler: this.scheduler.getHealth(),
+    });
+  }
+
+  /** Returns the most recent health transitions and Request Outcomes. */
+  getHealthHistory(): ClientHealthHistory {
+    return this.health.history();
+  }
+
+  /** Registers a health-transition listener and returns a function that removes it. */
+  onHealthTransition(listener: HealthTransitionListener): () => void {
+    return this.health.onTransition(listener);
+  }
+
+  /** Returns this client's most recent security events, oldest first. */
+  getSecurityEvents(limit?: number): SecurityEvent[] {
+    return this.security.getSecurityEvents(limit);
+  }
+
+  /** Registers request middleware and returns a function that removes it. */
+  use(middleware: PubgMiddleware): () => void {
+    return this.middleware.use(middleware);
   }
 
-  /** Clears only this client's response cache. */
+  /** Clears only this client's response cache; store failures are logged. */
   clearResponseCache(): void {
-    this.cache.clear();
+    void this.clearCacheStore();
+  }
+
+  private async clearCacheStore(): Promise<void> {
+    try {
+      await this.cache.clear();
+    } catch (error) {
+      this.logger.cache.warn('Response cache clear failed', { error: errorMessage(error) });
+    }
+  }
+
+  /** Reads a cached telemetry payload; store failures are logged and treated as misses. */
+  private async readTelemetryCache(matchId: string): Promise<Uint8Array | undefined> {
+    if (!this.telemetryCache) return undefined;
+    try {
+      return await this.telemetryCache.get(matchId);
+    } catch (error) {
+      this.logger.cache.warn('Telemetry cache read failed', {
+        matchId,
+        error: errorMessage(error),
+      });
+      return undefined;
+    }
+  }
+
+  private async writeTelemetryCache(
+    matchId: string,
+    payload: () => Promise<Uint8Array>
+  ): Promise<void> {
+    try {
+      await this.telemetryCache?.set(matchId, await payload());
+    } catch (error) {
+      this.logger.cache.warn('Telemetry cache write failed', {
+        matchId,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  private async discardTelemetryCache(matchId: string, reason: unknown): Promise<void> {
+    this.logger.cache.warn('Discarding unreadable cached telemetry', {
+      matchId,
+      error: errorMessage(reason),
+    });
+    await this.telemetryCache?.delete(matchId).catch(() => undefined);
   }
 }
@@ -1,7 +1,9 @@
 import type { PubgClientConfig } from '../types/api';
 import { AssetCatalog } from '../utils/assets/catalog';
-import type { ClientHealth } from './client-health';
+import type { SecurityEvent } from '../utils/security';
+import type { ClientHealth, ClientHealthHistory, HealthTransitionListener } from './client-health';
 import { ClientRuntime } from './client-runtime';
+import type { PubgMiddleware } from './middleware';
 import { Leaderboards } from './services/leaderboards';
 import { Matches } from './services/matches';
 import { Players } from './services/players';
@@ -21,10 +23,10 @@ export class PubgClient {
   constructor(config: PubgClientConfig) {
     this.runtime = new ClientRuntime(config);
 
-    this.players = new Players(this.runtime, config.shard);
-    this.matches = new Matches(this.runtime, config.shard);
+    this.players = new Players(this.runtime, config.shard, this.runtime.input);
+    this.matches = new Matches(this.runtime, config.shard, this.runtime.input);
     this.seasons = new Seasons(this.runtime, config.shard);
-    this.leaderboards = new Leaderboards(this.runtime, config.shard);
+    this.leaderboards = new Leaderboards(this.runtime, config.shard, this.runtime.input);
     this.samples = new Samples(this.runtime, config.shard);
     this.assets = new AssetCatalog({ assetBaseUrl: config.assetBaseUrl });
   }
@@ -34,7 +36,64 @@ export class PubgClient {
     return this.runtime.getHealth();
   }
 
-  /** Clears only this client's cached API responses. */
+  /**
+   * Returns the most recent health transitions and Request Outcomes with their timestamps, oldest
+   * first. The history keeps `healthHistory.size` entries of each.
+   */
+  getHealthHistory(): ClientHealthHistory {
+    return this.runtime.getHealthHistory();
+  }
+
+  /**
+   * Registers a listener called whenever this client's health status or reason changes.
+   *
+   * @param listener - Called synchronously with each transition; errors it throws are logged.
+   * @returns A function that removes the listener again.
+   * @example
+   * ```ts
+   * client.onHealthTransition(({ from, to, reason }) => {
+   *   if (to === 'unhealthy') pager.alert(`PUBG client ${from} -> ${to}: ${reason}`);
+   * });
+   * ```
+   */
+  onHealthTransition(listener: HealthTransitionListener): () => void {
+    return this.runtime.onHealthTransition(listener);
+  }
+
+  /**
+   * Returns this client's most recent security events, oldest first, with redacted context. With
+   * `inputValidation` enabled, these include rejected input and suspicious values.
+   *
+   * @param limit - Maximum number of events to return. Defaults to 50.
+   */
+  getSecurityEvents(limit?: number): SecurityEvent[] {
+    return this.runtime.getSecurityEvents(limit);
+  }
+
+  /**
+   * Registers middleware that observes this client's PUBG API requests.
+   *
+   * @param middleware - Hooks called before each network attempt, after success, on errors, and on
+   * response-cache hits.
+   * @returns A function that removes the middleware again.
+   * @example
+   * ```ts
+   * const remove = client.use({
+   *   onError: ({ target, outcome, error }) => audit.warn(target, outcome.kind, error.message),
+   * });
+   * ```
+   */
+  use(middleware: PubgMiddleware): () => void {
+    return this.runtime.use(middleware);
+  }
+
+  /**
+   * Clears only this client's cached API responses.
+   *
+   * @remarks
+   * The in-memory cache is cleared before this returns. A configured `cacheStore` is cleared in the
+   * background and failures are logged; await the store's own `clear()` to wait for it.
+   */
   clearResponseCache(): void {
     this.runtime.clearResponseCache();
   }
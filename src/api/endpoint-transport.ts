@@ -1,7 +1,49 @@
 import type { AxiosRequestConfig } from 'axios';
+import { PubgConfigurationError } from '../errors';
+import type { CacheEndpointKind, RequestOptions, RequestPriority } from '../types/api';
+import type { OperationDeadline } from '../utils/deadline';
 
 /** Internal request configuration with response-cache control. */
-export type CacheRequestConfig = AxiosRequestConfig & { useCache?: boolean };
+export type CacheRequestConfig = AxiosRequestConfig & {
+  useCache?: boolean;
+  cacheKind?: CacheEndpointKind;
+  cacheTtl?: number;
+  priority?: RequestPriority;
+  deadline?: OperationDeadline;
+};
+
+/**
+ * Starts the time budget of one logical operation from `RequestOptions.deadline`.
+ *
+ * @remarks
+ * Services that chain requests resolve the deadline once and pass it to each of them.
+ */
+export const operationDeadline = (options: RequestOptions = {}): OperationDeadline | undefined => {
+  const { deadline } = options;
+  if (deadline === undefined) return undefined;
+  if (typeof deadline !== 'number' || !Number.isFinite(deadline) || deadline < 0) {
+    throw new PubgConfigurationError(
+      'Deadline must be a non-negative finite number of milliseconds',
+      'deadline',
+      'non-negative finite number',
+      deadline
+    );
+  }
+  return { at: Date.now() + deadline, budgetMs: deadline };
+};
+
+/** Translates public per-call options into the transport configuration for one endpoint call. */
+export const endpointRequestConfig = (
+  cacheKind: CacheEndpointKind,
+  options: RequestOptions = {},
+  deadline: OperationDeadline | undefined = operationDeadline(options)
+): CacheRequestConfig => ({
+  cacheKind,
+  cacheTtl: options.cacheTtl,
+  signal: options.signal,
+  priority: options.priority,
+  deadline,
+});
 
 /**
  * Narrow transport seam consumed by endpoint services.
@@ -12,7 +54,18 @@ export interface EndpointTransport {
   get<T>(url: string, config?: CacheRequestConfig): Promise<T>;
 }
 
+/** Per-download options for Match Telemetry. */
+export interface TelemetryRequestConfig {
+  /** Match the telemetry belongs to; enables the telemetry cache when one is configured. */
+  matchId?: string;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+  /** Remaining budget of the operation that discovered the telemetry. */
+  deadline?: OperationDeadline;
+}
+
 /** Request seam used only by Matches, which owns Match Telemetry discovery. */
 export interface MatchTransport extends EndpointTransport {
-  fetchTelemetry<T>(url: string): Promise<T>;
+  fetchTelemetry<T>(url: string, config?: TelemetryRequestConfig): Promise<T>;
+  streamTelemetry<T>(url: string, config?: TelemetryRequestConfig): AsyncIterable<T>;
 }
@@ -0,0 +1,188 @@
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+type RequestFunction = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+type ExternalGetFunction = <T>(
+  url: string,
+  config?: AxiosRequestConfig
+) => Promise<AxiosResponse<T>>;
+type FetchFunction = (input: string, init: RequestInit) => Promise<Response>;
+
+/** Network adapters backed by the standard `fetch` API. */
+export interface FetchTransportAdapters {
+  request: RequestFunction;
+  externalGet: ExternalGetFunction;
+}
+
+/** Options for {@link createFetchTransport}. */
+export interface FetchTransportOptions {
+  baseUrl: string;
+  timeout: number;
+  /** Defaults to the global `fetch`, resolved on every request. */
+  fetch?: FetchFunction;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+
+const globalFetch: FetchFunction = (input, init) => globalThis.fetch(input, init);
+
+/** Copies scalar headers as strings; `undefined` and `null` values are dropped. */
+const scalarHeaders = (headers: unknown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(asRecord(headers))
+      .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+      .map(([name, value]) => [name, String(value)])
+  );
+
+/** Lower-cases response header names the way axios does so `retry-after` lookups keep working. */
+const responseHeaders = (headers: Headers): Record<string, string> => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+};
+
+const requestUrl = (baseUrl: string, config: AxiosRequestConfig): string => {
+  const url = config.url ?? '';
+  const absolute = /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+    ? url
+    : `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+  const params = Object.entries(asRecord(config.params)).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  if (params.length === 0) return absolute;
+
+  const query = new URLSearchParams(params.map(([name, value]) => [name, String(value)]));
+  return `${absolute}${absolute.includes('?') ? '&' : '?'}${query.toString()}`;
+};
+
+const parseBody = (text: string): unknown => {
+  if (text === '') return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/** Network error codes reported by Node's fetch through `error.cause.code`. */
+const causeCode = (error: unknown): string | undefined => {
+  const code = asRecord(asRecord(error).cause).code;
+  return typeof code === 'string' ? code : undefined;
+};
+
+/**
+ * Sends one request with `fetch` and settles it the way an axios adapter would.
+ *
+ * @remarks
+ * Non-2xx responses reject with `{ config, response }` and transport failures reject with a
+ * `code`, so the transaction runner classifies both exactly as it classifies axios errors. With
+ * `responseType: 'stream'`, a successful response resolves with the unread body stream and the
+ * caller's signal keeps cancelling it; the timeout covers only the response headers.
+ */
+const send = async <T>(
+  fetchFn: FetchFunction,
+  url: string,
+  config: AxiosRequestConfig,
+  headers: Record<string, string>
+): Promise<AxiosResponse<T>> => {
+  const callerSignal = config.signal as AbortSignal | undefined;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    config.timeout && config.timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, config.timeout)
+      : undefined;
+  const abort = () => controller.abort();
+  if (callerSignal?.aborted) controller.abort();
+  callerSignal?.addEventListener('abort', abort, { once: true });
+
+  const transportError = (error: unknown): Error => {
+    const code = timedOut
+      ? 'ETIMEDOUT'
+      : callerSignal?.aborted
+        ? 'ERR_CANCELED'
+        : (causeCode(error) ?? 'ERR_NETWORK');
+    const message = timedOut
+      ? `timeout of ${config.timeout}ms exceeded`
+      : error instanceof Error
+        ? error.message
+        : 'Network Error';
+    return Object.assign(new Error(message), { code, config });
+  };
+
+  let streaming = false;
+  try {
+    let fetched: Response;
+    let data: unknown;
+    try {
+      fetched = await fetchFn(url, {
+        method: (config.method ?? 'get').toUpperCase(),
+        headers,
+        body: config.data === undefined ? undefined : JSON.stringify(config.data),
+        signal: controller.signal,
+      });
+      streaming = config.responseType === 'stream' && fetched.ok && fetched.body !== null;
+      data = streaming ? fetched.body : parseBody(await fetched.text());
+    } catch (error) {
+      throw transportError(error);
+    }
+
+    const response = {
+      config,
+      data: data as T,
+      headers: responseHeaders(fetched.headers),
+      status: fetched.status,
+      statusText: fetched.statusText,
+    } as AxiosResponse<T>;
+
+    if (fetched.status >= 200 && fetched.status < 300) return response;
+    throw Object.assign(new Error(`Request failed with status code ${fetched.status}`), {
+      code: fetched.status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST',
+      config,
+      response,
+    });
+  } finally {
+    clearTimeout(timer);
+    if (!streaming) callerSignal?.removeEventListener('abort', abort);
+  }
+};
+
+/**
+ * Creates PUBG API and Match Telemetry adapters on the standard `fetch` API.
+ *
+ * @remarks
+ * The adapters honor the same request contract as the axios transport: `baseUrl`, timeouts,
+ * `AbortSignal`, and axios-shaped responses and failures. Match Telemetry downloads send only
+ * `Accept: application/json`, never the API key; `fetch` decompresses gzip responses itself.
+ *
+ * @internal
+ */
+export const createFetchTransport = (options: FetchTransportOptions): FetchTransportAdapters => {
+  const fetchFn = options.fetch ?? globalFetch;
+
+  return {
+    request: (config) =>
+      send(
+        fetchFn,
+        requestUrl(options.baseUrl, config),
+        { timeout: options.timeout, ...config },
+        {
+          Accept: 'application/vnd.api+json',
+          'Content-Type': 'application/json',
+          ...scalarHeaders(config.headers),
+        }
+      ),
+    externalGet: <T>(url: string, config: AxiosRequestConfig = {}) =>
+      send<T>(
+        fetchFn,
+        url,
+        { timeout: options.timeout, ...config, method: 'get', url },
+        { Accept: 'application/json' }
+      ),
+  };
+};
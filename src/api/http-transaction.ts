@@ -3,18 +3,29 @@ import {
   PubgApiError,
   PubgAuthenticationError,
   PubgCacheError,
+  PubgCancellationError,
+  PubgCircuitOpenError,
+  PubgConfigurationError,
   PubgNetworkError,
   PubgNotFoundError,
   PubgRateLimitError,
   PubgValidationError,
 } from '../errors';
-import type { PubgClientConfig } from '../types/api';
-import { createCacheKey, type MemoryCache } from '../utils/cache';
-import { logger, withTiming } from '../utils/logger';
-import type { RateLimiter } from '../utils/rate-limiter';
+import type { CacheEndpointKind, PubgClientConfig, RequestPriority } from '../types/api';
+import { abortableDelay, throwIfAborted } from '../utils/abort';
+import { createCacheKey } from '../utils/cache';
+import type { ResponseCacheStore } from '../utils/cache-store';
+import { DeadlineSignal, type OperationDeadline } from '../utils/deadline';
+import { errorMessage, type Logger, withTiming } from '../utils/logger';
 import type { RequestDeduplicator } from '../utils/request';
+import { parseTelemetryStream } from '../utils/telemetry-stream';
+import type { ApiKeyPool } from './api-key-pool';
+import type { CircuitBreaker } from './circuit-breaker';
 import type { RequestOutcome } from './client-health';
 import type { CacheRequestConfig } from './endpoint-transport';
+import type { MiddlewareChain, MiddlewareContext } from './middleware';
+import type { RequestScheduler } from './request-scheduler';
+import { validateResponseSchema } from './response-schemas';
 
 type RequestFunction = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
 
@@ -23,19 +34,60 @@ type ExternalGetFunction = <T>(
   config?: AxiosRequestConfig
 ) => Promise<AxiosResponse<T>>;
 
+/** Request configuration carrying the caller's scheduling lane and operation deadline. */
+type ScheduledRequestConfig = AxiosRequestConfig & {
+  priority?: RequestPriority;
+  deadline?: OperationDeadline;
+};
+
 /** Dependencies required by the internal HTTP transaction runner. */
 export interface HttpTransactionRunnerDependencies {
   request: RequestFunction;
   externalGet: ExternalGetFunction;
-  cache: MemoryCache;
-  rateLimiter: RateLimiter;
+  cache: ResponseCacheStore;
+  apiKeys: ApiKeyPool;
+  circuitBreaker: CircuitBreaker;
   deduplicator: RequestDeduplicator;
-  recordOutcome: (outcome: RequestOutcome) => void;
-  config: Pick<PubgClientConfig, 'timeout' | 'retryAttempts' | 'retryDelay'>;
+  middleware: MiddlewareChain;
+  scheduler: RequestScheduler;
+  logger: Logger;
+  recordOutcome: (outcome: RequestOutcome, durationMs?: number) => void;
+  config: TransactionConfig;
 }
 
+type TransactionConfig = Pick<
+  PubgClientConfig,
+  | 'shard'
+  | 'timeout'
+  | 'retryAttempts'
+  | 'retryDelay'
+  | 'cacheTtl'
+  | 'retryOnRateLimit'
+  | 'maxRateLimitWait'
+  | 'staleWhileRevalidate'
+  | 'staleIfError'
+  | 'responseValidation'
+>;
+
 const SERVER_RETRY_STATUSES = new Set([500, 502, 503, 504]);
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 60_000;
 const GET_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_LOGGED_SCHEMA_ISSUES = 20;
+
+/**
+ * Default response-cache TTLs. Match documents never change once published, while player
+ * documents, season lists, and match listings change as new matches are played.
+ */
+export const DEFAULT_CACHE_TTL_POLICY: Readonly<Record<CacheEndpointKind, number>> = {
+  matches: 24 * 60 * 60 * 1000,
+  matchLists: 60 * 1000,
+  players: 60 * 1000,
+  seasons: 60 * 1000,
+  leaderboards: GET_CACHE_TTL_MS,
+  samples: GET_CACHE_TTL_MS,
+  seasonStats: GET_CACHE_TTL_MS,
+  lifetimeStats: GET_CACHE_TTL_MS,
+};
 const EXTERNAL_TELEMETRY_ENDPOINT = 'external_telemetry';
 const EXTERNAL_TELEMETRY_ERROR_MESSAGE = 'External telemetry request failed';
 
@@ -63,6 +115,60 @@ type RequestFailure =
 const asRecord = (value: unknown): Record<string, unknown> =>
   typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
 
+const signalOf = (config: AxiosRequestConfig | undefined): AbortSignal | undefined =>
+  config?.signal as AbortSignal | undefined;
+
+const priorityOf = (config: ScheduledRequestConfig | undefined): RequestPriority =>
+  config?.priority ?? 'interactive';
+
+/**
+ * Response-cache entry written when a stale window is configured. The store keeps it past
+ * `freshUntil` for the longer of the stale-while-revalidate and stale-if-error windows.
+ */
+interface StaleableCacheEntry<T> {
+  readonly staleable: true;
+  readonly data: T;
+  readonly freshUntil: number;
+}
+
+const isStaleableEntry = (value: unknown): value is StaleableCacheEntry<unknown> => {
+  const record = asRecord(value);
+  return record.staleable === true && typeof record.freshUntil === 'number' && 'data' in record;
+};
+
+/** True for failures that indicate the PUBG API is unavailable rather than rejecting the request. */
+const isApiOutage = (error: unknown): boolean =>
+  error instanceof PubgNetworkError ||
+  error instanceof PubgRateLimitError ||
+  error instanceof PubgCircuitOpenError ||
+  (error instanceof PubgApiError && (error.statusCode ?? 0) >= 500);
+
+/** Progress of one logical request across its network attempts. */
+interface RequestTrace {
+  readonly startedAt: number;
+  attempts: number;
+  outcome?: RequestOutcome;
+  deadline?: DeadlineSignal;
+}
+
+/** Copies scalar request headers as strings, dropping any authorization header whatever its casing. */
+const withoutAuthorization = (headers: unknown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(asRecord(headers))
+      .filter(
+        ([name, value]) =>
+          name.toLowerCase() !== 'authorization' &&
+          ['string', 'number', 'boolean'].includes(typeof value)
+      )
+      .map(([name, value]) => [name, String(value)])
+  );
+
+/** Replaces any authorization header, whatever its casing, with the selected pool key. */
+const withApiKey = (config: AxiosRequestConfig, apiKey: string): AxiosRequestConfig => ({
+  ...config,
+  headers: { ...withoutAuthorization(config.headers), Authorization: `Bearer ${apiKey}` },
+});
+
 /**
  * Internal request transaction runner for a client-local runtime.
  *
@@ -71,33 +177,113 @@ const asRecord = (value: unknown): Record<string, unknown> =>
 export class HttpTransactionRunner {
   private request: RequestFunction;
   private externalGet: ExternalGetFunction;
-  private cache: MemoryCache;
-  private rateLimiter: RateLimiter;
+  private cache: ResponseCacheStore;
+  private apiKeys: ApiKeyPool;
+  private circuitBreaker: CircuitBreaker;
   private deduplicator: RequestDeduplicator;
-  private recordOutcome: (outcome: RequestOutcome) => void;
-  private config: Pick<PubgClientConfig, 'timeout' | 'retryAttempts' | 'retryDelay'>;
+  private middleware: MiddlewareChain;
+  private scheduler: RequestScheduler;
+  private logger: Logger;
+  private recordOutcome: (outcome: RequestOutcome, durationMs?: number) => void;
+  private config: TransactionConfig;
 
   constructor(dependencies: HttpTransactionRunnerDependencies) {
     this.request = dependencies.request;
     this.externalGet = dependencies.externalGet;
     this.cache = dependencies.cache;
-    this.rateLimiter = dependencies.rateLimiter;
+    this.apiKeys = dependencies.apiKeys;
+    this.circuitBreaker = dependencies.circuitBreaker;
     this.deduplicator = dependencies.deduplicator;
+    this.middleware = dependencies.middleware;
+    this.scheduler = dependencies.scheduler;
+    this.logger = dependencies.logger;
     this.recordOutcome = dependencies.recordOutcome;
     this.config = dependencies.config;
   }
 
   async get<T>(url: string, config?: CacheRequestConfig): Promise<T> {
-    const useCache = config?.useCache !== false;
+    if (!config?.deadline) return await this.getWithin<T>(url, config);
+
+    const deadline = new DeadlineSignal(config.deadline, signalOf(config));
+    try {
+      return await this.getWithin<T>(url, { ...config, signal: deadline.signal }, deadline);
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async getWithin<T>(
+    url: string,
+    config: CacheRequestConfig | undefined,
+    deadline?: DeadlineSignal
+  ): Promise<T> {
+    const signal = signalOf(config);
+    throwIfAborted(signal);
+    const cacheTtl = this.cacheTtlFor(config);
+    const useCache = config?.useCache !== false && cacheTtl > 0;
     const cacheKey = createCacheKey('http', 'GET', url, JSON.stringify(config?.params || {}));
+    const startedAt = Date.now();
+    const staleWhileRevalidate = this.config.staleWhileRevalidate ?? 0;
+    const staleIfError = this.config.staleIfError ?? 0;
+    const staleable = useCache && (staleWhileRevalidate > 0 || staleIfError > 0);
+
+    const load = (loadSignal: AbortSignal | undefined, lane?: RequestPriority) => async () => {
+      const response = await withTiming(
+        this.logger.http,
+        'GET request',
+        async () => {
+          const { deadline: _deadline, ...requestConfig } = config ?? {};
+          return await this.execute<T>(
+            {
+              ...requestConfig,
+              method: 'get',
+              priority: lane ?? priorityOf(config),
+              signal: loadSignal,
+              url,
+            },
+            // Only the caller's own load runs within its deadline, not a background refresh.
+            loadSignal === signal ? deadline : undefined
+          );
+        },
+        { endpoint: url, shard: this.config.shard }
+      );
+      const data = this.checkResponseSchema(url, config?.cacheKind, response.data);
+
+      if (useCache && response.status === 200) {
+        try {
+          if (staleable) {
+            const entry: StaleableCacheEntry<T> = {
+              staleable: true,
+              data,
+              freshUntil: Date.now() + cacheTtl,
+            };
+            await this.cache.set(
+              cacheKey,
+              entry,
+              cacheTtl + Math.max(staleWhileRevalidate, staleIfError)
+            );
+          } else {
+            await this.cache.set(cacheKey, data, cacheTtl);
+          }
+        } catch (error) {
+          this.logger.cache.warn('Cache set failed', {
+            endpoint: url,
+            cacheKey,
+            error: errorMessage(error),
+          });
+        }
+      }
 
+      return data;
+    };
+
+    let stale: StaleableCacheEntry<T> | undefined;
     if (useCache) {
+      let cached: T | StaleableCacheEntry<T> | undefined;
       try {
-        const cached = this.cache.get<T>(cacheKey);
-        if (cached !== undefined) {
-          this.recordOutcome({ kind: 'cache_hit' });
-          return cached;
-        }
+        cached = await this.cache.get<T | StaleableCacheEntry<T>>(cacheKey);
       } catch (error) {
         throw new PubgCacheError(
           `Failed to retrieve from cache: ${
@@ -111,31 +297,46 @@ export class HttpTransactionRunner {
           }
         );
       }
-    }
 
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      const response = await withTiming(logger.http, `GET ${url}`, async () => {
-        return await this.execute<T>({
-          ...config,
-          method: 'get',
-          url,
-        });
-      });
-
-      if (useCache && response.status === 200) {
-        try {
-          this.cache.set(cacheKey, response.data, GET_CACHE_TTL_MS);
-        } catch (error) {
-          logger.http(
-            `Cache set failed for ${cacheKey}: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`
-          );
+      if (cached !== undefined) {
+        const now = Date.now();
+        if (!isStaleableEntry(cached)) {
+          return await this.cacheHit(url, startedAt, cached as T, false);
+        }
+        if (now < cached.freshUntil) {
+          return await this.cacheHit(url, startedAt, cached.data, false);
+        }
+        if (now < cached.freshUntil + staleWhileRevalidate) {
+          // Refresh in the background lane without the caller's signal; the caller already has data.
+          this.deduplicator.deduplicate(cacheKey, load(undefined, 'background')).catch((error) => {
+            this.logger.cache.warn('Background refresh failed', {
+              endpoint: url,
+              cacheKey,
+              error: errorMessage(error),
+            });
+          });
+          return await this.cacheHit(url, startedAt, cached.data, true);
         }
+        stale = cached;
       }
+    }
 
-      return response.data;
-    });
+    try {
+      // A caller's signal must not cancel identical requests from other callers, so
+      // signal-bearing requests are not shared through the deduplicator.
+      return signal
+        ? await load(signal)()
+        : await this.deduplicator.deduplicate(cacheKey, load(undefined));
+    } catch (error) {
+      if (stale && Date.now() < stale.freshUntil + staleIfError && isApiOutage(error)) {
+        this.logger.cache.info('Serving stale response after a failed refresh', {
+          endpoint: url,
+          cacheKey,
+        });
+        return stale.data;
+      }
+      throw error;
+    }
   }
 
   async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
@@ -170,48 +371,379 @@ export class HttpTransactionRunner {
     return response.data;
   }
 
-  async getExternal<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  /**
+   * Downloads an external resource without authentication.
+   *
+   * @remarks
+   * The download holds a request-scheduler slot until the response resolves; for a streamed
+   * response that is when its headers arrive.
+   */
+  async getExternal<T>(url: string, config?: ScheduledRequestConfig): Promise<T> {
+    if (!config?.deadline) return await this.getExternalWithin<T>(url, config);
+
+    const deadline = new DeadlineSignal(config.deadline, signalOf(config), 'telemetry_download');
+    try {
+      return await this.getExternalWithin<T>(url, { ...config, signal: deadline.signal }, deadline);
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async getExternalWithin<T>(
+    url: string,
+    config: ScheduledRequestConfig | undefined,
+    deadline?: DeadlineSignal
+  ): Promise<T> {
+    const signal = signalOf(config);
+    throwIfAborted(signal);
+    const { priority: _priority, deadline: _deadline, ...externalConfig } = config ?? {};
     const requestConfig = {
-      ...config,
+      ...externalConfig,
       method: 'get',
       timeout: this.config.timeout ?? 10000,
       url,
     };
+    const cancelled = () => {
+      this.recordOutcome({ kind: 'request_cancelled' });
+      return new PubgCancellationError('Telemetry request was cancelled', {
+        operation: EXTERNAL_TELEMETRY_ENDPOINT,
+        metadata: { endpoint: EXTERNAL_TELEMETRY_ENDPOINT, method: 'get' },
+      });
+    };
 
+    let release: () => void;
+    try {
+      deadline?.enter('queued');
+      release = await this.scheduler.acquire(priorityOf(config), signal);
+    } catch {
+      throw cancelled();
+    }
+
+    deadline?.enter('telemetry_download');
+    const startedAt = Date.now();
     try {
       const response = await this.externalGet<T>(url, requestConfig);
-      this.recordOutcome({ kind: 'telemetry_succeeded' });
+      this.recordOutcome({ kind: 'telemetry_succeeded' }, Date.now() - startedAt);
       return response.data;
     } catch (error) {
+      if (error instanceof PubgApiError) throw error;
+      if (signal?.aborted) throw cancelled();
+
       const failure = this.interpretFailure(error);
-      this.recordOutcome(failure.outcome);
+      this.recordOutcome(failure.outcome, Date.now() - startedAt);
       throw this.mapExternalError(error, failure);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Downloads an external JSON array as a stream and yields its elements as they arrive.
+   *
+   * @remarks
+   * The download is recorded like {@link HttpTransactionRunner.getExternal} once the response
+   * headers arrive. Failures while reading the body are mapped without the URL: cancellation to
+   * `PubgCancellationError`, malformed JSON to `PubgValidationError`, and anything else to
+   * `PubgNetworkError`. A deadline covers reading the whole body.
+   */
+  async *streamExternal<T>(url: string, config?: ScheduledRequestConfig): AsyncGenerator<T> {
+    if (!config?.deadline) {
+      yield* this.streamExternalWithin<T>(url, config);
+      return;
+    }
+
+    const deadline = new DeadlineSignal(config.deadline, signalOf(config), 'telemetry_download');
+    try {
+      yield* this.streamExternalWithin<T>(url, { ...config, signal: deadline.signal }, deadline);
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async *streamExternalWithin<T>(
+    url: string,
+    config: ScheduledRequestConfig | undefined,
+    deadline?: DeadlineSignal
+  ): AsyncGenerator<T> {
+    const signal = signalOf(config);
+    const body = await this.getExternalWithin<unknown>(
+      url,
+      { ...config, responseType: 'stream' },
+      deadline
+    );
+    const context = {
+      operation: EXTERNAL_TELEMETRY_ENDPOINT,
+      metadata: { endpoint: EXTERNAL_TELEMETRY_ENDPOINT, method: 'get' },
+    };
+
+    try {
+      yield* parseTelemetryStream<T>(body, signal);
+    } catch (error) {
+      if (error instanceof PubgApiError) throw error;
+      if (signal?.aborted) {
+        throw new PubgCancellationError('Telemetry request was cancelled', context);
+      }
+      if (error instanceof SyntaxError) {
+        throw new PubgValidationError('Telemetry response is not a JSON array of events', context);
+      }
+      throw new PubgNetworkError(EXTERNAL_TELEMETRY_ERROR_MESSAGE, 'request', undefined, context);
     }
   }
 
+  private cacheTtlFor(config: CacheRequestConfig | undefined): number {
+    const ttl =
+      config?.cacheTtl ??
+      (config?.cacheKind
+        ? (this.config.cacheTtl?.[config.cacheKind] ?? DEFAULT_CACHE_TTL_POLICY[config.cacheKind])
+        : GET_CACHE_TTL_MS);
+
+    if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl < 0) {
+      throw new PubgConfigurationError(
+        'Cache TTL must be a non-negative finite number',
+        'cacheTtl',
+        'non-negative finite number',
+        ttl
+      );
+    }
+
+    return ttl;
+  }
+
   private async execute<T>(
+    requestConfig: ScheduledRequestConfig,
+    deadline?: DeadlineSignal
+  ): Promise<AxiosResponse<T>> {
+    const trace: RequestTrace = { startedAt: Date.now(), attempts: 0, deadline };
+
+    try {
+      const response = await this.executeThroughCircuit<T>(requestConfig, trace);
+      await this.middleware.run('afterResponse', {
+        ...this.middlewareContext(requestConfig),
+        attempt: trace.attempts,
+        statusCode: response.status,
+        durationMs: Date.now() - trace.startedAt,
+        outcome: trace.outcome ?? { kind: 'request_succeeded' },
+      });
+      return response;
+    } catch (error) {
+      if (error instanceof PubgApiError && trace.outcome) {
+        await this.middleware.run('onError', {
+          ...this.middlewareContext(requestConfig),
+          attempt: trace.attempts,
+          durationMs: Date.now() - trace.startedAt,
+          outcome: trace.outcome,
+          error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async executeThroughCircuit<T>(
+    requestConfig: ScheduledRequestConfig,
+    trace: RequestTrace
+  ): Promise<AxiosResponse<T>> {
+    const { priority, ...scheduledConfig } = requestConfig;
+    let release: () => void;
+    try {
+      trace.deadline?.enter('queued');
+      release = await this.scheduler.acquire(priority, signalOf(requestConfig));
+    } catch {
+      this.recordTraceOutcome(trace, { kind: 'request_cancelled' });
+      throw new PubgCancellationError('Request was cancelled', {
+        operation: 'http_request',
+        metadata: { url: requestConfig.url, method: requestConfig.method },
+      });
+    }
+
+    try {
+      return await this.executeAcquired<T>(scheduledConfig, trace);
+    } finally {
+      release();
+    }
+  }
+
+  private async executeAcquired<T>(
+    requestConfig: AxiosRequestConfig,
+    trace: RequestTrace
+  ): Promise<AxiosResponse<T>> {
+    if (!this.circuitBreaker.tryAcquire()) {
+      this.recordTraceOutcome(trace, { kind: 'circuit_open' });
+      throw new PubgCircuitOpenError(
+        'Circuit breaker is open after repeated PUBG API failures',
+        Math.ceil(this.circuitBreaker.getRetryDelay() / 1000),
+        {
+          operation: 'http_request',
+          metadata: { url: requestConfig.url, method: requestConfig.method },
+        }
+      );
+    }
+
+    try {
+      return await this.send<T>(requestConfig, trace);
+    } catch (error) {
+      this.circuitBreaker.release();
+      if (error instanceof PubgCancellationError) {
+        this.recordTraceOutcome(trace, { kind: 'request_cancelled' });
+      }
+      throw error;
+    }
+  }
+
+  private async send<T>(
     requestConfig: AxiosRequestConfig,
-    attempt = 1
+    trace: RequestTrace,
+    attempt = 1,
+    throttledMs = 0
   ): Promise<AxiosResponse<T>> {
-    await this.rateLimiter.waitForSlot();
+    const signal = signalOf(requestConfig);
+    const apiKey = this.apiKeys.select();
+    trace.deadline?.enter('rate_limit_wait');
+    await apiKey.rateLimiter.waitForSlot(signal);
 
     try {
-      const response = (await this.request(requestConfig)) as AxiosResponse<T>;
-      this.recordOutcome({ kind: 'request_succeeded' });
+      const headers = withoutAuthorization(requestConfig.headers);
+      await this.middleware.run('beforeRequest', {
+        ...this.middlewareContext(requestConfig),
+        attempt: ++trace.attempts,
+        headers,
+      });
+      trace.deadline?.enter('request');
+      const response = (await this.request(
+        withApiKey({ ...requestConfig, headers }, apiKey.key)
+      )) as AxiosResponse<T>;
+      apiKey.rateLimiter.updateFromHeaders(response.headers);
+      this.recordTerminalOutcome(trace, { kind: 'request_succeeded' });
       return response;
     } catch (error) {
+      // Errors raised by the adapter itself, such as a missing replay fixture, are not API outcomes.
+      if (error instanceof PubgApiError) throw error;
+
+      apiKey.rateLimiter.updateFromHeaders(asRecord(asRecord(error).response).headers);
+      if (signal?.aborted) {
+        throw new PubgCancellationError('Request was cancelled', {
+          operation: 'http_request',
+          metadata: { url: requestConfig.url, method: requestConfig.method },
+        });
+      }
+
       const failure = this.interpretFailure(error);
 
+      if (failure.kind === 'authentication' && this.apiKeys.disable(apiKey)) {
+        this.logger.http.warn('API key rejected with 401; retrying with the next pooled key', {
+          endpoint: requestConfig.url,
+          shard: this.config.shard,
+        });
+        return await this.send<T>(requestConfig, trace, attempt, throttledMs);
+      }
+
       if (this.shouldRetry(failure, attempt)) {
-        await this.waitForRetry(attempt);
-        return await this.execute<T>(this.getRetryConfig(error, requestConfig), attempt + 1);
+        trace.deadline?.enter('retry_backoff');
+        await this.waitForRetry(attempt, signal);
+        return await this.send<T>(
+          this.getRetryConfig(error, requestConfig),
+          trace,
+          attempt + 1,
+          throttledMs
+        );
+      }
+
+      const rateLimitWaitMs = this.rateLimitWaitFor(failure, throttledMs);
+      if (rateLimitWaitMs !== undefined) {
+        this.recordOutcome({ kind: 'throttled', statusCode: 429, waitMs: rateLimitWaitMs });
+        this.logger.rateLimit.info('Rate limited; retrying after Retry-After', {
+          endpoint: requestConfig.url,
+          shard: this.config.shard,
+          waitMs: rateLimitWaitMs,
+        });
+        trace.deadline?.enter('retry_after');
+        await abortableDelay(rateLimitWaitMs, signal);
+        return await this.send<T>(
+          this.getRetryConfig(error, requestConfig),
+          trace,
+          attempt,
+          throttledMs + rateLimitWaitMs
+        );
       }
 
-      this.recordOutcome(failure.outcome);
+      this.recordTerminalOutcome(trace, failure.outcome);
       throw this.mapError(error, requestConfig, failure);
     }
   }
 
+  /**
+   * Applies `responseValidation` to a PUBG API response body before it is cached or returned.
+   *
+   * @throws {@link PubgValidationError} In strict mode, naming the first mismatching path.
+   */
+  private checkResponseSchema<T>(url: string, kind: CacheEndpointKind | undefined, data: T): T {
+    const mode = this.config.responseValidation;
+    if (!mode || !kind) return data;
+
+    const issues = validateResponseSchema(kind, data);
+    if (issues.length === 0) return data;
+
+    if (mode === 'lenient') {
+      this.logger.http.warn('Response does not match its schema', {
+        endpoint: url,
+        shard: this.config.shard,
+        endpointKind: kind,
+        issueCount: issues.length,
+        issues: issues.slice(0, MAX_LOGGED_SCHEMA_ISSUES),
+      });
+      return data;
+    }
+
+    const [{ path, expected, received }] = issues;
+    throw new PubgValidationError(
+      `Response from ${url} does not match the ${kind} schema at ${path}: expected ${expected}, received ${received}`,
+      {
+        operation: 'response_validation',
+        metadata: { url, endpointKind: kind, path, expected, received, issueCount: issues.length },
+      }
+    );
+  }
+
+  private async cacheHit<T>(url: string, startedAt: number, data: T, stale: boolean): Promise<T> {
+    this.recordOutcome({ kind: 'cache_hit' });
+    await this.middleware.run('onCacheHit', {
+      target: url,
+      shard: this.config.shard,
+      method: 'get',
+      durationMs: Date.now() - startedAt,
+      outcome: { kind: 'cache_hit' },
+      stale,
+    });
+    return data;
+  }
+
+  /** Records the outcome of a request that reached the network, with its duration. */
+  private recordTerminalOutcome(trace: RequestTrace, outcome: RequestOutcome): void {
+    this.circuitBreaker.record(outcome);
+    this.recordTraceOutcome(trace, outcome, Date.now() - trace.startedAt);
+  }
+
+  private recordTraceOutcome(
+    trace: RequestTrace,
+    outcome: RequestOutcome,
+    durationMs?: number
+  ): void {
+    trace.outcome = outcome;
+    this.recordOutcome(outcome, durationMs);
+  }
+
+  private middlewareContext(requestConfig: AxiosRequestConfig): MiddlewareContext {
+    return {
+      target: requestConfig.url ?? 'unknown',
+      shard: this.config.shard,
+      method: requestConfig.method ?? 'get',
+    };
+  }
+
   private interpretFailure(error: unknown): RequestFailure {
     const errorRecord = asRecord(error);
     const response = asRecord(errorRecord.response);
@@ -276,15 +808,25 @@ export class HttpTransactionRunner {
     return attempt <= retryAttempts && failure.kind === 'server';
   }
 
-  private async waitForRetry(attempt: number): Promise<void> {
+  /** Returns the Retry-After wait for an opt-in rate-limit retry, or undefined to stop retrying. */
+  private rateLimitWaitFor(failure: RequestFailure, throttledMs: number): number | undefined {
+    if (failure.kind !== 'rate_limited' || !this.config.retryOnRateLimit) return undefined;
+
+    const waitMs = failure.retryAfter * 1000;
+    const maxWaitMs = this.config.maxRateLimitWait ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS;
+    return throttledMs + waitMs <= maxWaitMs ? waitMs : undefined;
+  }
+
+  private async waitForRetry(attempt: number, signal?: AbortSignal): Promise<void> {
     const delay = (this.config.retryDelay ?? 1000) * 2 ** (attempt - 1);
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    await abortableDelay(delay, signal);
   }
 
   private getRetryConfig(error: unknown, fallbackConfig: AxiosRequestConfig): AxiosRequestConfig {
     const errorConfig = asRecord(error).config;
+    // Keep the caller's signal when an adapter rejects with a config that does not carry it.
     return typeof errorConfig === 'object' && errorConfig !== null
-      ? (errorConfig as AxiosRequestConfig)
+      ? { signal: fallbackConfig.signal, ...(errorConfig as AxiosRequestConfig) }
       : fallbackConfig;
   }
 
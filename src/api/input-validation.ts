@@ -0,0 +1,64 @@
+import { PubgValidationError } from '../errors';
+import type { SecurityManager, ValidationResult } from '../utils/security';
+
+/**
+ * Checks caller input in the endpoint services before a request is sent.
+ *
+ * @remarks
+ * Rejected input throws `PubgValidationError` naming the field, such as `playerNames[1]`, and is
+ * recorded as a security event, so invalid lookups cost neither a round trip nor a rate-limit
+ * slot. Without a `SecurityManager` every check passes.
+ *
+ * @internal
+ */
+export class InputValidator {
+  /** Validator used when `inputValidation` is not enabled. */
+  static readonly disabled = new InputValidator();
+
+  constructor(private readonly security?: SecurityManager) {}
+
+  playerNames(names: readonly string[] | undefined, field = 'playerNames'): void {
+    names?.forEach((name, index) => {
+      this.playerName(name, `${field}[${index}]`);
+    });
+  }
+
+  playerName(name: string, field = 'playerName'): void {
+    if (this.security) this.check(field, this.security.validatePlayerName(name));
+  }
+
+  accountIds(accountIds: readonly string[] | undefined, field = 'playerIds'): void {
+    accountIds?.forEach((accountId, index) => {
+      this.accountId(accountId, `${field}[${index}]`);
+    });
+  }
+
+  accountId(accountId: string, field = 'playerId'): void {
+    if (this.security) this.check(field, this.security.validateAccountId(accountId));
+  }
+
+  matchId(matchId: string, field = 'matchId'): void {
+    if (this.security) this.check(field, this.security.validateMatchId(matchId));
+  }
+
+  seasonId(seasonId: string, field = 'seasonId'): void {
+    if (this.security) this.check(field, this.security.validateSeasonId(seasonId));
+  }
+
+  /** Checks free-form path and query values such as game modes. */
+  urlParameter(value: string | undefined, field: string): void {
+    if (this.security && value !== undefined) {
+      this.check(field, this.security.validateUrlParameter(value, field));
+    }
+  }
+
+  private check(field: string, result: ValidationResult): void {
+    if (result.isValid) return;
+
+    this.security?.recordInputRejection(field, result.errors);
+    throw new PubgValidationError(`Invalid ${field}: ${result.errors.join('; ')}`, {
+      operation: 'input_validation',
+      metadata: { field, errors: result.errors },
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import type { PubgApiError } from '../errors';
+import type { Shard } from '../types/common';
+import { logger as defaultLogger, errorMessage, type Logger } from '../utils/logger';
+import type { RequestOutcome } from './client-health';
+
+/** Fields shared by every middleware hook context. */
+export interface MiddlewareContext {
+  /** Endpoint Target path, including any query string, relative to the PUBG API base URL. */
+  readonly target: string;
+  readonly shard: Shard;
+  readonly method: string;
+}
+
+/** Context passed to `beforeRequest` once per network attempt. */
+export interface MiddlewareRequestContext extends MiddlewareContext {
+  /** One-based network attempt number, counting retries and Retry-After waits. */
+  readonly attempt: number;
+  /**
+   * Mutable request headers without `Authorization`. Added headers are sent with the attempt; the
+   * client always sets `Authorization` itself, so it cannot be read or overridden here.
+   */
+  readonly headers: Record<string, string>;
+}
+
+/** Context passed to `afterResponse` when a request succeeds. */
+export interface MiddlewareResponseContext extends MiddlewareContext {
+  readonly attempt: number;
+  readonly statusCode: number;
+  /** Milliseconds from the start of the request, including retries and waits. */
+  readonly durationMs: number;
+  readonly outcome: RequestOutcome;
+}
+
+/** Context passed to `onError` when a request ends with an error. */
+export interface MiddlewareErrorContext extends MiddlewareContext {
+  /** Network attempts made; 0 when the request never reached the network. */
+  readonly attempt: number;
+  readonly durationMs: number;
+  readonly outcome: RequestOutcome;
+  readonly error: PubgApiError;
+}
+
+/** Context passed to `onCacheHit` when a GET is answered from the response cache. */
+export interface MiddlewareCacheHitContext extends MiddlewareContext {
+  readonly durationMs: number;
+  readonly outcome: RequestOutcome;
+  /** True when an expired entry was served inside the stale-while-revalidate window. */
+  readonly stale: boolean;
+}
+
+/**
+ * Hooks observing PUBG API requests made by one client.
+ *
+ * @remarks
+ * Hooks run in registration order and may be async; the request waits for them. Errors thrown by a
+ * hook are logged and never fail the request. Match Telemetry downloads are not passed through
+ * middleware because their URLs are signed.
+ *
+ * @example
+ * ```ts
+ * client.use({
+ *   beforeRequest: ({ headers }) => {
+ *     headers['X-Trace-Id'] = currentTraceId();
+ *   },
+ *   afterResponse: ({ target, durationMs }) => metrics.timing('pubg.request', durationMs, { target }),
+ * });
+ * ```
+ */
+export interface PubgMiddleware {
+  beforeRequest?(context: MiddlewareRequestContext): void | Promise<void>;
+  afterResponse?(context: MiddlewareResponseContext): void | Promise<void>;
+  onError?(context: MiddlewareErrorContext): void | Promise<void>;
+  onCacheHit?(context: MiddlewareCacheHitContext): void | Promise<void>;
+}
+
+type MiddlewareHook = keyof PubgMiddleware;
+type MiddlewareHookContext<H extends MiddlewareHook> = Parameters<
+  NonNullable<PubgMiddleware[H]>
+>[0];
+
+/**
+ * Ordered middleware registered on one client runtime.
+ *
+ * @internal
+ */
+export class MiddlewareChain {
+  private readonly middleware: PubgMiddleware[];
+
+  constructor(
+    middleware: readonly PubgMiddleware[] = [],
+    private readonly logger: Logger = defaultLogger
+  ) {
+    this.middleware = [...middleware];
+  }
+
+  /** Registers middleware and returns a function that removes it again. */
+  use(middleware: PubgMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) this.middleware.splice(index, 1);
+    };
+  }
+
+  /** Runs one hook on every registered middleware, logging instead of throwing hook errors. */
+  async run<H extends MiddlewareHook>(hook: H, context: MiddlewareHookContext<H>): Promise<void> {
+    for (const middleware of [...this.middleware]) {
+      const handler = middleware[hook] as
+        | ((context: MiddlewareHookContext<H>) => void | Promise<void>)
+        | undefined;
+      if (!handler) continue;
+
+      try {
+        await handler.call(middleware, context);
+      } catch (error) {
+        this.logger.client.warn('Middleware hook failed', { hook, error: errorMessage(error) });
+      }
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { PubgConfigurationError } from '../errors';
+import type { PaginationOptions } from '../types/api';
+import { throwIfAborted } from '../utils/abort';
+
+/** One paginated endpoint as seen by {@link paginate}. */
+export interface PageSource<TPage, TRecord> {
+  /** Page size requested from the endpoint, if any. */
+  pageSize?: number;
+  /** Offset of the first page, if any. */
+  offset?: number;
+  /** Fetches the page starting at `offset`; `undefined` requests the endpoint's first page. */
+  fetchPage(offset: number | undefined): Promise<TPage>;
+  /** Records of one page, in the order they are yielded. */
+  records(page: TPage): readonly TRecord[];
+}
+
+/** Offset named by a JSON:API `links.next` URL, if it names one. */
+const nextLinkOffset = (next: string | undefined): number | undefined => {
+  if (!next) return undefined;
+  try {
+    const offset = new URL(next, 'https://api.pubg.com').searchParams.get('page[offset]');
+    return offset === null || !/^\d+$/.test(offset) ? undefined : Number(offset);
+  } catch {
+    return undefined;
+  }
+};
+
+/** Checks `maxItems` before the first page is requested. */
+const paginationLimit = (options: PaginationOptions = {}): number => {
+  const { maxItems } = options;
+  if (maxItems === undefined) return Number.POSITIVE_INFINITY;
+  if (typeof maxItems !== 'number' || !Number.isInteger(maxItems) || maxItems < 1) {
+    throw new PubgConfigurationError(
+      'maxItems must be a positive integer',
+      'maxItems',
+      'positive integer',
+      maxItems
+    );
+  }
+  return maxItems;
+};
+
+/**
+ * Yields the records of consecutive pages until the endpoint runs out or `maxItems` is reached.
+ *
+ * @remarks
+ * The next page is taken from the `page[offset]` of `links.next` when the response has one, and
+ * otherwise from the current offset plus the records received while pages come back full. Only
+ * the offset of `links.next` is used: every page is requested from the source's own Endpoint
+ * Target, so a next link can never send the API key to another host. A page that is empty, short
+ * of `pageSize`, or does not advance the offset ends the iteration.
+ *
+ * @internal
+ */
+export async function* paginate<TPage extends { links?: { next?: string } }, TRecord>(
+  source: PageSource<TPage, TRecord>,
+  options: PaginationOptions = {}
+): AsyncGenerator<TRecord> {
+  let remaining = paginationLimit(options);
+  let offset = source.offset;
+
+  while (remaining > 0) {
+    throwIfAborted(options.signal);
+    const page = await source.fetchPage(offset);
+    const records = source.records(page);
+
+    for (const record of records.slice(0, remaining)) {
+      throwIfAborted(options.signal);
+      yield record;
+    }
+    remaining -= records.length;
+
+    const start = offset ?? 0;
+    const full = source.pageSize !== undefined && records.length >= source.pageSize;
+    const next = nextLinkOffset(page.links?.next) ?? (full ? start + records.length : undefined);
+    if (records.length === 0 || next === undefined || next <= start) return;
+    offset = next;
+  }
+}
@@ -0,0 +1,229 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { PubgConfigurationError } from '../errors';
+import type { RecordReplayConfig } from '../types/api';
+import { errorMessage, type Logger } from '../utils/logger';
+import { parseTelemetryStream } from '../utils/telemetry-stream';
+
+type RequestFunction = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+type ExternalGetFunction = <T>(
+  url: string,
+  config?: AxiosRequestConfig
+) => Promise<AxiosResponse<T>>;
+
+/** Network adapters wrapped for record or replay. */
+export interface RecordReplayAdapters {
+  request: RequestFunction;
+  externalGet: ExternalGetFunction;
+}
+
+/** One recorded response, stored as pretty-printed JSON in the fixture directory. */
+interface RecordedFixture {
+  request: { method: string; url: string };
+  response: { status: number; headers: Record<string, string>; data: unknown };
+}
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADERS = new Set(['authorization', 'set-cookie', 'cookie']);
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+
+/** Replaces query-string values so signed telemetry URLs are never written in readable form. */
+const redactUrl = (url: string): string => {
+  const [path, query] = url.split('?', 2);
+  if (query === undefined) return path;
+
+  const redactedQuery = query
+    .split('&')
+    .map((pair) => `${pair.split('=', 1)[0]}=${REDACTED}`)
+    .join('&');
+  return `${path}?${redactedQuery}`;
+};
+
+/** Unread response streams, such as streamed error bodies, are not recorded. */
+const isResponseStream = (data: unknown): boolean =>
+  typeof data === 'object' && data !== null && Symbol.asyncIterator in data;
+
+const fixtureName = (key: string, url: string): string => {
+  const slug = url
+    .split('?', 1)[0]
+    .replace(/^[a-z]+:\/\//i, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 80);
+  const digest = createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return `${slug || 'root'}-${digest}.json`;
+};
+
+/** Fixture writes started by this process, keeping temporary file names unique. */
+let writes = 0;
+
+const fixtureKey = (method: string, url: string, params: unknown): string =>
+  `${method.toUpperCase()} ${url} ${JSON.stringify(params ?? {})}`;
+
+const recordedHeaders = (headers: unknown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(asRecord(headers))
+      .filter(
+        ([name, value]) =>
+          !SENSITIVE_HEADERS.has(name.toLowerCase()) &&
+          ['string', 'number', 'boolean'].includes(typeof value)
+      )
+      .map(([name, value]) => [name.toLowerCase(), String(value)])
+  );
+
+/**
+ * Recorded headers without `x-ratelimit-*`, which describe the recording session's quota and
+ * would otherwise throttle replay to the recorded limit.
+ */
+const replayedHeaders = (headers: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !name.toLowerCase().startsWith('x-ratelimit-'))
+  );
+
+/**
+ * Wraps a client's network adapters so PUBG API responses and Match Telemetry are recorded to, or
+ * replayed from, a fixture directory.
+ *
+ * @remarks
+ * Each Endpoint Target or telemetry URL maps to one JSON fixture named after its path and a hash
+ * of the full request. Request headers are never written, sensitive response headers are dropped,
+ * query strings are redacted in the readable URL, and any configured API key found in a response
+ * is replaced with `[REDACTED]`. Streamed Match Telemetry is buffered and recorded as parsed
+ * events. Error responses are recorded and replayed as failed requests; network failures are not
+ * recorded. Replay never touches the network, drops recorded `x-ratelimit-*` headers so it is
+ * never throttled, and rejects unrecorded requests with a `PubgConfigurationError`.
+ *
+ * @internal
+ */
+export const createRecordReplayAdapters = (
+  config: RecordReplayConfig,
+  apiKeys: readonly string[],
+  live: RecordReplayAdapters,
+  logger: Logger
+): RecordReplayAdapters => {
+  const redactKeys = (json: string): string =>
+    apiKeys.reduce((redacted, key) => redacted.split(key).join(REDACTED), json);
+
+  /** Writes a fixture; failures are logged so they never replace the live response or error. */
+  const save = async (key: string, url: string, response: unknown): Promise<void> => {
+    const responseRecord = asRecord(response);
+    const fixture: RecordedFixture = {
+      request: { method: key.split(' ', 1)[0], url: redactUrl(url) },
+      response: {
+        status: typeof responseRecord.status === 'number' ? responseRecord.status : 0,
+        headers: recordedHeaders(responseRecord.headers),
+        data: isResponseStream(responseRecord.data) ? null : responseRecord.data,
+      },
+    };
+    const path = join(config.directory, fixtureName(key, url));
+    const temporaryPath = `${path}.${process.pid}.${writes++}.tmp`;
+
+    try {
+      await mkdir(config.directory, { recursive: true });
+      await writeFile(temporaryPath, `${redactKeys(JSON.stringify(fixture, null, 2))}\n`, 'utf8');
+      await rename(temporaryPath, path);
+    } catch (error) {
+      logger.client.warn('Failed to record fixture', {
+        method: fixture.request.method,
+        endpoint: fixture.request.url,
+        path,
+        error: errorMessage(error),
+      });
+      return;
+    }
+    logger.client('Recorded fixture', {
+      method: fixture.request.method,
+      endpoint: fixture.request.url,
+      path,
+    });
+  };
+
+  const record = async <T>(
+    key: string,
+    url: string,
+    perform: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> => {
+    let response: AxiosResponse<T>;
+    try {
+      response = await perform();
+    } catch (error) {
+      const errorResponse = asRecord(error).response;
+      if (errorResponse !== undefined) await save(key, url, errorResponse);
+      throw error;
+    }
+    await save(key, url, response);
+    return response;
+  };
+
+  const replay = async <T>(
+    key: string,
+    url: string,
+    requestConfig: AxiosRequestConfig
+  ): Promise<AxiosResponse<T>> => {
+    const path = join(config.directory, fixtureName(key, url));
+    let fixture: RecordedFixture;
+    try {
+      fixture = JSON.parse(await readFile(path, 'utf8')) as RecordedFixture;
+    } catch {
+      throw new PubgConfigurationError(
+        `No recorded fixture for ${key.split(' ', 1)[0]} ${redactUrl(url)}; record it with recordReplay mode 'record'`,
+        'recordReplay.directory',
+        'recorded fixture',
+        path
+      );
+    }
+
+    const response = {
+      config: requestConfig,
+      data: fixture.response.data as T,
+      headers: replayedHeaders(fixture.response.headers),
+      status: fixture.response.status,
+      statusText: String(fixture.response.status),
+    } as AxiosResponse<T>;
+
+    if (response.status >= 200 && response.status < 300) return response;
+    throw Object.assign(new Error(`Request failed with status code ${response.status}`), {
+      config: requestConfig,
+      response,
+    });
+  };
+
+  if (config.mode === 'record') {
+    return {
+      request: (requestConfig) => {
+        const url = requestConfig.url ?? '';
+        const key = fixtureKey(requestConfig.method ?? 'get', url, requestConfig.params);
+        return record(key, url, () => live.request(requestConfig));
+      },
+      externalGet: <T>(url: string, requestConfig?: AxiosRequestConfig) =>
+        record<T>(fixtureKey('get', url, requestConfig?.params), url, async () => {
+          const response = await live.externalGet<T>(url, requestConfig);
+          if (requestConfig?.responseType !== 'stream') return response;
+
+          // Streamed telemetry is recorded as parsed events, which replay streams back as-is.
+          const events: unknown[] = [];
+          for await (const event of parseTelemetryStream(
+            response.data,
+            requestConfig.signal as AbortSignal | undefined
+          )) {
+            events.push(event);
+          }
+          return { ...response, data: events as T };
+        }),
+    };
+  }
+
+  return {
+    request: (requestConfig) => {
+      const url = requestConfig.url ?? '';
+      const key = fixtureKey(requestConfig.method ?? 'get', url, requestConfig.params);
+      return replay(key, url, requestConfig);
+    },
+    externalGet: <T>(url: string, requestConfig: AxiosRequestConfig = {}) =>
+      replay<T>(fixtureKey('get', url, requestConfig.params), url, requestConfig),
+  };
+};
@@ -0,0 +1,125 @@
+import { PubgCancellationError } from '../errors';
+import type { RequestPriority } from '../types/api';
+import type { RequestSchedulerHealthSnapshot, SchedulerLaneHealthSnapshot } from './client-health';
+
+/** Lanes in the order a freed slot is offered to them. */
+const LANES: readonly RequestPriority[] = ['interactive', 'background'];
+
+interface QueuedRequest {
+  readonly enqueuedAt: number;
+  start(): void;
+}
+
+interface LaneStatistics {
+  readonly queue: QueuedRequest[];
+  started: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Client-local limit on in-flight requests with strict priority lanes.
+ *
+ * @remarks
+ * A freed slot always goes to the oldest queued `interactive` request before any `background`
+ * request, so a bulk backfill cannot delay interactive lookups by more than the requests already
+ * in flight. Background requests wait for as long as interactive ones keep the client busy.
+ * Without a limit every request starts immediately and only the wait statistics are kept.
+ *
+ * @internal
+ */
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly lanes: Record<RequestPriority, LaneStatistics> = {
+    interactive: { queue: [], started: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    background: { queue: [], started: 0, totalWaitMs: 0, maxWaitMs: 0 },
+  };
+  private inFlight = 0;
+
+  constructor(
+    maxConcurrent?: number,
+    private readonly now: () => number = Date.now
+  ) {
+    this.maxConcurrent = maxConcurrent ?? Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * Waits for a free slot in the given lane and claims it.
+   *
+   * @param signal - Aborts the wait with a `PubgCancellationError` and leaves the queue.
+   * @returns A function that releases the slot; calling it more than once has no effect.
+   */
+  acquire(priority: RequestPriority = 'interactive', signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(new PubgCancellationError());
+
+    const enqueuedAt = this.now();
+    if (this.inFlight < this.maxConcurrent && this.queued() === 0) {
+      return Promise.resolve(this.start(priority, enqueuedAt));
+    }
+
+    return new Promise((resolve, reject) => {
+      const queue = this.lanes[priority].queue;
+      const entry: QueuedRequest = {
+        enqueuedAt,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.start(priority, enqueuedAt));
+        },
+      };
+      const onAbort = () => {
+        queue.splice(queue.indexOf(entry), 1);
+        reject(new PubgCancellationError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(entry);
+    });
+  }
+
+  getHealth(): RequestSchedulerHealthSnapshot {
+    const lane = (priority: RequestPriority): SchedulerLaneHealthSnapshot => {
+      const { queue, started, totalWaitMs, maxWaitMs } = this.lanes[priority];
+      return {
+        queued: queue.length,
+        started,
+        averageWaitMs: started > 0 ? totalWaitMs / started : 0,
+        maxWaitMs,
+      };
+    };
+
+    return {
+      maxConcurrent: Number.isFinite(this.maxConcurrent) ? this.maxConcurrent : null,
+      inFlight: this.inFlight,
+      lanes: { interactive: lane('interactive'), background: lane('background') },
+    };
+  }
+
+  private queued(): number {
+    return LANES.reduce((total, priority) => total + this.lanes[priority].queue.length, 0);
+  }
+
+  private start(priority: RequestPriority, enqueuedAt: number): () => void {
+    const lane = this.lanes[priority];
+    const waitMs = Math.max(0, this.now() - enqueuedAt);
+    lane.started++;
+    lane.totalWaitMs += waitMs;
+    lane.maxWaitMs = Math.max(lane.maxWaitMs, waitMs);
+    this.inFlight++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.drain();
+    };
+  }
+
+  private drain(): void {
+    while (this.inFlight < this.maxConcurrent) {
+      const lane = LANES.find((priority) => this.lanes[priority].queue.length > 0);
+      if (!lane) return;
+      this.lanes[lane].queue.shift()!.start();
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import type { CacheEndpointKind } from '../types/api';
+import type {
+  LeaderboardAttributes,
+  LeaderboardPlayerAttributes,
+  LeaderboardPlayerStats,
+  LeaderboardStats,
+} from '../types/leaderboard';
+import type {
+  AssetAttributes,
+  MatchAttributes,
+  ParticipantAttributes,
+  ParticipantStats,
+  RosterAttributes,
+} from '../types/match';
+import type { GameModeStats, PlayerAttributes } from '../types/player';
+import type { SeasonAttributes } from '../types/season';
+
+/** One place where a response differs from its schema. */
+export interface SchemaIssue {
+  /** Location of the value, such as `$.data[0].attributes.name`. */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+type Schema = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+/** Object schema with one entry per field of `T`, so a new field in `src/types` needs a schema. */
+type Shape<T> = { readonly [K in keyof T]-?: Schema };
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const primitive =
+  (expected: 'string' | 'number' | 'boolean'): Schema =>
+  (value, path, issues) => {
+    if (typeof value !== expected) issues.push({ path, expected, received: describe(value) });
+  };
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+/** Accepts any value, for fields the SDK types as `any`. */
+const anything: Schema = () => undefined;
+
+const literal =
+  (expected: string): Schema =>
+  (value, path, issues) => {
+    if (value !== expected) {
+      issues.push({
+        path,
+        expected: `'${expected}'`,
+        received: typeof value === 'string' ? `'${value}'` : describe(value),
+      });
+    }
+  };
+
+const optional =
+  (schema: Schema): Schema =>
+  (value, path, issues) => {
+    if (value !== undefined) schema(value, path, issues);
+  };
+
+const arrayOf =
+  (schema: Schema): Schema =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return;
+    }
+    value.forEach((element, index) => {
+      schema(element, `${path}[${index}]`, issues);
+    });
+  };
+
+/** Fields not named in `shape` are allowed, so additions upstream are not drift. */
+const object =
+  (shape: Readonly<Record<string, Schema>>): Schema =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+    for (const [field, schema] of Object.entries(shape)) {
+      schema(value[field], `${path}.${field}`, issues);
+    }
+  };
+
+const recordOf =
+  (schema: Schema): Schema =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+    for (const [field, entry] of Object.entries(value)) schema(entry, `${path}.${field}`, issues);
+  };
+
+/** A single resource, or an array of them, for endpoints whose `data` cardinality varies. */
+const oneOrMany =
+  (schema: Schema): Schema =>
+  (value, path, issues) =>
+    Array.isArray(value) ? arrayOf(schema)(value, path, issues) : schema(value, path, issues);
+
+/** Statistics blocks: fields are type-checked where present, as the API omits some per mode. */
+const statistics = <T>(shape: Shape<T>): Schema =>
+  object(
+    Object.fromEntries(
+      Object.entries<Schema>(shape).map(([field, schema]) => [field, optional(schema)])
+    )
+  );
+
+const resourceIdentifier = object({ type: string, id: string });
+
+const relationshipData: Schema = (value, path, issues) => {
+  if (value === null) return;
+  oneOrMany(resourceIdentifier)(value, path, issues);
+};
+
+const relationships = optional(recordOf(object({ data: optional(relationshipData) })));
+
+const resource = (
+  type: string,
+  attributes: Schema,
+  options: { withoutId?: boolean } = {}
+): Schema =>
+  object({
+    type: literal(type),
+    id: options.withoutId ? optional(string) : string,
+    attributes,
+    relationships,
+  });
+
+const genericResource = object({ type: string, id: string, relationships });
+
+const gameModeStats = statistics<GameModeStats>({
+  assists: number,
+  boosts: number,
+  dBNOs: number,
+  dailyKills: number,
+  damageDealt: number,
+  days: number,
+  dailyWins: number,
+  headshotKills: number,
+  heals: number,
+  killPoints: number,
+  kills: number,
+  longestKill: number,
+  longestTimeSurvived: number,
+  losses: number,
+  maxKillStreaks: number,
+  mostSurvivalTime: number,
+  rankPoints: number,
+  rankPointsTitle: string,
+  revives: number,
+  rideDistance: number,
+  roadKills: number,
+  roundMostKills: number,
+  roundsPlayed: number,
+  suicides: number,
+  swimDistance: number,
+  teamKills: number,
+  timeSurvived: number,
+  top10s: number,
+  vehicleDestroys: number,
+  walkDistance: number,
+  weaponsAcquired: number,
+  weeklyKills: number,
+  weeklyWins: number,
+  winPoints: number,
+  wins: number,
+});
+
+const participantStats = statistics<ParticipantStats>({
+  DBNOs: number,
+  assists: number,
+  boosts: number,
+  damageDealt: number,
+  deathType: string,
+  headshotKills: number,
+  heals: number,
+  killPlace: number,
+  killPoints: number,
+  killPointsDelta: number,
+  killStreaks: number,
+  kills: number,
+  lastKillPoints: number,
+  lastWinPoints: number,
+  longestKill: number,
+  mostDamage: number,
+  name: string,
+  playerId: string,
+  rankPoints: number,
+  revives: number,
+  rideDistance: number,
+  roadKills: number,
+  swimDistance: number,
+  teamKills: number,
+  timeSurvived: number,
+  vehicleDestroys: number,
+  walkDistance: number,
+  weaponsAcquired: number,
+  winPlace: number,
+  winPoints: number,
+  winPointsDelta: number,
+});
+
+const leaderboardStats = statistics<LeaderboardStats>({
+  playerId: string,
+  playerName: string,
+  rank: number,
+  tier: string,
+  subTier: string,
+  rankPoints: number,
+  kills: number,
+  deaths: number,
+  assists: number,
+  wins: number,
+  top10s: number,
+  kda: number,
+  averageDamage: number,
+  averageRank: number,
+  gamesPlayed: number,
+});
+
+const leaderboardPlayerStats = statistics<LeaderboardPlayerStats>({
+  rankPoints: number,
+  wins: number,
+  games: number,
+  kills: number,
+  winRatio: number,
+  averageDamage: number,
+  killDeathRatio: number,
+  kda: number,
+  averageRank: number,
+  tier: object({ tier: string, subTier: string }),
+});
+
+const playerAttributes: Shape<PlayerAttributes> = {
+  createdAt: string,
+  name: string,
+  patchVersion: string,
+  shardId: string,
+  stats: anything,
+  titleId: string,
+  updatedAt: string,
+};
+
+const matchAttributes: Shape<MatchAttributes> = {
+  createdAt: string,
+  duration: number,
+  gameMode: string,
+  mapName: string,
+  isCustomMatch: boolean,
+  patchVersion: string,
+  seasonState: string,
+  shardId: string,
+  stats: anything,
+  tags: anything,
+  titleId: string,
+  matchType: string,
+};
+
+const rosterAttributes: Shape<RosterAttributes> = {
+  shardId: string,
+  stats: object({ rank: number, teamId: number }),
+  won: string,
+};
+
+const participantAttributes: Shape<ParticipantAttributes> = {
+  actor: string,
+  shardId: string,
+  stats: participantStats,
+};
+
+const assetAttributes: Shape<AssetAttributes> = {
+  URL: string,
+  createdAt: string,
+  description: string,
+  name: string,
+};
+
+const seasonAttributes: Shape<SeasonAttributes> = {
+  isCurrentSeason: boolean,
+  isOffseason: boolean,
+};
+
+const leaderboardAttributes: Shape<LeaderboardAttributes> = {
+  shardId: string,
+  gameMode: string,
+  // Current leaderboards list players as included resources instead of ranked stats.
+  rankedStats: optional(arrayOf(leaderboardStats)),
+};
+
+const leaderboardPlayerAttributes: Shape<LeaderboardPlayerAttributes> = {
+  name: string,
+  rank: number,
+  stats: leaderboardPlayerStats,
+};
+
+const player = resource('player', object(playerAttributes));
+const match = resource('match', object(matchAttributes));
+const season = resource('season', object(seasonAttributes));
+const leaderboard = resource('leaderboard', object(leaderboardAttributes));
+const leaderboardPlayer = resource('player', object(leaderboardPlayerAttributes));
+const playerSeason = resource(
+  'playerSeason',
+  object({ bestRankPoint: optional(number), gameModeStats: recordOf(gameModeStats) }),
+  { withoutId: true }
+);
+
+const includedBy: Readonly<Record<string, Schema>> = {
+  roster: resource('roster', object(rosterAttributes)),
+  participant: resource('participant', object(participantAttributes)),
+  asset: resource('asset', object(assetAttributes)),
+};
+
+/** Included resources of a known type are checked against it; others only as resources. */
+const includedResource: Schema = (value, path, issues) => {
+  const schema = isObject(value) ? includedBy[value.type as string] : undefined;
+  (schema ?? genericResource)(value, path, issues);
+};
+
+/**
+ * Response schemas by endpoint kind, derived from the response types in `src/types`.
+ *
+ * @remarks
+ * Schemas check the JSON:API envelope and the attributes the SDK types declare; fields the types
+ * do not declare are ignored. Endpoints that return a single resource for some routes, such as
+ * single-player season stats and leaderboards, accept a resource or an array of them. Samples are
+ * only checked as JSON:API resources.
+ */
+const RESPONSE_SCHEMAS: Readonly<Record<CacheEndpointKind, Schema>> = {
+  players: object({ data: arrayOf(player) }),
+  matches: object({ data: match, included: arrayOf(includedResource) }),
+  matchLists: object({ data: arrayOf(match) }),
+  seasons: object({ data: arrayOf(season) }),
+  leaderboards: object({
+    data: oneOrMany(leaderboard),
+    included: optional(arrayOf(leaderboardPlayer)),
+  }),
+  samples: object({ data: oneOrMany(genericResource) }),
+  seasonStats: object({ data: oneOrMany(playerSeason) }),
+  lifetimeStats: object({ data: oneOrMany(playerSeason) }),
+};
+
+/**
+ * Checks a PUBG API response body against the schema for its endpoint kind.
+ *
+ * @returns The schema issues in document order; empty when the response matches.
+ * @internal
+ */
+export const validateResponseSchema = (kind: CacheEndpointKind, body: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  RESPONSE_SCHEMAS[kind](body, '$', issues);
+  return issues;
+};
@@ -1,8 +1,15 @@
-import type { LeaderboardQuery } from '../../types/api';
+import type { LeaderboardQuery, PaginationOptions, RequestOptions } from '../../types/api';
 import type { Shard } from '../../types/common';
-import type { LeaderboardResponse } from '../../types/leaderboard';
+import type { LeaderboardPlayer, LeaderboardResponse } from '../../types/leaderboard';
 import { endpointTarget } from '../endpoint-query';
-import type { EndpointTransport } from '../endpoint-transport';
+import {
+  type CacheRequestConfig,
+  type EndpointTransport,
+  endpointRequestConfig,
+  operationDeadline,
+} from '../endpoint-transport';
+import { InputValidator } from '../input-validation';
+import { paginate } from '../pagination';
 
 /**
  * Service for interacting with the Leaderboards endpoint of the PUBG API.
@@ -10,17 +17,22 @@ import type { EndpointTransport } from '../endpoint-transport';
  * @remarks
  * This service provides methods for retrieving leaderboard data.
  * It is accessible via the `pubg.leaderboards` property.
+ *
+ * With `inputValidation` enabled, season IDs and game modes are checked before the request is sent
+ * and invalid input rejects with `PubgValidationError`.
  */
 export class Leaderboards {
   constructor(
     private readonly transport: EndpointTransport,
-    private readonly shard: Shard
+    private readonly shard: Shard,
+    private readonly input: InputValidator = InputValidator.disabled
   ) {}
 
   /**
    * Get the leaderboard for a specific season and game mode.
    *
    * @param query - The query parameters to specify the season, game mode, and pagination.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the leaderboard data.
    * @example
    * ```ts
@@ -30,12 +42,70 @@ export class Leaderboards {
    * });
    * ```
    */
-  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResponse> {
+  async getLeaderboard(
+    query: LeaderboardQuery,
+    options?: RequestOptions
+  ): Promise<LeaderboardResponse> {
+    return this.fetchLeaderboard(query, endpointRequestConfig('leaderboards', options));
+  }
+
+  /**
+   * Iterate over the ranked players of every page of a leaderboard.
+   *
+   * @remarks
+   * Players are yielded from the `included` resources of each page in response order. Pages are
+   * requested one at a time as the loop consumes them, following `links.next` or, when the
+   * response has none, advancing `offset` by `pageSize` while pages come back full. Every page
+   * goes through the client's rate limiting and scheduling like
+   * {@link Leaderboards.getLeaderboard}. Breaking out of the loop stops further requests.
+   *
+   * @param query - The season and game mode, and the size and offset of the first page.
+   * @param options - Optional per-call request options. The signal and deadline cover the whole
+   * iteration, and `maxItems` caps the number of players yielded.
+   * @returns An async iterator of leaderboard players.
+   * @example
+   * ```ts
+   * for await (const player of pubg.leaderboards.iterateLeaderboard(
+   *   { seasonId: 'division.bro.official.pc-2018-01', gameMode: 'squad-fpp', pageSize: 100 },
+   *   { maxItems: 500 }
+   * )) {
+   *   console.log(player.attributes.rank, player.attributes.name);
+   * }
+   * ```
+   */
+  async *iterateLeaderboard(
+    query: LeaderboardQuery,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<LeaderboardPlayer> {
+    const deadline = operationDeadline(options);
+
+    yield* paginate<LeaderboardResponse, LeaderboardPlayer>(
+      {
+        pageSize: query.pageSize,
+        offset: query.offset,
+        fetchPage: (offset) =>
+          this.fetchLeaderboard(
+            { ...query, offset },
+            endpointRequestConfig('leaderboards', options, deadline)
+          ),
+        records: (page) => (page.included ?? []).filter((entry) => entry.type === 'player'),
+      },
+      options
+    );
+  }
+
+  private async fetchLeaderboard(
+    query: LeaderboardQuery,
+    config: CacheRequestConfig
+  ): Promise<LeaderboardResponse> {
+    this.input.seasonId(query.seasonId);
+    this.input.urlParameter(query.gameMode, 'gameMode');
+
     const url = endpointTarget(this.shard, ['leaderboards', query.seasonId, query.gameMode], {
       'page[limit]': query.pageSize,
       'page[offset]': query.offset,
     });
 
-    return this.transport.get<LeaderboardResponse>(url);
+    return this.transport.get<LeaderboardResponse>(url, config);
   }
 }
@@ -1,8 +1,26 @@
 import { PubgNotFoundError, PubgValidationError } from '../../errors';
-import type { Asset, MatchesResponse, MatchQuery, MatchResponse, TelemetryData } from '../../types';
+import type {
+  Asset,
+  Match,
+  MatchesResponse,
+  MatchQuery,
+  MatchRequestOptions,
+  MatchResponse,
+  PaginationOptions,
+  RequestOptions,
+  TelemetryData,
+} from '../../types';
 import type { Shard } from '../../types/common';
+import { type HydratedMatch, hydrateMatch } from '../../utils/match-graph';
 import { endpointTarget } from '../endpoint-query';
-import type { MatchTransport } from '../endpoint-transport';
+import {
+  type CacheRequestConfig,
+  endpointRequestConfig,
+  type MatchTransport,
+  operationDeadline,
+} from '../endpoint-transport';
+import { InputValidator } from '../input-validation';
+import { paginate } from '../pagination';
 
 /**
  * Service for interacting with the Matches endpoint of the PUBG API.
@@ -10,31 +28,62 @@ import type { MatchTransport } from '../endpoint-transport';
  * @remarks
  * This service provides methods for retrieving match data.
  * It is accessible via the `pubg.matches` property.
+ *
+ * With `inputValidation` enabled, match and account IDs are checked before the request is sent
+ * and invalid input rejects with `PubgValidationError`.
  */
 export class Matches {
   constructor(
     private readonly transport: MatchTransport,
-    private readonly shard: Shard
+    private readonly shard: Shard,
+    private readonly input: InputValidator = InputValidator.disabled
   ) {}
 
   /**
    * Get a single match by its ID.
    *
+   * @remarks
+   * With `hydrate: true` the match resolves as a {@link HydratedMatch}: rosters ordered by rank
+   * with their participants, the telemetry asset, and lookups by account ID, name, and team ID.
+   *
    * @param matchId - The ID of the match to retrieve.
-   * @returns A promise that resolves with the match data.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
+   * @returns A promise that resolves with the match data, or the hydrated match.
    * @example
    * ```ts
    * const match = await pubg.matches.getMatch('01234567-89ab-cdef-0123-456789abcdef');
+   * const hydrated = await pubg.matches.getMatch('01234567-89ab-cdef-0123-456789abcdef', {
+   *   hydrate: true,
+   * });
    * ```
    */
-  async getMatch(matchId: string): Promise<MatchResponse> {
-    return this.transport.get<MatchResponse>(endpointTarget(this.shard, ['matches', matchId]));
+  getMatch(
+    matchId: string,
+    options: MatchRequestOptions & { hydrate: true }
+  ): Promise<HydratedMatch>;
+  getMatch(
+    matchId: string,
+    options?: MatchRequestOptions & { hydrate?: false }
+  ): Promise<MatchResponse>;
+  getMatch(matchId: string, options?: MatchRequestOptions): Promise<MatchResponse | HydratedMatch>;
+  async getMatch(
+    matchId: string,
+    options?: MatchRequestOptions
+  ): Promise<MatchResponse | HydratedMatch> {
+    const match = await this.fetchMatch(matchId, endpointRequestConfig('matches', options));
+    return options?.hydrate ? hydrateMatch(match) : match;
   }
 
   /**
    * Get the telemetry data for a match.
    *
+   * @remarks
+   * When the client is configured with a `telemetryCache`, telemetry is downloaded once per match
+   * and served from the cache afterwards, by this method and by {@link Matches.streamTelemetry}.
+   *
    * @param matchId - The ID of the match whose telemetry to retrieve.
+   * @param options - Optional per-call request options. The signal and deadline also cover the
+   * telemetry download.
    * @returns A promise that resolves with the match telemetry events.
    * @throws {@link PubgNotFoundError} When the match has no telemetry asset.
    * @throws {@link PubgValidationError} When the match has multiple or invalid telemetry assets.
@@ -45,16 +94,60 @@ export class Matches {
    * );
    * ```
    */
-  async getTelemetry(matchId: string): Promise<TelemetryData> {
-    const match = await this.getMatch(matchId);
+  async getTelemetry(matchId: string, options?: RequestOptions): Promise<TelemetryData> {
+    const config = endpointRequestConfig('matches', options);
+    const match = await this.fetchMatch(matchId, config);
     const telemetryUrl = this.getTelemetryUrl(matchId, match);
-    return this.transport.fetchTelemetry<TelemetryData>(telemetryUrl);
+    return this.transport.fetchTelemetry<TelemetryData>(telemetryUrl, {
+      matchId,
+      signal: options?.signal,
+      priority: options?.priority,
+      deadline: config.deadline,
+    });
+  }
+
+  /**
+   * Stream the telemetry events for a match as they download.
+   *
+   * @remarks
+   * Unlike {@link Matches.getTelemetry}, events are parsed incrementally and gzip-compressed
+   * telemetry is decompressed on the fly, so memory use stays flat regardless of match length.
+   * Breaking out of the loop stops the download.
+   *
+   * @param matchId - The ID of the match whose telemetry to stream.
+   * @param options - Optional per-call request options. The signal and deadline also cover the
+   * download.
+   * @returns An async iterator of match telemetry events.
+   * @throws {@link PubgNotFoundError} When the match has no telemetry asset.
+   * @throws {@link PubgValidationError} When the match has invalid telemetry assets, or the
+   * telemetry is not a JSON array of events.
+   * @example
+   * ```ts
+   * for await (const event of pubg.matches.streamTelemetry('01234567-89ab-cdef-0123-456789abcdef')) {
+   *   if (event._T === 'LogPlayerKillV2') kills++;
+   * }
+   * ```
+   */
+  async *streamTelemetry(
+    matchId: string,
+    options?: RequestOptions
+  ): AsyncGenerator<TelemetryData[number]> {
+    const config = endpointRequestConfig('matches', options);
+    const match = await this.fetchMatch(matchId, config);
+    const telemetryUrl = this.getTelemetryUrl(matchId, match);
+    yield* this.transport.streamTelemetry<TelemetryData[number]>(telemetryUrl, {
+      matchId,
+      signal: options?.signal,
+      priority: options?.priority,
+      deadline: config.deadline,
+    });
   }
 
   /**
    * Get a list of matches, with optional filtering and pagination.
    *
    * @param query - The query parameters to filter and paginate matches.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the match data.
    * @example
    * ```ts
@@ -67,7 +160,61 @@ export class Matches {
    * });
    * ```
    */
-  async getMatches(query: MatchQuery = {}): Promise<MatchesResponse> {
+  async getMatches(query: MatchQuery = {}, options?: RequestOptions): Promise<MatchesResponse> {
+    return this.fetchMatches(query, endpointRequestConfig('matchLists', options));
+  }
+
+  /**
+   * Iterate over the matches of every page of a match list.
+   *
+   * @remarks
+   * Pages are requested one at a time as the loop consumes them, following `links.next` or, when
+   * the response has none, advancing `offset` by `pageSize` while pages come back full. Every
+   * page goes through the client's rate limiting and scheduling like {@link Matches.getMatches}.
+   * Breaking out of the loop stops further requests.
+   *
+   * @param query - The query parameters to filter matches, and the size and offset of the first
+   * page.
+   * @param options - Optional per-call request options. The signal and deadline cover the whole
+   * iteration, and `maxItems` caps the number of matches yielded.
+   * @returns An async iterator of matches.
+   * @example
+   * ```ts
+   * for await (const match of pubg.matches.iterateMatches(
+   *   { filter: { playerIds: ['account.0000a000000000000000000000000000'] }, pageSize: 10 },
+   *   { maxItems: 50 }
+   * )) {
+   *   console.log(match.id, match.attributes.mapName);
+   * }
+   * ```
+   */
+  async *iterateMatches(
+    query: MatchQuery = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Match> {
+    const deadline = operationDeadline(options);
+
+    yield* paginate<MatchesResponse, Match>(
+      {
+        pageSize: query.pageSize,
+        offset: query.offset,
+        fetchPage: (offset) =>
+          this.fetchMatches(
+            { ...query, offset },
+            endpointRequestConfig('matchLists', options, deadline)
+          ),
+        records: (page) => page.data,
+      },
+      options
+    );
+  }
+
+  private async fetchMatches(
+    query: MatchQuery,
+    config: CacheRequestConfig
+  ): Promise<MatchesResponse> {
+    this.input.accountIds(query.filter?.playerIds, 'filter.playerIds');
+
     return this.transport.get<MatchesResponse>(
       endpointTarget(this.shard, ['matches'], {
         'page[limit]': query.pageSize,
@@ -77,7 +224,17 @@ export class Matches {
         'filter[createdAt-end]': query.filter?.createdAt?.end,
         'filter[playerIds]': query.filter?.playerIds,
         'filter[gameMode]': query.filter?.gameMode,
-      })
+      }),
+      config
+    );
+  }
+
+  private async fetchMatch(matchId: string, config: CacheRequestConfig): Promise<MatchResponse> {
+    this.input.matchId(matchId);
+
+    return this.transport.get<MatchResponse>(
+      endpointTarget(this.shard, ['matches', matchId]),
+      config
     );
   }
 
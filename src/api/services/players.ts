@@ -1,17 +1,45 @@
+import { PubgConfigurationError, PubgNotFoundError } from '../../errors';
 import type {
+  ApiResponse,
+  BulkApiResponse,
+  BulkRequestOptions,
+  CacheEndpointKind,
+  MatchResponse,
+  Player,
   PlayerLifetimeStatsBatchQuery,
   PlayerQuery,
+  PlayerSeasonStats,
   PlayerSeasonStatsBatchQuery,
   PlayerSeasonStatsResponse,
   PlayersResponse,
+  RecentMatchesOptions,
+  RequestOptions,
   SeasonStatsQuery,
 } from '../../types';
 import type { Shard } from '../../types/common';
+import { chunk, mapConcurrent, mapConcurrentStream } from '../../utils/concurrency';
+import { hydrateMatch, type RecentMatch } from '../../utils/match-graph';
 import { endpointTarget } from '../endpoint-query';
-import type { EndpointTransport } from '../endpoint-transport';
+import {
+  type CacheRequestConfig,
+  type EndpointTransport,
+  endpointRequestConfig,
+  operationDeadline,
+} from '../endpoint-transport';
+import { InputValidator } from '../input-validation';
 
 const MAX_PLAYER_STATS_BATCH_SIZE = 10;
 
+/** Names or IDs the players endpoint accepts in one filter. */
+const MAX_PLAYER_FILTER_SIZE = 10;
+
+const DEFAULT_BULK_CONCURRENCY = 2;
+
+const DEFAULT_RECENT_MATCHES_LIMIT = 10;
+
+/** Account ID a batch stats resource belongs to. */
+const statsPlayerId = (stats: PlayerSeasonStats): string => stats.relationships.player.data.id;
+
 const assertValidPlayerIdBatch = (playerIds: string[]): void => {
   if (playerIds.length === 0 || playerIds.length > MAX_PLAYER_STATS_BATCH_SIZE) {
     throw new RangeError(
@@ -20,23 +48,119 @@ const assertValidPlayerIdBatch = (playerIds: string[]): void => {
   }
 };
 
+/** One API-sized request of a bulk lookup. */
+interface LookupChunk<T> {
+  /** Names or IDs requested by this chunk. */
+  keys: string[];
+  /** Name or ID under which a returned resource answers a requested key. */
+  keyOf(resource: T): string;
+  fetch(config: CacheRequestConfig): Promise<ApiResponse<T>>;
+}
+
+/** Splits unique `keys` into chunks of the largest size the endpoint accepts. */
+const lookupChunks = <T>(
+  keys: readonly string[],
+  size: number,
+  chunkFor: (keys: string[]) => LookupChunk<T>
+): LookupChunk<T>[] => chunk([...new Set(keys)], size).map(chunkFor);
+
+const bulkConcurrency = (options: BulkRequestOptions): number => {
+  const { concurrency = DEFAULT_BULK_CONCURRENCY } = options;
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1) {
+    throw new PubgConfigurationError(
+      'concurrency must be a positive integer',
+      'concurrency',
+      'positive integer',
+      concurrency
+    );
+  }
+  return concurrency;
+};
+
+const recentMatchesLimit = ({ limit = DEFAULT_RECENT_MATCHES_LIMIT }: RecentMatchesOptions) => {
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+    throw new PubgConfigurationError(
+      'limit must be a positive integer',
+      'limit',
+      'positive integer',
+      limit
+    );
+  }
+  return limit;
+};
+
+/** Earliest match creation time accepted by `since`, in epoch milliseconds. */
+const recentMatchesSince = ({ since }: RecentMatchesOptions): number => {
+  if (since === undefined) return Number.NEGATIVE_INFINITY;
+  const time = since instanceof Date ? since.getTime() : Date.parse(since);
+  if (Number.isNaN(time)) {
+    throw new PubgConfigurationError(
+      'since must be a valid Date or ISO 8601 string',
+      'since',
+      'Date or ISO 8601 string',
+      since
+    );
+  }
+  return time;
+};
+
+/**
+ * Runs the chunks of a bulk lookup and merges their resources in chunk order.
+ *
+ * @remarks
+ * A chunk that responds 404 found none of its keys; any other failure rejects the lookup. The
+ * chunks share one deadline.
+ */
+const runLookup = async <T>(
+  kind: CacheEndpointKind,
+  chunks: readonly LookupChunk<T>[],
+  options: BulkRequestOptions
+): Promise<BulkApiResponse<T>> => {
+  const concurrency = bulkConcurrency(options);
+  const deadline = operationDeadline(options);
+
+  const results = await mapConcurrent(chunks, concurrency, async (lookup) => {
+    try {
+      return (await lookup.fetch(endpointRequestConfig(kind, options, deadline))).data;
+    } catch (error) {
+      if (error instanceof PubgNotFoundError) return [];
+      throw error;
+    }
+  });
+
+  const notFound = chunks.flatMap((lookup, index) => {
+    const found = new Set(results[index].map((resource) => lookup.keyOf(resource)));
+    return lookup.keys.filter((key) => !found.has(key));
+  });
+
+  return { data: results.flat(), notFound };
+};
+
 /**
  * Service for interacting with the Players endpoint of the PUBG API.
  *
  * @remarks
  * This service provides methods for retrieving player data, including season and lifetime stats.
  * It is accessible via the `pubg.players` property.
+ *
+ * With `inputValidation` enabled, player names and account and season IDs are checked before the
+ * request is sent, and invalid input rejects with `PubgValidationError`.
+ *
+ * The bulk methods accept any number of names or IDs, split them into requests of the size the
+ * API accepts, and report the ones that matched nothing in `notFound`.
  */
 export class Players {
   constructor(
     private readonly transport: EndpointTransport,
-    private readonly shard: Shard
+    private readonly shard: Shard,
+    private readonly input: InputValidator = InputValidator.disabled
   ) {}
 
   /**
    * Get a list of players by their names or IDs.
    *
    * @param query - The query parameters to filter players.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the player data.
    * @example
    * ```ts
@@ -45,12 +169,52 @@ export class Players {
    * });
    * ```
    */
-  async getPlayers(query: PlayerQuery): Promise<PlayersResponse> {
-    return this.transport.get<PlayersResponse>(
-      endpointTarget(this.shard, ['players'], {
-        'filter[playerNames]': query.playerNames,
-        'filter[playerIds]': query.playerIds,
-      })
+  async getPlayers(query: PlayerQuery, options?: RequestOptions): Promise<PlayersResponse> {
+    this.input.playerNames(query.playerNames);
+    this.input.accountIds(query.playerIds);
+
+    return this.fetchPlayers(query, endpointRequestConfig('players', options));
+  }
+
+  /**
+   * Get any number of players by their names or IDs.
+   *
+   * @remarks
+   * Names and IDs are split into requests of up to 10, which go through the client's rate
+   * limiting and scheduling like any other request. Names and IDs that match no player are
+   * reported in `notFound` instead of rejecting the whole lookup.
+   *
+   * @param query - The player names and IDs to look up; duplicates are requested once.
+   * @param options - Optional per-call request options. `concurrency` bounds the requests in
+   * flight, and the deadline covers the whole lookup.
+   * @returns A promise that resolves with the players found and the names and IDs not found.
+   * @example
+   * ```ts
+   * const { data, notFound } = await pubg.players.getPlayersBulk({ playerNames: lobbyNames });
+   * ```
+   */
+  async getPlayersBulk(
+    query: PlayerQuery,
+    options: BulkRequestOptions = {}
+  ): Promise<BulkApiResponse<Player>> {
+    this.input.playerNames(query.playerNames);
+    this.input.accountIds(query.playerIds);
+
+    return runLookup<Player>(
+      'players',
+      [
+        ...lookupChunks(query.playerNames ?? [], MAX_PLAYER_FILTER_SIZE, (playerNames) => ({
+          keys: playerNames,
+          keyOf: (player: Player) => player.attributes.name,
+          fetch: (config: CacheRequestConfig) => this.fetchPlayers({ playerNames }, config),
+        })),
+        ...lookupChunks(query.playerIds ?? [], MAX_PLAYER_FILTER_SIZE, (playerIds) => ({
+          keys: playerIds,
+          keyOf: (player: Player) => player.id,
+          fetch: (config: CacheRequestConfig) => this.fetchPlayers({ playerIds }, config),
+        })),
+      ],
+      options
     );
   }
 
@@ -58,34 +222,37 @@ export class Players {
    * Get a single player by their ID.
    *
    * @param playerId - The ID of the player to retrieve.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the player data.
    * @example
    * ```ts
    * const player = await pubg.players.getPlayerById('account.0000a000000000000000000000000000');
    * ```
    */
-  async getPlayerById(playerId: string): Promise<PlayersResponse> {
-    return this.getPlayers({ playerIds: [playerId] });
+  async getPlayerById(playerId: string, options?: RequestOptions): Promise<PlayersResponse> {
+    return this.getPlayers({ playerIds: [playerId] }, options);
   }
 
   /**
    * Get a single player by their name.
    *
    * @param playerName - The name of the player to retrieve.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the player data.
    * @example
    * ```ts
    * const player = await pubg.players.getPlayerByName('shroud');
    * ```
    */
-  async getPlayerByName(playerName: string): Promise<PlayersResponse> {
-    return this.getPlayers({ playerNames: [playerName] });
+  async getPlayerByName(playerName: string, options?: RequestOptions): Promise<PlayersResponse> {
+    return this.getPlayers({ playerNames: [playerName] }, options);
   }
 
   /**
    * Get the season stats for a single player.
    *
    * @param query - The query parameters to specify the player and season.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the player's season stats.
    * @example
    * ```ts
@@ -95,11 +262,19 @@ export class Players {
    * });
    * ```
    */
-  async getPlayerSeasonStats(query: SeasonStatsQuery): Promise<PlayerSeasonStatsResponse> {
+  async getPlayerSeasonStats(
+    query: SeasonStatsQuery,
+    options?: RequestOptions
+  ): Promise<PlayerSeasonStatsResponse> {
+    this.input.accountId(query.playerId);
+    this.input.seasonId(query.seasonId);
+    this.input.urlParameter(query.gameMode, 'gameMode');
+
     return this.transport.get<PlayerSeasonStatsResponse>(
       endpointTarget(this.shard, ['players', query.playerId, 'seasons', query.seasonId], {
         'filter[gameMode]': query.gameMode,
-      })
+      }),
+      endpointRequestConfig('seasonStats', options)
     );
   }
 
@@ -107,6 +282,7 @@ export class Players {
    * Get season stats for a single game mode for up to 10 players.
    *
    * @param query - The season, game mode, and player IDs to retrieve stats for.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the players' season stats.
    * @example
    * ```ts
@@ -118,16 +294,54 @@ export class Players {
    * ```
    */
   async getPlayerSeasonStatsBatch(
-    query: PlayerSeasonStatsBatchQuery
+    query: PlayerSeasonStatsBatchQuery,
+    options?: RequestOptions
   ): Promise<PlayerSeasonStatsResponse> {
     assertValidPlayerIdBatch(query.playerIds);
+    this.input.seasonId(query.seasonId);
+    this.input.urlParameter(query.gameMode, 'gameMode');
+    this.input.accountIds(query.playerIds);
 
-    return this.transport.get<PlayerSeasonStatsResponse>(
-      endpointTarget(
-        this.shard,
-        ['seasons', query.seasonId, 'gameMode', query.gameMode, 'players'],
-        { 'filter[playerIds]': query.playerIds }
-      )
+    return this.fetchSeasonStatsBatch(query, endpointRequestConfig('seasonStats', options));
+  }
+
+  /**
+   * Get season stats for a single game mode for any number of players.
+   *
+   * @remarks
+   * Player IDs are split into batches of 10 like {@link Players.getPlayerSeasonStatsBatch}. IDs
+   * without stats are reported in `notFound` instead of rejecting the whole lookup.
+   *
+   * @param query - The season, game mode, and player IDs to retrieve stats for.
+   * @param options - Optional per-call request options. `concurrency` bounds the requests in
+   * flight, and the deadline covers the whole lookup.
+   * @returns A promise that resolves with the players' season stats and the IDs not found.
+   * @example
+   * ```ts
+   * const { data, notFound } = await pubg.players.getPlayerSeasonStatsBulk({
+   *   seasonId: 'division.bro.official.pc-2018-01',
+   *   gameMode: 'squad-fpp',
+   *   playerIds: lobbyPlayerIds,
+   * });
+   * ```
+   */
+  async getPlayerSeasonStatsBulk(
+    query: PlayerSeasonStatsBatchQuery,
+    options: BulkRequestOptions = {}
+  ): Promise<BulkApiResponse<PlayerSeasonStats>> {
+    this.input.seasonId(query.seasonId);
+    this.input.urlParameter(query.gameMode, 'gameMode');
+    this.input.accountIds(query.playerIds);
+
+    return runLookup(
+      'seasonStats',
+      lookupChunks(query.playerIds, MAX_PLAYER_STATS_BATCH_SIZE, (playerIds) => ({
+        keys: playerIds,
+        keyOf: statsPlayerId,
+        fetch: (config: CacheRequestConfig) =>
+          this.fetchSeasonStatsBatch({ ...query, playerIds }, config),
+      })),
+      options
     );
   }
 
@@ -135,15 +349,22 @@ export class Players {
    * Get the lifetime stats for a single player.
    *
    * @param playerId - The ID of the player to retrieve lifetime stats for.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the player's lifetime stats.
    * @example
    * ```ts
    * const lifetimeStats = await pubg.players.getPlayerLifetimeStats('account.0000a000000000000000000000000000');
    * ```
    */
-  async getPlayerLifetimeStats(playerId: string): Promise<PlayerSeasonStatsResponse> {
+  async getPlayerLifetimeStats(
+    playerId: string,
+    options?: RequestOptions
+  ): Promise<PlayerSeasonStatsResponse> {
+    this.input.accountId(playerId);
+
     return this.transport.get<PlayerSeasonStatsResponse>(
-      endpointTarget(this.shard, ['players', playerId, 'seasons', 'lifetime'])
+      endpointTarget(this.shard, ['players', playerId, 'seasons', 'lifetime']),
+      endpointRequestConfig('lifetimeStats', options)
     );
   }
 
@@ -151,6 +372,7 @@ export class Players {
    * Get lifetime stats for a single game mode for up to 10 players.
    *
    * @param query - The game mode and player IDs to retrieve lifetime stats for.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the players' lifetime stats.
    * @example
    * ```ts
@@ -161,14 +383,165 @@ export class Players {
    * ```
    */
   async getPlayerLifetimeStatsBatch(
-    query: PlayerLifetimeStatsBatchQuery
+    query: PlayerLifetimeStatsBatchQuery,
+    options?: RequestOptions
   ): Promise<PlayerSeasonStatsResponse> {
     assertValidPlayerIdBatch(query.playerIds);
+    this.input.urlParameter(query.gameMode, 'gameMode');
+    this.input.accountIds(query.playerIds);
+
+    return this.fetchLifetimeStatsBatch(query, endpointRequestConfig('lifetimeStats', options));
+  }
+
+  /**
+   * Get lifetime stats for a single game mode for any number of players.
+   *
+   * @remarks
+   * Player IDs are split into batches of 10 like {@link Players.getPlayerLifetimeStatsBatch}. IDs
+   * without stats are reported in `notFound` instead of rejecting the whole lookup.
+   *
+   * @param query - The game mode and player IDs to retrieve lifetime stats for.
+   * @param options - Optional per-call request options. `concurrency` bounds the requests in
+   * flight, and the deadline covers the whole lookup.
+   * @returns A promise that resolves with the players' lifetime stats and the IDs not found.
+   * @example
+   * ```ts
+   * const { data, notFound } = await pubg.players.getPlayerLifetimeStatsBulk({
+   *   gameMode: 'squad-fpp',
+   *   playerIds: lobbyPlayerIds,
+   * });
+   * ```
+   */
+  async getPlayerLifetimeStatsBulk(
+    query: PlayerLifetimeStatsBatchQuery,
+    options: BulkRequestOptions = {}
+  ): Promise<BulkApiResponse<PlayerSeasonStats>> {
+    this.input.urlParameter(query.gameMode, 'gameMode');
+    this.input.accountIds(query.playerIds);
+
+    return runLookup(
+      'lifetimeStats',
+      lookupChunks(query.playerIds, MAX_PLAYER_STATS_BATCH_SIZE, (playerIds) => ({
+        keys: playerIds,
+        keyOf: statsPlayerId,
+        fetch: (config: CacheRequestConfig) =>
+          this.fetchLifetimeStatsBatch({ ...query, playerIds }, config),
+      })),
+      options
+    );
+  }
+
+  /**
+   * Get the most recent matches of a player with the player's participant row from each.
+   *
+   * @remarks
+   * The player's match references are fetched newest first with up to `concurrency` requests in
+   * flight, through the client's rate limiting and scheduling, until `limit` matches pass the
+   * `gameModes` and `since` filters. Fetching stops at the first match older than `since`.
+   * Matches the API no longer serves are skipped.
+   *
+   * @param playerName - The name of the player.
+   * @param options - Filters and per-call request options. The deadline covers the player lookup
+   * and every match request.
+   * @returns A promise that resolves with the matches, newest first.
+   * @throws {@link PubgNotFoundError} When no player has the name.
+   * @example
+   * ```ts
+   * const recent = await pubg.players.getRecentMatches('shroud', {
+   *   limit: 5,
+   *   gameModes: ['squad-fpp'],
+   *   since: new Date(Date.now() - 24 * 60 * 60 * 1000),
+   * });
+   * for (const { match, participant } of recent) {
+   *   console.log(match.attributes.mapName, participant.stats.kills, participant.stats.winPlace);
+   * }
+   * ```
+   */
+  async getRecentMatches(
+    playerName: string,
+    options: RecentMatchesOptions = {}
+  ): Promise<RecentMatch[]> {
+    this.input.playerName(playerName);
+    const limit = recentMatchesLimit(options);
+    const since = recentMatchesSince(options);
+    const concurrency = bulkConcurrency(options);
+    const deadline = operationDeadline(options);
+
+    const players = await this.fetchPlayers(
+      { playerNames: [playerName] },
+      endpointRequestConfig('players', options, deadline)
+    );
+    const [player] = players.data;
+    if (!player) throw new PubgNotFoundError(`Player ${playerName} not found`);
 
+    const recent: RecentMatch[] = [];
+    const matches = mapConcurrentStream(
+      player.relationships.matches.data,
+      concurrency,
+      async ({ id }) => {
+        try {
+          return await this.transport.get<MatchResponse>(
+            endpointTarget(this.shard, ['matches', id]),
+            endpointRequestConfig('matches', options, deadline)
+          );
+        } catch (error) {
+          if (error instanceof PubgNotFoundError) return undefined;
+          throw error;
+        }
+      }
+    );
+
+    for await (const response of matches) {
+      if (!response) continue;
+      if (Date.parse(response.data.attributes.createdAt) < since) return recent;
+      if (options.gameModes && !options.gameModes.includes(response.data.attributes.gameMode)) {
+        continue;
+      }
+
+      const match = hydrateMatch(response);
+      const participant = match.participantByAccountId(player.id);
+      if (participant) recent.push({ match, participant });
+      if (recent.length === limit) return recent;
+    }
+    return recent;
+  }
+
+  private async fetchPlayers(
+    query: PlayerQuery,
+    config: CacheRequestConfig
+  ): Promise<PlayersResponse> {
+    return this.transport.get<PlayersResponse>(
+      endpointTarget(this.shard, ['players'], {
+        'filter[playerNames]': query.playerNames,
+        'filter[playerIds]': query.playerIds,
+      }),
+      config
+    );
+  }
+
+  private async fetchSeasonStatsBatch(
+    query: PlayerSeasonStatsBatchQuery,
+    config: CacheRequestConfig
+  ): Promise<PlayerSeasonStatsResponse> {
+    return this.transport.get<PlayerSeasonStatsResponse>(
+      endpointTarget(
+        this.shard,
+        ['seasons', query.seasonId, 'gameMode', query.gameMode, 'players'],
+        { 'filter[playerIds]': query.playerIds }
+      ),
+      config
+    );
+  }
+
+  private async fetchLifetimeStatsBatch(
+    query: PlayerLifetimeStatsBatchQuery,
+    config: CacheRequestConfig
+  ): Promise<PlayerSeasonStatsResponse> {
     return this.transport.get<PlayerSeasonStatsResponse>(
       endpointTarget(this.shard, ['seasons', 'lifetime', 'gameMode', query.gameMode, 'players'], {
         'filter[playerIds]': query.playerIds,
-      })
+      }),
+      config
     );
   }
 }
@@ -1,7 +1,7 @@
-import type { MatchesResponse, SamplesQuery } from '../../types';
+import type { MatchesResponse, RequestOptions, SamplesQuery } from '../../types';
 import type { Shard } from '../../types/common';
 import { endpointTarget } from '../endpoint-query';
-import type { EndpointTransport } from '../endpoint-transport';
+import { type EndpointTransport, endpointRequestConfig } from '../endpoint-transport';
 
 /**
  * Service for interacting with the Samples endpoint of the PUBG API.
@@ -20,6 +20,7 @@ export class Samples {
    * Get a sample of matches, with optional filtering by creation date.
    *
    * @param query - The query parameters to filter samples by creation date.
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the sample match data.
    * @example
    * ```ts
@@ -30,12 +31,13 @@ export class Samples {
    * });
    * ```
    */
-  async getSamples(query: SamplesQuery = {}): Promise<MatchesResponse> {
+  async getSamples(query: SamplesQuery = {}, options?: RequestOptions): Promise<MatchesResponse> {
     return this.transport.get<MatchesResponse>(
       endpointTarget(this.shard, ['samples'], {
         'filter[createdAt-start]': query.createdAt?.start,
         'filter[createdAt-end]': query.createdAt?.end,
-      })
+      }),
+      endpointRequestConfig('samples', options)
     );
   }
 }
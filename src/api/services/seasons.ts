@@ -1,7 +1,7 @@
-import type { SeasonsResponse } from '../../types';
+import type { RequestOptions, SeasonsResponse } from '../../types';
 import type { Shard } from '../../types/common';
 import { endpointTarget } from '../endpoint-query';
-import type { EndpointTransport } from '../endpoint-transport';
+import { type EndpointTransport, endpointRequestConfig } from '../endpoint-transport';
 
 /**
  * Service for interacting with the Seasons endpoint of the PUBG API.
@@ -19,27 +19,32 @@ export class Seasons {
   /**
    * Get a list of all available seasons.
    *
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the season data.
    * @example
    * ```ts
    * const seasons = await pubg.seasons.getSeasons();
    * ```
    */
-  async getSeasons(): Promise<SeasonsResponse> {
-    return this.transport.get<SeasonsResponse>(endpointTarget(this.shard, ['seasons']));
+  async getSeasons(options?: RequestOptions): Promise<SeasonsResponse> {
+    return this.transport.get<SeasonsResponse>(
+      endpointTarget(this.shard, ['seasons']),
+      endpointRequestConfig('seasons', options)
+    );
   }
 
   /**
    * Get the current season.
    *
+   * @param options - Optional per-call request options, such as a response-cache TTL override.
    * @returns A promise that resolves with the current season data.
    * @example
    * ```ts
    * const currentSeason = await pubg.seasons.getCurrentSeason();
    * ```
    */
-  async getCurrentSeason(): Promise<SeasonsResponse> {
-    const seasons = await this.getSeasons();
+  async getCurrentSeason(options?: RequestOptions): Promise<SeasonsResponse> {
+    const seasons = await this.getSeasons(options);
     const currentSeason = seasons.data.find((season) => season.attributes.isCurrentSeason);
 
     if (!currentSeason) {
@@ -1,3 +1,5 @@
+import type { DeadlineStage } from '../types/api';
+
 /**
  * Enhanced error context interface for better debugging
  */
@@ -201,3 +203,61 @@ export class PubgNetworkError extends PubgApiError {
     Object.setPrototypeOf(this, PubgNetworkError.prototype);
   }
 }
+
+/**
+ * PUBG API request rejected without a network call because the client's circuit breaker is open.
+ */
+export class PubgCircuitOpenError extends PubgApiError {
+  constructor(
+    message: string = 'Circuit breaker is open',
+    /** Seconds until the circuit allows a half-open probe. */
+    public retryAfter?: number,
+    context: Partial<ErrorContext> = {}
+  ) {
+    super(message, 0, undefined, { ...context, operation: context.operation || 'circuit_breaker' });
+    this.name = 'PubgCircuitOpenError';
+    Object.setPrototypeOf(this, PubgCircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Request cancelled through an `AbortSignal` passed in per-call request options.
+ *
+ * @remarks
+ * Cancellation is caller intent rather than a failure, so it never degrades Client Health.
+ */
+export class PubgCancellationError extends PubgApiError {
+  constructor(message: string = 'Request was cancelled', context: Partial<ErrorContext> = {}) {
+    super(message, 0, undefined, {
+      ...context,
+      operation: context.operation || 'request_cancellation',
+    });
+    this.name = 'PubgCancellationError';
+    Object.setPrototypeOf(this, PubgCancellationError.prototype);
+  }
+}
+
+/**
+ * Call that ran out of the time budget given by `RequestOptions.deadline`.
+ *
+ * @remarks
+ * The deadline is the caller's own limit, so like cancellation it never degrades Client Health.
+ */
+export class PubgDeadlineExceededError extends PubgApiError {
+  constructor(
+    message: string = 'Deadline exceeded',
+    /** Stage that was in progress when the budget ran out. */
+    public stage: DeadlineStage = 'request',
+    /** Budget in milliseconds that the call was given. */
+    public deadlineMs?: number,
+    context: Partial<ErrorContext> = {}
+  ) {
+    super(message, 0, undefined, {
+      ...context,
+      operation: context.operation || 'request_deadline',
+      metadata: { stage, deadlineMs, ...context.metadata },
+    });
+    this.name = 'PubgDeadlineExceededError';
+    Object.setPrototypeOf(this, PubgDeadlineExceededError.prototype);
+  }
+}
@@ -1,5 +1,29 @@
 export { PubgClient } from './api/client';
-export type { ClientHealth, ClientHealthReason, ClientHealthStatus } from './api/client-health';
+export type {
+  ApiKeyHealthSnapshot,
+  CircuitBreakerHealthSnapshot,
+  CircuitBreakerState,
+  ClientHealth,
+  ClientHealthHistory,
+  ClientHealthReason,
+  ClientHealthStatus,
+  HealthTransition,
+  HealthTransitionListener,
+  HealthWindowSnapshot,
+  LatencyPercentiles,
+  RecordedOutcome,
+  RequestSchedulerHealthSnapshot,
+  SchedulerLaneHealthSnapshot,
+  TelemetryCacheHealthSnapshot,
+} from './api/client-health';
+export type {
+  MiddlewareCacheHitContext,
+  MiddlewareContext,
+  MiddlewareErrorContext,
+  MiddlewareRequestContext,
+  MiddlewareResponseContext,
+  PubgMiddleware,
+} from './api/middleware';
 export { Leaderboards } from './api/services/leaderboards';
 export { Matches } from './api/services/matches';
 export { Players } from './api/services/players';
@@ -55,3 +79,35 @@ export type {
   SurvivalTitleInfo,
 } from './utils/assets/catalog';
 export { AssetCatalog } from './utils/assets/catalog';
+export type { ResponseCacheStats, ResponseCacheStore } from './utils/cache-store';
+export { MemoryCacheStore } from './utils/cache-store';
+export type { FileSystemCacheStoreOptions } from './utils/file-cache-store';
+export { FileSystemCacheStore } from './utils/file-cache-store';
+export type { FileSystemTelemetryCacheStoreOptions } from './utils/file-telemetry-cache-store';
+export { FileSystemTelemetryCacheStore } from './utils/file-telemetry-cache-store';
+export type {
+  DanglingReference,
+  DocumentResource,
+  JsonApiDocument,
+  JsonApiResolver,
+  RelatedResource,
+  RelationshipName,
+  ResourceOfType,
+  ResourceReference,
+} from './utils/json-api';
+export { createJsonApiResolver } from './utils/json-api';
+export type { LogComponent, LogFields, LogLevel, LogRecord, PubgLogger } from './utils/logger';
+export type {
+  HydratedMatch,
+  HydratedParticipant,
+  HydratedRoster,
+  RecentMatch,
+} from './utils/match-graph';
+export { hydrateMatch } from './utils/match-graph';
+export type { SecurityEvent } from './utils/security';
+export type {
+  MemoryTelemetryCacheStoreOptions,
+  TelemetryCacheStats,
+  TelemetryCacheStore,
+} from './utils/telemetry-cache-store';
+export { MemoryTelemetryCacheStore } from './utils/telemetry-cache-store';
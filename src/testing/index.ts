@@ -0,0 +1,7 @@
+export type {
+  StandInFault,
+  StandInRequest,
+  StandInServer,
+  StandInServerOptions,
+} from './stand-in-server';
+export { startStandInServer } from './stand-in-server';
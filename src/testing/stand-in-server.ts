@@ -0,0 +1,557 @@
+import { createHash } from 'node:crypto';
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import type { AddressInfo, Socket } from 'node:net';
+
+/** One injected failure served instead of the normal response. */
+export interface StandInFault {
+  /** HTTP status to respond with, such as 401, 404, 429, or 503. */
+  status: number;
+  /** Only requests whose path matches are affected. Strings match as substrings. */
+  path?: string | RegExp;
+  /** Number of matching requests to fail; 0 never fails. Defaults to every matching request. */
+  times?: number;
+  /** `Retry-After` seconds sent with 429 faults. Defaults to 1. */
+  retryAfter?: number;
+}
+
+/** Options for {@link startStandInServer}. */
+export interface StandInServerOptions {
+  /** Port to listen on. Defaults to an ephemeral port. */
+  port?: number;
+  /** Interface to bind. Defaults to `127.0.0.1`. */
+  host?: string;
+  /** Serves HTTPS with this key and certificate. Required for `matches.getTelemetry`. */
+  tls?: { key: string | Buffer; cert: string | Buffer };
+  /** When set, requests must send `Authorization: Bearer <apiKey>` or receive 401. */
+  apiKey?: string;
+  /** Player names the server knows. Unknown names and IDs receive 404. */
+  playerNames?: readonly string[];
+  /** Matches generated per known player. Defaults to 3. */
+  matchesPerPlayer?: number;
+  /** Budget reported through `X-RateLimit-*` headers; exhausted budgets receive 429. */
+  rateLimit?: { limit?: number; windowMs?: number };
+  /** Faults active from startup. More can be added with `injectFault`. */
+  faults?: readonly StandInFault[];
+}
+
+/** One request received by the stand-in server. */
+export interface StandInRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly status: number;
+}
+
+/** A running stand-in server. */
+export interface StandInServer {
+  /** Base URL to pass as `baseUrl`, for example `http://127.0.0.1:53121`. */
+  readonly url: string;
+  /** Requests received so far, in arrival order. */
+  readonly requests: readonly StandInRequest[];
+  injectFault(fault: StandInFault): void;
+  clearFaults(): void;
+  close(): Promise<void>;
+}
+
+interface StandInMatch {
+  id: string;
+  players: string[];
+  createdAt: string;
+}
+
+type RouteResult = { status: number; body: unknown; headers?: Record<string, string> };
+
+const JSON_API = 'application/vnd.api+json';
+const DEFAULT_PLAYER_NAMES = ['chocoTaco', 'shroud', 'WackyJacky101'];
+const SEASONS = [
+  { id: 'division.bro.official.pc-2018-29', isCurrentSeason: false },
+  { id: 'division.bro.official.pc-2018-30', isCurrentSeason: true },
+];
+const GAME_MODES = ['solo', 'duo', 'squad', 'solo-fpp', 'duo-fpp', 'squad-fpp'];
+const EPOCH = Date.parse('2026-07-13T12:00:00.000Z');
+
+const digest = (value: string): string => createHash('sha1').update(value).digest('hex');
+
+const playerIdFor = (name: string): string => `account.${digest(name).slice(0, 32)}`;
+
+/** Deterministic version 4 UUID, so match IDs pass `inputValidation`. */
+const matchIdFor = (name: string, index: number): string => {
+  const hex = digest(`${name}:${index}`);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+const apiError = (status: number, title: string, detail: string): RouteResult => ({
+  status,
+  body: { errors: [{ title, detail }] },
+});
+
+const notFound = (detail: string): RouteResult => apiError(404, 'Not Found', detail);
+
+const listFilter = (params: URLSearchParams, name: string): string[] =>
+  (params.get(name) ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+const gameModeStats = () => ({
+  assists: 0,
+  boosts: 0,
+  dBNOs: 0,
+  dailyKills: 0,
+  damageDealt: 0,
+  days: 0,
+  dailyWins: 0,
+  headshotKills: 0,
+  heals: 0,
+  killPoints: 0,
+  kills: 0,
+  longestKill: 0,
+  longestTimeSurvived: 0,
+  losses: 0,
+  maxKillStreaks: 0,
+  mostSurvivalTime: 0,
+  rankPoints: 0,
+  rankPointsTitle: '',
+  revives: 0,
+  rideDistance: 0,
+  roadKills: 0,
+  roundMostKills: 0,
+  roundsPlayed: 0,
+  suicides: 0,
+  swimDistance: 0,
+  teamKills: 0,
+  timeSurvived: 0,
+  top10s: 0,
+  vehicleDestroys: 0,
+  walkDistance: 0,
+  weaponsAcquired: 0,
+  weeklyKills: 0,
+  weeklyWins: 0,
+  winPoints: 0,
+  wins: 0,
+});
+
+/**
+ * Starts a local stand-in for the PUBG API for integration tests and CI.
+ *
+ * @remarks
+ * The server implements the `/shards/{shard}` players, season stats, lifetime stats, matches,
+ * seasons, leaderboards, and samples routes with JSON:API-shaped, deterministic data, and serves
+ * Match Telemetry from the telemetry asset URL in each match. Every response carries
+ * `X-RateLimit-*` headers, and faults inject 401, 404, 429, or 5xx responses. Because the client
+ * only downloads Match Telemetry over HTTPS, pass `tls` when tests call `matches.getTelemetry`.
+ *
+ * @example
+ * ```ts
+ * const server = await startStandInServer({ faults: [{ status: 503, path: '/seasons', times: 1 }] });
+ * const client = new PubgClient({ apiKey: 'test-key', shard: 'steam', baseUrl: server.url });
+ * await client.seasons.getSeasons(); // PubgNetworkError, then succeeds on the next call
+ * await server.close();
+ * ```
+ */
+export const startStandInServer = async (
+  options: StandInServerOptions = {}
+): Promise<StandInServer> => {
+  const playerNames = options.playerNames ?? DEFAULT_PLAYER_NAMES;
+  const matchesPerPlayer = options.matchesPerPlayer ?? 3;
+  const rateLimit = {
+    limit: options.rateLimit?.limit ?? 100,
+    windowMs: options.rateLimit?.windowMs ?? 60_000,
+  };
+  const faults = (options.faults ?? []).map((fault) => ({ ...fault }));
+  const requests: StandInRequest[] = [];
+  let window = { startedAt: Date.now(), used: 0 };
+  let origin = '';
+
+  const playersById = new Map(playerNames.map((name) => [playerIdFor(name), name]));
+  const matches = new Map<string, StandInMatch>();
+  playerNames.forEach((name, playerIndex) => {
+    for (let index = 0; index < matchesPerPlayer; index++) {
+      const id = matchIdFor(name, index);
+      matches.set(id, {
+        id,
+        players: [name],
+        createdAt: new Date(
+          EPOCH - (playerIndex * matchesPerPlayer + index) * 3_600_000
+        ).toISOString(),
+      });
+    }
+  });
+
+  const player = (shard: string, name: string) => ({
+    type: 'player',
+    id: playerIdFor(name),
+    attributes: {
+      createdAt: new Date(EPOCH).toISOString(),
+      name,
+      patchVersion: '',
+      shardId: shard,
+      stats: null,
+      titleId: 'bluehole-pubg',
+      updatedAt: new Date(EPOCH).toISOString(),
+    },
+    relationships: {
+      assets: { data: [] },
+      matches: {
+        data: Array.from({ length: matchesPerPlayer }, (_, index) => ({
+          type: 'match',
+          id: matchIdFor(name, index),
+        })),
+      },
+    },
+    links: { self: `${origin}/shards/${shard}/players/${playerIdFor(name)}`, schema: '' },
+  });
+
+  const matchDocument = (shard: string, match: StandInMatch) => {
+    const assetId = `asset-${match.id}`;
+    const rosterId = `roster-${match.id}`;
+    const participants = match.players.map((name, index) => ({
+      type: 'participant',
+      id: `participant-${match.id}-${index}`,
+      attributes: {
+        actor: '',
+        shardId: shard,
+        stats: { name, playerId: playerIdFor(name), kills: 2, damageDealt: 250, winPlace: 1 },
+      },
+    }));
+
+    return {
+      data: {
+        type: 'match',
+        id: match.id,
+        attributes: {
+          createdAt: match.createdAt,
+          duration: 1800,
+          gameMode: 'squad-fpp',
+          mapName: 'Baltic_Main',
+          isCustomMatch: false,
+          matchType: 'official',
+          patchVersion: '',
+          seasonState: 'progress',
+          shardId: shard,
+          stats: null,
+          tags: null,
+          titleId: 'bluehole-pubg',
+        },
+        relationships: {
+          assets: { data: [{ type: 'asset', id: assetId }] },
+          rosters: { data: [{ type: 'roster', id: rosterId }] },
+        },
+        links: { self: `${origin}/shards/${shard}/matches/${match.id}`, schema: '' },
+      },
+      included: [
+        ...participants,
+        {
+          type: 'roster',
+          id: rosterId,
+          attributes: { shardId: shard, stats: { rank: 1, teamId: 1 }, won: 'true' },
+          relationships: {
+            participants: {
+              data: participants.map(({ id }) => ({ type: 'participant', id })),
+            },
+            team: { data: null },
+          },
+        },
+        {
+          type: 'asset',
+          id: assetId,
+          attributes: {
+            URL: `${origin}/telemetry/${shard}/${match.id}.json`,
+            createdAt: match.createdAt,
+            description: '',
+            name: 'telemetry',
+          },
+        },
+      ],
+      links: { self: `${origin}/shards/${shard}/matches/${match.id}` },
+      meta: {},
+    };
+  };
+
+  const playerSeason = (playerId: string, seasonId: string, gameMode?: string) => ({
+    type: 'playerSeason',
+    attributes: {
+      gameModeStats: Object.fromEntries(
+        (gameMode ? [gameMode] : GAME_MODES).map((mode) => [mode, gameModeStats()])
+      ),
+    },
+    relationships: {
+      player: { data: { type: 'player', id: playerId } },
+      season: { data: { type: 'season', id: seasonId } },
+    },
+  });
+
+  const route = (method: string, url: URL): RouteResult => {
+    if (method !== 'GET') return apiError(405, 'Method Not Allowed', `${method} is not supported`);
+
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const params = url.searchParams;
+
+    if (segments[0] === 'telemetry' && segments.length === 3) {
+      const match = matches.get(segments[2].replace(/\.json$/, ''));
+      if (!match) return notFound('Telemetry not found');
+      return {
+        status: 200,
+        body: [
+          {
+            _D: match.createdAt,
+            _T: 'LogMatchStart',
+            common: { isGame: 0, matchId: match.id },
+            mapName: 'Baltic_Main',
+          },
+          { _D: match.createdAt, _T: 'LogMatchEnd', common: { isGame: 8, matchId: match.id } },
+        ],
+        headers: { 'content-type': 'application/json' },
+      };
+    }
+
+    if (segments[0] !== 'shards' || segments.length < 3) return notFound('Route not found');
+    const [, shard, resource, ...rest] = segments;
+
+    switch (resource) {
+      case 'players': {
+        if (rest.length === 0) {
+          const names = listFilter(params, 'filter[playerNames]');
+          const ids = listFilter(params, 'filter[playerIds]');
+          const found = [
+            ...names.filter((name) => playerNames.includes(name)),
+            ...ids.map((id) => playersById.get(id)).filter((name): name is string => !!name),
+          ];
+          if (found.length === 0) return notFound('No Players Found Matching Criteria');
+          return { status: 200, body: { data: found.map((name) => player(shard, name)) } };
+        }
+
+        const name = playersById.get(rest[0]);
+        if (!name) return notFound('No Players Found Matching Criteria');
+        if (rest.length === 1) return { status: 200, body: { data: player(shard, name) } };
+        if (rest.length === 3 && rest[1] === 'seasons') {
+          const seasonId = rest[2];
+          if (seasonId !== 'lifetime' && !SEASONS.some(({ id }) => id === seasonId)) {
+            return notFound('Season not found');
+          }
+          return {
+            status: 200,
+            body: {
+              data: playerSeason(rest[0], seasonId, params.get('filter[gameMode]') ?? undefined),
+            },
+          };
+        }
+        return notFound('Route not found');
+      }
+      case 'seasons': {
+        if (rest.length === 0) {
+          return {
+            status: 200,
+            body: {
+              data: SEASONS.map(({ id, isCurrentSeason }) => ({
+                type: 'season',
+                id,
+                attributes: { isCurrentSeason, isOffseason: false },
+              })),
+            },
+          };
+        }
+        if (rest.length === 4 && rest[1] === 'gameMode' && rest[3] === 'players') {
+          const ids = listFilter(params, 'filter[playerIds]').filter((id) => playersById.has(id));
+          if (ids.length === 0) return notFound('No Players Found Matching Criteria');
+          return {
+            status: 200,
+            body: { data: ids.map((id) => playerSeason(id, rest[0], rest[2])) },
+          };
+        }
+        return notFound('Route not found');
+      }
+      case 'matches': {
+        if (rest.length === 1) {
+          const match = matches.get(rest[0]);
+          return match
+            ? { status: 200, body: matchDocument(shard, match) }
+            : notFound('Match not found');
+        }
+
+        const playerIds = listFilter(params, 'filter[playerIds]');
+        const offset = Number(params.get('page[offset]') ?? 0);
+        const limit = Number(params.get('page[limit]') ?? matches.size);
+        const listed = [...matches.values()]
+          .filter(
+            (match) =>
+              playerIds.length === 0 ||
+              match.players.some((name) => playerIds.includes(playerIdFor(name)))
+          )
+          .slice(offset, offset + limit);
+        return {
+          status: 200,
+          body: { data: listed.map((match) => matchDocument(shard, match).data) },
+        };
+      }
+      case 'leaderboards': {
+        if (rest.length !== 2) return notFound('Route not found');
+        const [seasonId, gameMode] = rest;
+        const offset = Number(params.get('page[offset]') ?? 0);
+        const limit = Number(params.get('page[limit]') ?? playerNames.length);
+        const ranked = playerNames
+          .map((name, index) => ({ name, rank: index + 1 }))
+          .slice(offset, offset + limit);
+        return {
+          status: 200,
+          body: {
+            data: {
+              type: 'leaderboard',
+              id: `${seasonId}-${gameMode}`,
+              attributes: { shardId: shard, gameMode, seasonId },
+              relationships: {
+                players: {
+                  data: ranked.map(({ name }) => ({ type: 'player', id: playerIdFor(name) })),
+                },
+              },
+            },
+            included: ranked.map(({ name, rank }) => ({
+              type: 'player',
+              id: playerIdFor(name),
+              attributes: {
+                name,
+                rank,
+                stats: { rankPoints: 5100 - rank * 100, wins: 10, games: 50, kills: 120 },
+              },
+            })),
+          },
+        };
+      }
+      case 'samples':
+        return {
+          status: 200,
+          body: {
+            data: {
+              type: 'sample',
+              id: `sample-${shard}`,
+              attributes: {
+                createdAt: new Date(EPOCH).toISOString(),
+                shardId: shard,
+                titleId: 'bluehole-pubg',
+              },
+              relationships: {
+                matches: { data: [...matches.keys()].map((id) => ({ type: 'match', id })) },
+              },
+            },
+          },
+        };
+      default:
+        return notFound('Route not found');
+    }
+  };
+
+  const takeFault = (path: string): StandInFault | undefined => {
+    const fault = faults.find(
+      ({ path: pattern, times }) =>
+        (times === undefined || times > 0) &&
+        (pattern === undefined ||
+          (typeof pattern === 'string' ? path.includes(pattern) : pattern.test(path)))
+    );
+    if (fault?.times !== undefined && --fault.times <= 0) faults.splice(faults.indexOf(fault), 1);
+    return fault;
+  };
+
+  const faultResult = (fault: StandInFault): RouteResult => {
+    const titles: Record<number, string> = {
+      401: 'Unauthorized',
+      404: 'Not Found',
+      429: 'Too Many Requests',
+    };
+    const result = apiError(
+      fault.status,
+      titles[fault.status] ?? 'Server Error',
+      `Injected ${fault.status} fault`
+    );
+    return fault.status === 429
+      ? { ...result, headers: { 'retry-after': String(fault.retryAfter ?? 1) } }
+      : result;
+  };
+
+  const handle = (request: IncomingMessage, response: ServerResponse): void => {
+    const url = new URL(request.url ?? '/', origin);
+    const method = request.method ?? 'GET';
+    const isTelemetry = url.pathname.startsWith('/telemetry/');
+    let result: RouteResult;
+
+    const now = Date.now();
+    if (now - window.startedAt >= rateLimit.windowMs) window = { startedAt: now, used: 0 };
+    const rateLimitHeaders = (): Record<string, string> => ({
+      'x-ratelimit-limit': String(rateLimit.limit),
+      'x-ratelimit-remaining': String(Math.max(0, rateLimit.limit - window.used)),
+      'x-ratelimit-reset': String(Math.ceil((window.startedAt + rateLimit.windowMs) / 1000)),
+    });
+
+    const fault = takeFault(url.pathname);
+    if (fault) {
+      result = faultResult(fault);
+    } else if (
+      !isTelemetry &&
+      (!request.headers.authorization?.startsWith('Bearer ') ||
+        (options.apiKey !== undefined &&
+          request.headers.authorization !== `Bearer ${options.apiKey}`))
+    ) {
+      result = apiError(401, 'Unauthorized', 'API key invalid or missing');
+    } else if (!isTelemetry && window.used >= rateLimit.limit) {
+      result = {
+        ...apiError(429, 'Too Many Requests', 'Rate limit exceeded'),
+        headers: {
+          'retry-after': String(Math.ceil((window.startedAt + rateLimit.windowMs - now) / 1000)),
+        },
+      };
+    } else {
+      result = route(method, url);
+    }
+
+    if (!isTelemetry) window.used++;
+    requests.push({ method, path: `${url.pathname}${url.search}`, status: result.status });
+    response.writeHead(result.status, {
+      'content-type': JSON_API,
+      ...(isTelemetry ? {} : rateLimitHeaders()),
+      ...result.headers,
+    });
+    response.end(JSON.stringify(result.body));
+  };
+
+  const server = options.tls
+    ? createHttpsServer({ key: options.tls.key, cert: options.tls.cert }, handle)
+    : createHttpServer(handle);
+  const host = options.host ?? '127.0.0.1';
+
+  // Tracked so close() ends keep-alive connections; closeAllConnections needs Node 18.2.
+  const sockets = new Set<Socket>();
+  server.on('connection', (socket: Socket) => {
+    sockets.add(socket);
+    socket.once('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  origin = `${options.tls ? 'https' : 'http'}://${host}:${port}`;
+
+  return {
+    url: origin,
+    requests,
+    injectFault: (fault) => {
+      faults.push({ ...fault });
+    },
+    clearFaults: () => {
+      faults.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        for (const socket of sockets) socket.destroy();
+      }),
+  };
+};
@@ -1,7 +1,17 @@
+import type { PubgMiddleware } from '../api/middleware';
+import type { ResponseCacheStore } from '../utils/cache-store';
+import type { PubgLogger } from '../utils/logger';
+import type { TelemetryCacheStore } from '../utils/telemetry-cache-store';
 import type { GameMode, Shard } from './common';
 
 export interface PubgClientConfig {
-  apiKey: string;
+  /** PUBG API key. Optional when `apiKeys` is provided. */
+  apiKey?: string;
+  /**
+   * Additional PUBG API keys. Each key has its own rate limiter; every request uses the active key
+   * with the most remaining budget, and keys rejected with HTTP 401 leave the rotation.
+   */
+  apiKeys?: readonly string[];
   shard: Shard;
   baseUrl?: string;
   /** Optional base URL used only to generate AssetCatalog image URLs; catalog data stays local. */
@@ -9,8 +19,206 @@ export interface PubgClientConfig {
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  /**
+   * Waits for the advertised `Retry-After` interval and retries requests rejected with HTTP 429
+   * instead of throwing `PubgRateLimitError`. Disabled by default.
+   */
+  retryOnRateLimit?: boolean;
+  /**
+   * Maximum total time in milliseconds one request may spend waiting on `Retry-After` before the
+   * rate-limit error is thrown. Defaults to 60 seconds.
+   */
+  maxRateLimitWait?: number;
+  /**
+   * Store used for cached GET responses. Defaults to a client-local in-memory store; supply a
+   * shared store such as `FileSystemCacheStore` to reuse responses across processes.
+   */
+  cacheStore?: ResponseCacheStore;
+  /**
+   * Store for compressed Match Telemetry keyed by match ID, such as `MemoryTelemetryCacheStore`
+   * or `FileSystemTelemetryCacheStore`. Telemetry is not cached unless a store is supplied.
+   */
+  telemetryCache?: TelemetryCacheStore;
+  /** Response-cache TTLs in milliseconds by endpoint kind, merged over the default policy. */
+  cacheTtl?: CacheTtlPolicy;
+  /**
+   * Milliseconds after a cached GET response expires during which it is still returned
+   * immediately while one deduplicated background request refreshes it. Disabled by default.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Milliseconds after a cached GET response expires during which it is returned when the refresh
+   * fails because the PUBG API is unavailable, rate limited, or behind an open circuit breaker.
+   * Disabled by default.
+   */
+  staleIfError?: number;
+  /**
+   * Opens a circuit breaker after a run of server or network failures so later PUBG API calls fail
+   * fast with `PubgCircuitOpenError`. Disabled unless configured.
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+  /** Middleware observing PUBG API requests, in registration order. See `PubgClient.use`. */
+  middleware?: readonly PubgMiddleware[];
+  /**
+   * Records PUBG API responses and Match Telemetry to a fixture directory, or serves them solely
+   * from recorded fixtures, for offline tests.
+   */
+  recordReplay?: RecordReplayConfig;
+  /**
+   * HTTP transport for PUBG API requests and Match Telemetry downloads. `'fetch'` uses the
+   * standard `fetch` API for runtimes without an axios adapter. Defaults to `'axios'`.
+   */
+  transport?: 'axios' | 'fetch';
+  /**
+   * Maximum PUBG API requests and Match Telemetry downloads in flight at once for this client.
+   * Further calls queue by `RequestOptions.priority`. Unlimited by default.
+   */
+  maxConcurrentRequests?: number;
+  /** Size of the Client Health history and durations of its rolling windows. */
+  healthHistory?: HealthHistoryConfig;
+  /**
+   * Receives this client's structured log records with redacted fields. Defaults to the
+   * `pubg-ts:*` namespaces of the `debug` package.
+   */
+  logger?: PubgLogger;
+  /**
+   * Checks PUBG API responses against runtime schemas derived from the SDK response types.
+   * `'strict'` rejects a mismatching response with `PubgValidationError` naming the first
+   * mismatching path; `'lenient'` logs the mismatches as a warning and returns the response.
+   * Disabled by default.
+   */
+  responseValidation?: ResponseValidationMode;
+  /**
+   * Checks player names and account, match, and season IDs before requests are sent. Invalid
+   * input rejects with `PubgValidationError` naming the field and is recorded as a security event
+   * instead of costing a request and a rate-limit slot. Disabled by default.
+   */
+  inputValidation?: boolean;
 }
 
+/** How PUBG API responses that do not match their schema are handled. */
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+/** Client Health history and rolling-window settings. */
+export interface HealthHistoryConfig {
+  /** Transitions and outcomes kept for `getHealthHistory()`, each. Defaults to 100. */
+  size?: number;
+  /**
+   * Rolling window durations in milliseconds reported in `getHealth().windows`. Defaults to one
+   * and five minutes.
+   */
+  windows?: readonly number[];
+}
+
+/** Record-and-replay settings for offline tests. */
+export interface RecordReplayConfig {
+  /**
+   * `record` performs real requests and writes each response to `directory`; `replay` serves only
+   * recorded fixtures and rejects unrecorded requests with `PubgConfigurationError`.
+   */
+  mode: 'record' | 'replay';
+  /** Directory holding one JSON fixture per recorded request. Created when recording. */
+  directory: string;
+}
+
+/** Circuit-breaker settings for PUBG API requests. */
+export interface CircuitBreakerConfig {
+  /** Consecutive server or network failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before one half-open probe is allowed. Defaults to 30s. */
+  resetTimeout?: number;
+}
+
+/**
+ * Endpoint families that share a response-cache TTL.
+ *
+ * @remarks
+ * `matches` covers immutable match documents, while `matchLists` covers filtered match listings
+ * from `getMatches`. `seasonStats` and `lifetimeStats` cover single-player and batch stats.
+ */
+export type CacheEndpointKind =
+  | 'matches'
+  | 'matchLists'
+  | 'players'
+  | 'seasons'
+  | 'leaderboards'
+  | 'samples'
+  | 'seasonStats'
+  | 'lifetimeStats';
+
+/** Response-cache TTLs in milliseconds keyed by endpoint kind. */
+export type CacheTtlPolicy = Partial<Record<CacheEndpointKind, number>>;
+
+/**
+ * Scheduling lane for a call. Queued `interactive` calls always start before queued `background`
+ * calls once `maxConcurrentRequests` is reached.
+ */
+export type RequestPriority = 'interactive' | 'background';
+
+/** Per-call options accepted by every endpoint module method. */
+export interface RequestOptions {
+  /**
+   * Response-cache TTL in milliseconds for this call, overriding the client policy. `0` bypasses
+   * the response cache.
+   */
+  cacheTtl?: number;
+  /**
+   * Cancels the call, including rate-limit waits, retry backoff, the HTTP request, and any Match
+   * Telemetry download. Cancelled calls reject with `PubgCancellationError`.
+   */
+  signal?: AbortSignal;
+  /** Scheduling lane for this call. Defaults to `'interactive'`. */
+  priority?: RequestPriority;
+  /**
+   * Time budget in milliseconds for the whole call, shared by queueing, rate-limit waits,
+   * retries, `Retry-After` waits, and chained requests such as the match lookup and download of
+   * `getTelemetry`. When it runs out the call rejects with `PubgDeadlineExceededError` naming the
+   * stage in progress.
+   */
+  deadline?: number;
+}
+
+/** Per-call options for `matches.getMatch`. */
+export interface MatchRequestOptions extends RequestOptions {
+  /** Resolves with a `HydratedMatch` joined from the response instead of the response itself. */
+  hydrate?: boolean;
+}
+
+/** Per-call options for lookups split into API-sized requests. */
+export interface BulkRequestOptions extends RequestOptions {
+  /** Requests in flight at once for this lookup. Defaults to 2. */
+  concurrency?: number;
+}
+
+/** Filters and per-call options for `players.getRecentMatches`. */
+export interface RecentMatchesOptions extends BulkRequestOptions {
+  /** Most matches to return. Defaults to 10. */
+  limit?: number;
+  /** Only matches in these game modes. */
+  gameModes?: GameMode[];
+  /** Only matches created at or after this time, as a `Date` or ISO 8601 string. */
+  since?: Date | string;
+}
+
+/** Per-call options for iterating over every page of a paginated endpoint. */
+export interface PaginationOptions extends RequestOptions {
+  /** Stops the iteration after this many records. Unlimited by default. */
+  maxItems?: number;
+}
+
+/**
+ * Part of a call that was in progress when its deadline ran out: waiting for a concurrency slot,
+ * waiting for the local rate limiter, an HTTP request, retry backoff, a `Retry-After` wait, or a
+ * Match Telemetry download.
+ */
+export type DeadlineStage =
+  | 'queued'
+  | 'rate_limit_wait'
+  | 'request'
+  | 'retry_backoff'
+  | 'retry_after'
+  | 'telemetry_download';
+
 export interface PubgClientOptions {
   timeout?: number;
   retryAttempts?: number;
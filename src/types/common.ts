@@ -8,6 +8,12 @@ export interface ApiResponse<T> {
   meta?: Record<string, any>;
 }
 
+/** Merged result of a lookup split into several requests, with what it did not find. */
+export interface BulkApiResponse<T> extends ApiResponse<T> {
+  /** Requested player names or account IDs that matched no resource, in request order. */
+  notFound: string[];
+}
+
 export interface SingleApiResponse<T> {
   data: T;
   links?: {
@@ -38,4 +38,36 @@ export interface Leaderboard
   type: 'leaderboard';
 }
 
-export type LeaderboardResponse = ApiResponse<Leaderboard>;
+/** Ranked statistics of a player on a leaderboard page. */
+export interface LeaderboardPlayerStats {
+  rankPoints: number;
+  wins: number;
+  games: number;
+  kills: number;
+  winRatio?: number;
+  averageDamage?: number;
+  killDeathRatio?: number;
+  kda?: number;
+  averageRank?: number;
+  tier?: {
+    tier: string;
+    subTier: string;
+  };
+}
+
+export interface LeaderboardPlayerAttributes {
+  name: string;
+  rank: number;
+  stats: LeaderboardPlayerStats;
+}
+
+/** Player listed in the `included` resources of a leaderboard page. */
+export interface LeaderboardPlayer {
+  type: 'player';
+  id: string;
+  attributes: LeaderboardPlayerAttributes;
+}
+
+export interface LeaderboardResponse extends ApiResponse<Leaderboard> {
+  included?: LeaderboardPlayer[];
+}
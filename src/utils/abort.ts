@@ -0,0 +1,25 @@
+import { PubgCancellationError } from '../errors';
+
+/** Throws a cancellation error when the signal has already been aborted. */
+export const throwIfAborted = (signal: AbortSignal | undefined): void => {
+  if (signal?.aborted) throw new PubgCancellationError();
+};
+
+/** Resolves after `ms`, or rejects with a cancellation error as soon as the signal aborts. */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PubgCancellationError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PubgCancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,56 @@
+import { type CacheOptions, MemoryCache } from './cache';
+
+/** Response-cache statistics a store can report for Client Health. */
+export interface ResponseCacheStats {
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * Asynchronous key-value store backing a client's response cache.
+ *
+ * @remarks
+ * Stores receive opaque cache keys and JSON-serializable response bodies. Entries must not be
+ * returned after their TTL elapses. Stores that implement `getStats()` have their statistics
+ * reported through `getHealth().responseCache`.
+ */
+export interface ResponseCacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  getStats?(): ResponseCacheStats;
+}
+
+/** Default process-local response-cache store backed by {@link MemoryCache}. */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private readonly cache: MemoryCache;
+
+  constructor(options: CacheOptions = {}) {
+    this.cache = new MemoryCache(options);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    this.cache.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  getStats(): ResponseCacheStats {
+    const { size, maxSize, hits, misses, hitRate } = this.cache.getStats();
+    return { size, maxSize, hits, misses, hitRate };
+  }
+}
@@ -1,4 +1,4 @@
-import { logger } from './logger';
+import { errorMessage, type Logger, logger } from './logger';
 
 export interface CacheEntry<T> {
   data: T;
@@ -9,18 +9,22 @@ export interface CacheEntry<T> {
 export interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
   maxSize?: number; // Maximum number of entries
+  /** Loggers for cache activity. Defaults to the process-wide `debug` loggers. */
+  logger?: Logger;
 }
 
 export class MemoryCache {
   private cache = new Map<string, CacheEntry<any>>();
   private defaultTtl: number;
   private maxSize: number;
+  private logger: Logger;
   private hits = 0;
   private misses = 0;
 
   constructor(options: CacheOptions = {}) {
     this.defaultTtl = options.ttl ?? 5 * 60 * 1000; // 5 minutes default
     this.maxSize = options.maxSize ?? 1000;
+    this.logger = options.logger ?? logger;
   }
 
   set<T>(key: string, data: T, ttl?: number): void {
@@ -35,7 +39,7 @@ export class MemoryCache {
         const oldestKey = this.cache.keys().next().value;
         if (oldestKey) {
           this.cache.delete(oldestKey);
-          logger.cache(`Evicted oldest entry: ${oldestKey}`);
+          this.logger.cache('Evicted oldest entry', { cacheKey: oldestKey });
         }
       }
     }
@@ -47,14 +51,14 @@ export class MemoryCache {
     };
 
     this.cache.set(key, entry);
-    logger.cache(`Set cache entry: ${key} (TTL: ${expiration}ms)`);
+    this.logger.cache('Set cache entry', { cacheKey: key, ttl: expiration });
   }
 
   get<T>(key: string): T | undefined {
     const entry = this.cache.get(key);
 
     if (!entry) {
-      logger.cache(`Cache miss: ${key}`);
+      this.logger.cache('Cache miss', { cacheKey: key });
       this.misses++;
       return undefined;
     }
@@ -64,12 +68,12 @@ export class MemoryCache {
 
     if (isExpired) {
       this.cache.delete(key);
-      logger.cache(`Cache expired: ${key}`);
+      this.logger.cache('Cache expired', { cacheKey: key });
       this.misses++;
       return undefined;
     }
 
-    logger.cache(`Cache hit: ${key}`);
+    this.logger.cache('Cache hit', { cacheKey: key });
     this.hits++;
     return entry.data as T;
   }
@@ -95,7 +99,7 @@ export class MemoryCache {
   delete(key: string): boolean {
     const deleted = this.cache.delete(key);
     if (deleted) {
-      logger.cache(`Cache entry deleted: ${key}`);
+      this.logger.cache('Cache entry deleted', { cacheKey: key });
     }
     return deleted;
   }
@@ -103,7 +107,7 @@ export class MemoryCache {
   clear(): void {
     const size = this.cache.size;
     this.cache.clear();
-    logger.cache(`Cache cleared: ${size} entries removed`);
+    this.logger.cache('Cache cleared', { entries: size });
   }
 
   cleanup(): void {
@@ -119,7 +123,7 @@ export class MemoryCache {
     }
 
     if (removedCount > 0) {
-      logger.cache(`Cache cleanup: ${removedCount} expired entries removed`);
+      this.logger.cache('Cache cleanup removed expired entries', { entries: removedCount });
     }
   }
 
@@ -139,20 +143,23 @@ export class MemoryCache {
     warmingEntries: Array<{ key: string; value: () => Promise<T> }>,
     ttl?: number
   ): Promise<void> {
-    logger.cache(`Warming cache with ${warmingEntries.length} entries...`);
+    this.logger.cache('Warming cache', { entries: warmingEntries.length });
     const promises = warmingEntries.map(async ({ key, value }) => {
       if (!this.has(key)) {
         try {
           const data = await value();
           this.set(key, data, ttl);
         } catch (error) {
-          logger.error(`Failed to warm cache for key "${key}":`, error);
+          this.logger.cache.warn('Failed to warm cache entry', {
+            cacheKey: key,
+            error: errorMessage(error),
+          });
         }
       }
     });
 
     await Promise.all(promises);
-    logger.cache('Cache warming complete.');
+    this.logger.cache('Cache warming complete');
   }
 }
 
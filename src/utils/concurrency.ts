@@ -0,0 +1,91 @@
+/** Splits `items` into consecutive chunks of at most `size` items. */
+export const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+};
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, keeping the input order.
+ *
+ * @remarks
+ * Once a call rejects no further calls start, and the returned promise rejects with the first
+ * error after the calls already in flight settle.
+ */
+export const mapConcurrent = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (failure) throw failure.error;
+  return results;
+};
+
+/**
+ * Yields the results of `fn` over `items` in input order with at most `limit` calls in flight.
+ *
+ * @remarks
+ * A call starts as soon as any call in flight settles, so one slow call does not hold back the
+ * others, unless `limit` results are already waiting for an earlier result to be yielded. Once a
+ * call rejects, or the consumer stops iterating, no further calls start. Iteration rejects with
+ * the first failure in input order.
+ */
+export async function* mapConcurrentStream<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): AsyncGenerator<R> {
+  const results: Promise<R>[] = [];
+  let next = 0;
+  let inFlight = 0;
+  let waiting = 0;
+  let stopped = false;
+
+  const fill = (): void => {
+    while (!stopped && inFlight < limit && waiting < limit && next < items.length) {
+      const index = next++;
+      inFlight++;
+      results[index] = fn(items[index], index);
+      results[index].then(
+        () => {
+          inFlight--;
+          waiting++;
+          fill();
+        },
+        () => {
+          inFlight--;
+          stopped = true;
+        }
+      );
+    }
+  };
+
+  try {
+    fill();
+    for (let index = 0; index < items.length; index++) {
+      yield await results[index];
+      waiting--;
+      fill();
+    }
+  } finally {
+    stopped = true;
+  }
+}
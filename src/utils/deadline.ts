@@ -0,0 +1,76 @@
+import { PubgCancellationError, PubgDeadlineExceededError } from '../errors';
+import type { DeadlineStage } from '../types/api';
+
+/** Absolute end of a logical operation's time budget, shared by its chained requests. */
+export interface OperationDeadline {
+  /** Epoch milliseconds at which the budget runs out. */
+  readonly at: number;
+  /** Budget the caller asked for, reported in the error. */
+  readonly budgetMs: number;
+}
+
+/**
+ * Abort signal that fires when an operation deadline passes, tracking the stage in progress.
+ *
+ * @remarks
+ * The signal also follows the caller's own signal, so every wait that honors cancellation honors
+ * the deadline too. {@link DeadlineSignal.translate} turns the cancellation caused by the
+ * deadline into a `PubgDeadlineExceededError`; caller cancellations pass through unchanged.
+ * Call {@link DeadlineSignal.dispose} once the operation settles.
+ *
+ * @internal
+ */
+export class DeadlineSignal {
+  private readonly controller = new AbortController();
+  private readonly timer: ReturnType<typeof setTimeout>;
+  private expired = false;
+  private stage: DeadlineStage;
+
+  constructor(
+    private readonly deadline: OperationDeadline,
+    private readonly parent?: AbortSignal,
+    stage: DeadlineStage = 'queued'
+  ) {
+    this.stage = stage;
+    this.parent?.addEventListener('abort', this.forwardAbort, { once: true });
+    if (this.parent?.aborted) this.forwardAbort();
+
+    const expire = () => {
+      if (this.controller.signal.aborted) return;
+      this.expired = true;
+      this.controller.abort();
+    };
+    const remainingMs = deadline.at - Date.now();
+    this.timer = setTimeout(expire, Math.max(0, remainingMs));
+    if (remainingMs <= 0) expire();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Records the stage the operation is entering, reported if the deadline passes during it. */
+  enter(stage: DeadlineStage): void {
+    if (!this.expired) this.stage = stage;
+  }
+
+  /** Replaces a cancellation caused by the deadline with `PubgDeadlineExceededError`. */
+  translate(error: unknown): unknown {
+    if (!this.expired || !(error instanceof PubgCancellationError)) return error;
+    return new PubgDeadlineExceededError(
+      `Deadline of ${this.deadline.budgetMs}ms exceeded during ${this.stage}`,
+      this.stage,
+      this.deadline.budgetMs,
+      { metadata: error.context.metadata }
+    );
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.forwardAbort);
+  }
+
+  private readonly forwardAbort = (): void => {
+    this.controller.abort();
+  };
+}
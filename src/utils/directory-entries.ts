@@ -0,0 +1,145 @@
+import { readdir, stat, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { errorMessage, type Logger } from './logger';
+
+/** How long the in-memory totals are trusted before the directory is scanned again. */
+const RECONCILE_INTERVAL_MS = 30_000;
+
+/** Share of a store's budget freed at once, so a full directory is not scanned on every write. */
+export const EVICTION_BATCH = 0.1;
+
+/** Entry files and their total size in a cache directory. */
+export interface DirectoryTotals {
+  entries: number;
+  bytes: number;
+}
+
+interface EntryFile {
+  path: string;
+  size: number;
+  usedAt: number;
+}
+
+export const isMissingFile = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'ENOENT';
+
+/**
+ * Entry count and byte total of a cache directory that several processes may share.
+ *
+ * @remarks
+ * Totals are kept in memory, updated by this process's writes and removals, and reconciled with
+ * the directory at most every 30 seconds, so reading them never touches the file system and may
+ * briefly lag writes made by other processes. A directory that cannot be scanned keeps the last
+ * totals. Eviction removes files by modification time, oldest first.
+ *
+ * @internal
+ */
+export class DirectoryEntries {
+  private entries = 0;
+  private bytes = 0;
+  private countedAt = Number.NEGATIVE_INFINITY;
+  private counting?: Promise<void>;
+
+  constructor(
+    private readonly directory: string,
+    private readonly extension: string,
+    private readonly logger: Logger
+  ) {}
+
+  /** Current totals; starts a background reconcile when they are due for one. */
+  totals(): DirectoryTotals {
+    if (this.isStale()) void this.reconcile();
+    return { entries: this.entries, bytes: this.bytes };
+  }
+
+  /** Rescans the directory; concurrent calls share one scan. */
+  reconcile(): Promise<void> {
+    this.counting ??= this.scan()
+      .then((files) => this.adopt(files))
+      .catch((error: unknown) => {
+        this.logger.cache.warn('Unreadable cache directory', {
+          directory: this.directory,
+          error: errorMessage(error),
+        });
+      })
+      .finally(() => {
+        this.countedAt = Date.now();
+        this.counting = undefined;
+      });
+    return this.counting;
+  }
+
+  /** Paths of the entry files in the directory; none when it does not exist yet. */
+  async files(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory))
+        .filter((file) => file.endsWith(this.extension))
+        .map((file) => join(this.directory, file));
+    } catch (error) {
+      if (isMissingFile(error)) return [];
+      throw error;
+    }
+  }
+
+  /** Counts an entry file written by this process. */
+  added(bytes: number): void {
+    this.entries++;
+    this.bytes += bytes;
+  }
+
+  /** Removes an entry file, ignoring one that is already gone. */
+  async remove(path: string): Promise<void> {
+    try {
+      const { size } = await stat(path);
+      await unlink(path);
+      this.entries = Math.max(0, this.entries - 1);
+      this.bytes = Math.max(0, this.bytes - size);
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+  }
+
+  /**
+   * Scans the directory and removes the least recently used files until `hasRoom` holds, but only
+   * when `isFull` holds for the in-memory totals.
+   */
+  async evict(
+    isFull: (totals: DirectoryTotals) => boolean,
+    hasRoom: (totals: DirectoryTotals) => boolean
+  ): Promise<void> {
+    if (this.isStale()) await this.reconcile();
+    if (!isFull(this.totals())) return;
+
+    const oldestFirst = (await this.scan()).sort((left, right) => left.usedAt - right.usedAt);
+    this.adopt(oldestFirst);
+
+    for (const { path } of oldestFirst) {
+      if (hasRoom(this.totals())) break;
+      await this.remove(path);
+      this.logger.cache('Evicted least recently used entry', { path });
+    }
+  }
+
+  private isStale(): boolean {
+    return Date.now() - this.countedAt >= RECONCILE_INTERVAL_MS;
+  }
+
+  private adopt(files: readonly EntryFile[]): void {
+    this.entries = files.length;
+    this.bytes = files.reduce((total, { size }) => total + size, 0);
+  }
+
+  private async scan(): Promise<EntryFile[]> {
+    const files = await Promise.all(
+      (await this.files()).map(async (path) => {
+        try {
+          const { size, mtimeMs } = await stat(path);
+          return { path, size, usedAt: mtimeMs };
+        } catch {
+          return undefined;
+        }
+      })
+    );
+    return files.filter((file): file is EntryFile => file !== undefined);
+  }
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ResponseCacheStats, ResponseCacheStore } from './cache-store';
+import { DirectoryEntries, EVICTION_BATCH, isMissingFile } from './directory-entries';
+import { createLogger, errorMessage, type Logger, type PubgLogger } from './logger';
+
+export interface FileSystemCacheStoreOptions {
+  /** Directory that holds one JSON file per cached response. Created on first write. */
+  directory: string;
+  /** Maximum number of entries kept in the directory. Defaults to 10,000. */
+  maxSize?: number;
+  /** Destination for cache log records, usually the client's `logger`. Defaults to `debug`. */
+  logger?: PubgLogger;
+}
+
+interface FileCacheEntry<T> {
+  key: string;
+  expiresAt: number;
+  data: T;
+}
+
+const ENTRY_EXTENSION = '.json';
+
+/**
+ * Response-cache store that persists entries as JSON files in a shared directory.
+ *
+ * @remarks
+ * Several processes can point at the same directory to share cached PUBG responses. Writes go
+ * through a temporary file and an atomic rename so readers never observe partial entries. Hit and
+ * miss counters are local to this store instance. `getStats()` reports an entry count kept in
+ * memory; call `reconcile()` to recount the directory now. Once full, the oldest tenth of the
+ * entries is evicted.
+ *
+ * @example
+ * ```ts
+ * const client = new PubgClient({
+ *   apiKey: process.env.PUBG_API_KEY!,
+ *   shard: 'steam',
+ *   cacheStore: new FileSystemCacheStore({ directory: '/var/cache/pubg' }),
+ * });
+ * ```
+ */
+export class FileSystemCacheStore implements ResponseCacheStore {
+  private readonly directory: string;
+  private readonly maxSize: number;
+  private readonly logger: Logger;
+  private readonly entries: DirectoryEntries;
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+
+  constructor(options: FileSystemCacheStoreOptions) {
+    this.directory = options.directory;
+    this.maxSize = options.maxSize ?? 10_000;
+    this.logger = createLogger(options.logger);
+    this.entries = new DirectoryEntries(this.directory, ENTRY_EXTENSION, this.logger);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const path = this.pathFor(key);
+    let entry: FileCacheEntry<T>;
+
+    try {
+      entry = JSON.parse(await readFile(path, 'utf8')) as FileCacheEntry<T>;
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        this.logger.cache.warn('Unreadable cache file', {
+          cacheKey: key,
+          path,
+          error: errorMessage(error),
+        });
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.key !== key) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      await this.entries.remove(path);
+      this.logger.cache('Cache expired', { cacheKey: key, path });
+      this.misses++;
+      return undefined;
+    }
+
+    this.logger.cache('Cache hit', { cacheKey: key, path });
+    this.hits++;
+    return entry.data;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    const path = this.pathFor(key);
+    const entry: FileCacheEntry<T> = { key, expiresAt: Date.now() + ttl, data: value };
+    const contents = JSON.stringify(entry);
+    await mkdir(this.directory, { recursive: true });
+
+    // Overwriting an existing entry does not grow the directory, so it never evicts another.
+    const replaced = await this.exists(path);
+    if (!replaced) {
+      const keep = this.maxSize - Math.max(1, Math.ceil(this.maxSize * EVICTION_BATCH));
+      await this.entries.evict(
+        ({ entries }) => entries >= this.maxSize,
+        ({ entries }) => entries <= keep
+      );
+    }
+
+    const temporaryPath = `${path}.${process.pid}.${this.writes++}.tmp`;
+    await writeFile(temporaryPath, contents, 'utf8');
+    await rename(temporaryPath, path);
+    if (!replaced) this.entries.added(Buffer.byteLength(contents));
+    this.logger.cache('Set cache entry', { cacheKey: key, path, ttl });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.entries.remove(this.pathFor(key));
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.entries.files();
+    await Promise.all(files.map((path) => this.entries.remove(path)));
+    this.logger.cache('Cache cleared', { directory: this.directory, entries: files.length });
+  }
+
+  /** Recounts the entries in the directory, which `getStats()` otherwise does every 30 seconds. */
+  reconcile(): Promise<void> {
+    return this.entries.reconcile();
+  }
+
+  getStats(): ResponseCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      size: this.entries.totals().entries,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+
+  private pathFor(key: string): string {
+    const digest = createHash('sha256').update(key).digest('hex');
+    return join(this.directory, `${digest}${ENTRY_EXTENSION}`);
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DirectoryEntries, EVICTION_BATCH, isMissingFile } from './directory-entries';
+import { createLogger, errorMessage, type Logger, type PubgLogger } from './logger';
+import type { TelemetryCacheStats, TelemetryCacheStore } from './telemetry-cache-store';
+
+export interface FileSystemTelemetryCacheStoreOptions {
+  /** Directory that holds one gzip file per cached match. Created on first write. */
+  directory: string;
+  /** Byte budget for the gzip files in the directory. Defaults to 1 GiB. */
+  maxBytes?: number;
+  /** Destination for cache log records, usually the client's `logger`. Defaults to `debug`. */
+  logger?: PubgLogger;
+}
+
+const ENTRY_EXTENSION = '.json.gz';
+
+/**
+ * Telemetry-cache store that persists compressed payloads as files in a shared directory.
+ *
+ * @remarks
+ * Several processes can share the directory. Writes go through a temporary file and an atomic
+ * rename, reads refresh a file's modification time, and the least recently used files are
+ * removed once the directory would exceed its byte budget. Hit and miss counters are local to this
+ * store instance. `getStats()` reports totals kept in memory; call `reconcile()` to rescan the
+ * directory now.
+ *
+ * @example
+ * ```ts
+ * const client = new PubgClient({
+ *   apiKey: process.env.PUBG_API_KEY!,
+ *   shard: 'steam',
+ *   telemetryCache: new FileSystemTelemetryCacheStore({ directory: '/var/cache/pubg-telemetry' }),
+ * });
+ * ```
+ */
+export class FileSystemTelemetryCacheStore implements TelemetryCacheStore {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly logger: Logger;
+  private readonly entries: DirectoryEntries;
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+
+  constructor(options: FileSystemTelemetryCacheStoreOptions) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? 1024 * 1024 * 1024;
+    this.logger = createLogger(options.logger);
+    this.entries = new DirectoryEntries(this.directory, ENTRY_EXTENSION, this.logger);
+  }
+
+  async get(matchId: string): Promise<Uint8Array | undefined> {
+    const path = this.pathFor(matchId);
+    let payload: Buffer;
+
+    try {
+      payload = await readFile(path);
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        this.logger.cache.warn('Unreadable telemetry cache file', {
+          matchId,
+          path,
+          error: errorMessage(error),
+        });
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    const now = new Date();
+    await utimes(path, now, now).catch(() => undefined);
+    this.hits++;
+    return payload;
+  }
+
+  async set(matchId: string, payload: Uint8Array): Promise<void> {
+    if (payload.byteLength > this.maxBytes) {
+      this.logger.cache('Telemetry exceeds the cache budget; not cached', {
+        matchId,
+        bytes: payload.byteLength,
+        maxBytes: this.maxBytes,
+      });
+      return;
+    }
+
+    const path = this.pathFor(matchId);
+    const incoming = payload.byteLength;
+    await mkdir(this.directory, { recursive: true });
+    await this.entries.remove(path);
+
+    // Evicting below the budget leaves room for the next writes, unless this payload needs it all.
+    const target = this.maxBytes * (1 - EVICTION_BATCH);
+    const budget = incoming > target ? this.maxBytes : target;
+    await this.entries.evict(
+      ({ bytes }) => bytes + incoming > this.maxBytes,
+      ({ bytes }) => bytes + incoming <= budget
+    );
+
+    const temporaryPath = `${path}.${process.pid}.${this.writes++}.tmp`;
+    await writeFile(temporaryPath, payload);
+    await rename(temporaryPath, path);
+    this.entries.added(incoming);
+  }
+
+  async delete(matchId: string): Promise<void> {
+    await this.entries.remove(this.pathFor(matchId));
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.entries.files();
+    await Promise.all(files.map((path) => this.entries.remove(path)));
+    this.logger.cache('Telemetry cache cleared', {
+      directory: this.directory,
+      entries: files.length,
+    });
+  }
+
+  /** Rescans the directory totals, which `getStats()` otherwise does every 30 seconds. */
+  reconcile(): Promise<void> {
+    return this.entries.reconcile();
+  }
+
+  getStats(): TelemetryCacheStats {
+    const { entries, bytes } = this.entries.totals();
+    const total = this.hits + this.misses;
+    return {
+      entries,
+      bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+
+  private pathFor(matchId: string): string {
+    const digest = createHash('sha256').update(matchId).digest('hex');
+    return join(this.directory, `${digest}${ENTRY_EXTENSION}`);
+  }
+}
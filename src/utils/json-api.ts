@@ -0,0 +1,174 @@
+import type { ResourceBase } from '../types/common';
+
+/** JSON:API document with primary data and optional included resources. */
+export interface JsonApiDocument {
+  data: ResourceBase | readonly ResourceBase[] | null;
+  included?: readonly ResourceBase[];
+}
+
+/** Primary and included resources of a document. */
+export type DocumentResource<D extends JsonApiDocument> = Extract<
+  | (D['data'] extends readonly (infer R)[] ? R : NonNullable<D['data']>)
+  | (D['included'] extends readonly (infer I)[] | undefined ? I : never),
+  ResourceBase
+>;
+
+/** Relationship names declared by a resource type. */
+export type RelationshipName<R> = R extends { relationships: infer Relationships }
+  ? Extract<keyof Relationships, string>
+  : never;
+
+type RelationshipData<R, K> = R extends { relationships: infer Relationships }
+  ? K extends keyof Relationships
+    ? NonNullable<Relationships[K]> extends { data?: infer Data }
+      ? Data
+      : never
+    : never
+  : never;
+
+type Identifier<Data> = Data extends readonly (infer Element)[] ? Element : NonNullable<Data>;
+
+/** Resource of `type` in `Resource`, or a bare resource when the document types none. */
+export type ResourceOfType<Resource, T> = [Extract<Resource, { type: T }>] extends [never]
+  ? ResourceBase & { type: T }
+  : Extract<Resource, { type: T }>;
+
+/** Resource a relationship refers to, by the identifier type the relationship declares. */
+export type RelatedResource<Resource, R, K> = Identifier<RelationshipData<R, K>> extends {
+  type: infer T;
+}
+  ? ResourceOfType<Resource, T>
+  : ResourceBase;
+
+/** Reference to a resource by type and ID. */
+export interface ResourceReference {
+  type: string;
+  id: string;
+}
+
+/** Relationship reference to a resource that is not in the document. */
+export interface DanglingReference {
+  /** Resource that holds the relationship. */
+  from: ResourceReference;
+  relationship: string;
+  to: ResourceReference;
+}
+
+/**
+ * Identity map of the resources of one JSON:API document, resolving relationships between them.
+ *
+ * @example
+ * ```ts
+ * const match = await client.matches.getMatch(matchId);
+ * const resolver = createJsonApiResolver(match);
+ * for (const roster of resolver.ofType('roster')) {
+ *   const names = resolver.toMany(roster, 'participants').map((p) => p.attributes.stats.name);
+ * }
+ * ```
+ */
+export interface JsonApiResolver<Resource extends ResourceBase> {
+  /** Primary resources followed by included resources, in document order. */
+  readonly resources: readonly Resource[];
+  find<T extends Resource['type']>(type: T, id: string): ResourceOfType<Resource, T> | undefined;
+  ofType<T extends Resource['type']>(type: T): ResourceOfType<Resource, T>[];
+  /**
+   * Resolves a to-one relationship: `null` when the relationship is empty, `undefined` when it is
+   * missing, to-many, or refers to a resource that is not in the document.
+   */
+  toOne<R extends Resource, K extends RelationshipName<R>>(
+    resource: R,
+    relationship: K
+  ): RelatedResource<Resource, R, K> | null | undefined;
+  /** Resolves a to-many relationship in reference order, skipping dangling references. */
+  toMany<R extends Resource, K extends RelationshipName<R>>(
+    resource: R,
+    relationship: K
+  ): RelatedResource<Resource, R, K>[];
+  /** Relationship references of every resource that are not in the document. */
+  danglingReferences(): DanglingReference[];
+}
+
+const referenceKey = ({ type, id }: ResourceReference): string => `${type}\u0000${id}`;
+
+const isReference = (value: unknown): value is ResourceReference =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as ResourceReference).type === 'string' &&
+  typeof (value as ResourceReference).id === 'string';
+
+const relationshipsOf = (resource: ResourceBase): Record<string, { data?: unknown }> => {
+  const { relationships } = resource as { relationships?: unknown };
+  return typeof relationships === 'object' && relationships !== null
+    ? (relationships as Record<string, { data?: unknown }>)
+    : {};
+};
+
+/**
+ * Builds a {@link JsonApiResolver} over the primary and included resources of `document`.
+ *
+ * @remarks
+ * The identity map is built once; relationships are resolved only when asked for. When a
+ * resource appears more than once, the first occurrence wins. Works with any PUBG API response,
+ * including players, matches, season stats, and leaderboards; references the API does not
+ * include, such as the matches of a player, resolve as dangling.
+ */
+export const createJsonApiResolver = <D extends JsonApiDocument>(
+  document: D
+): JsonApiResolver<DocumentResource<D>> => {
+  type Resource = DocumentResource<D>;
+
+  const primary: readonly ResourceBase[] = document.data === null ? [] : [document.data].flat();
+  // The document type declares which resources its data and included members hold.
+  const resources = [...primary, ...(document.included ?? [])] as Resource[];
+  const identity = new Map<string, Resource>();
+  for (const resource of resources) {
+    if (isReference(resource) && !identity.has(referenceKey(resource))) {
+      identity.set(referenceKey(resource), resource);
+    }
+  }
+
+  /**
+   * Resource the identity map holds for `reference`, typed as the caller's signature declares.
+   * Resources are keyed by type and ID, so the result always has the type the reference names.
+   */
+  const lookup = <R>(reference: unknown): R | undefined =>
+    isReference(reference) ? (identity.get(referenceKey(reference)) as R | undefined) : undefined;
+
+  const references = (resource: ResourceBase, relationship: string): unknown[] => {
+    const data = relationshipsOf(resource)[relationship]?.data;
+    return Array.isArray(data) ? data : [];
+  };
+
+  return {
+    resources,
+    find: <T extends Resource['type']>(type: T, id: string) =>
+      lookup<ResourceOfType<Resource, T>>({ type, id }),
+    ofType: <T extends Resource['type']>(type: T) =>
+      resources.filter(
+        (resource): resource is Resource & ResourceOfType<Resource, T> => resource.type === type
+      ),
+    toOne: <R extends Resource, K extends RelationshipName<R>>(resource: R, relationship: K) => {
+      const data = relationshipsOf(resource)[relationship]?.data;
+      if (data === null) return null;
+      return Array.isArray(data) ? undefined : lookup<RelatedResource<Resource, R, K>>(data);
+    },
+    toMany: <R extends Resource, K extends RelationshipName<R>>(resource: R, relationship: K) =>
+      references(resource, relationship).flatMap(
+        (reference) => lookup<RelatedResource<Resource, R, K>>(reference) ?? []
+      ),
+    danglingReferences: () =>
+      resources.flatMap((resource) =>
+        Object.entries(relationshipsOf(resource)).flatMap(([relationship, value]) =>
+          [value?.data ?? []]
+            .flat()
+            .filter((reference): reference is ResourceReference => isReference(reference))
+            .filter((reference) => !lookup(reference))
+            .map((reference) => ({
+              from: { type: resource.type, id: resource.id },
+              relationship,
+              to: { type: reference.type, id: reference.id },
+            }))
+        )
+      ),
+  };
+};
@@ -1,33 +1,164 @@
 import debug from 'debug';
+import { securityManager } from './security';
 
-// Create different debug loggers for different components
-const createLogger = (namespace: string) => debug(`pubg-ts:${namespace}`);
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
-export const logger = {
-  http: createLogger('http'),
-  rateLimit: createLogger('rate-limit'),
-  cache: createLogger('cache'),
-  error: createLogger('error'),
-  client: createLogger('client'),
+/** SDK component that produced a log record; also the `pubg-ts:<component>` debug namespace. */
+export type LogComponent = 'http' | 'rate-limit' | 'cache' | 'client' | 'error';
+
+/** Structured fields of a log record. */
+export interface LogFields {
+  /** Endpoint Target or other request target the record concerns. */
+  endpoint?: string;
+  shard?: string;
+  durationMs?: number;
+  cacheKey?: string;
+  [field: string]: unknown;
+}
+
+/** One structured log record delivered to a {@link PubgLogger}. */
+export interface LogRecord {
+  level: LogLevel;
+  component: LogComponent;
+  message: string;
+  /** ISO 8601 time at which the record was produced. */
+  timestamp: string;
+  /** Fields after redaction with `SecurityManager.sanitizeForLogging`. */
+  fields: LogFields;
+}
+
+/**
+ * Destination for a client's structured log records.
+ *
+ * @example
+ * ```ts
+ * const client = new PubgClient({
+ *   apiKey: process.env.PUBG_API_KEY!,
+ *   shard: 'steam',
+ *   logger: { log: (record) => process.stdout.write(`${JSON.stringify(record)}\n`) },
+ * });
+ * ```
+ */
+export interface PubgLogger {
+  log(record: LogRecord): void;
+}
+
+/** Logs for one component; calling it directly logs at `debug` level. */
+export interface ComponentLogger {
+  (message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/** Component loggers writing to one destination. */
+export interface Logger {
+  http: ComponentLogger;
+  rateLimit: ComponentLogger;
+  cache: ComponentLogger;
+  error: ComponentLogger;
+  client: ComponentLogger;
+}
+
+const namespaces = new Map<LogComponent, debug.Debugger>();
+
+const namespaceFor = (component: LogComponent): debug.Debugger => {
+  let namespace = namespaces.get(component);
+  if (!namespace) {
+    namespace = debug(`pubg-ts:${component}`);
+    namespaces.set(component, namespace);
+  }
+  return namespace;
 };
 
-// Performance timing utility
+/** Default destination: the `pubg-ts:*` namespaces of the `debug` package. */
+const debugLogger: PubgLogger = {
+  log: ({ level, component, message, fields }) => {
+    const namespace = namespaceFor(component);
+    if (Object.keys(fields).length === 0) namespace('%s %s', level, message);
+    else namespace('%s %s %O', level, message, fields);
+  },
+};
+
+/**
+ * Creates component loggers that redact fields and deliver records to `destination`.
+ *
+ * @remarks
+ * Fields are redacted with `SecurityManager.sanitizeForLogging`, which masks only secret fields,
+ * so IDs and URLs reach the destination intact. Without a destination, records go to the `debug`
+ * namespaces and are only built when the namespace is enabled. Errors thrown by a destination are
+ * swallowed so logging never fails a request.
+ *
+ * @internal
+ */
+export const createLogger = (destination?: PubgLogger): Logger => {
+  const emit = (level: LogLevel, component: LogComponent, message: string, fields: LogFields) => {
+    if (!destination && !namespaceFor(component).enabled) return;
+
+    const record: LogRecord = {
+      level,
+      component,
+      message,
+      timestamp: new Date().toISOString(),
+      fields: securityManager.sanitizeForLogging(fields),
+    };
+    try {
+      (destination ?? debugLogger).log(record);
+    } catch {
+      // A failing log destination must not affect the operation being logged.
+    }
+  };
+
+  const component = (name: LogComponent): ComponentLogger =>
+    Object.assign(
+      (message: string, fields: LogFields = {}) => emit('debug', name, message, fields),
+      {
+        debug: (message: string, fields: LogFields = {}) => emit('debug', name, message, fields),
+        info: (message: string, fields: LogFields = {}) => emit('info', name, message, fields),
+        warn: (message: string, fields: LogFields = {}) => emit('warn', name, message, fields),
+        error: (message: string, fields: LogFields = {}) => emit('error', name, message, fields),
+      }
+    );
+
+  return {
+    http: component('http'),
+    rateLimit: component('rate-limit'),
+    cache: component('cache'),
+    error: component('error'),
+    client: component('client'),
+  };
+};
+
+/** Process-wide loggers for components that are not owned by a client. */
+export const logger = createLogger();
+
+/** Error message safe to include in log fields. */
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Logs the start and the duration of `fn` with `fields`, at `warn` level when it fails.
+ */
 export const withTiming = async <T>(
-  loggerFn: debug.Debugger,
+  log: ComponentLogger,
   operation: string,
-  fn: () => Promise<T>
+  fn: () => Promise<T>,
+  fields: LogFields = {}
 ): Promise<T> => {
   const start = Date.now();
-  loggerFn(`Starting ${operation}`);
+  log(`Starting ${operation}`, fields);
 
   try {
     const result = await fn();
-    const duration = Date.now() - start;
-    loggerFn(`Completed ${operation} in ${duration}ms`);
+    log(`Completed ${operation}`, { ...fields, durationMs: Date.now() - start });
     return result;
   } catch (error) {
-    const duration = Date.now() - start;
-    loggerFn(`Failed ${operation} after ${duration}ms:`, error);
+    log.warn(`Failed ${operation}`, {
+      ...fields,
+      durationMs: Date.now() - start,
+      error: errorMessage(error),
+    });
     throw error;
   }
 };
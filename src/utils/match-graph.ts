@@ -0,0 +1,129 @@
+import type { Asset, MatchAttributes, MatchResponse, ParticipantStats } from '../types/match';
+import { createJsonApiResolver } from './json-api';
+
+/** Participant of a {@link HydratedMatch}. */
+export interface HydratedParticipant {
+  /** Participant resource ID, unique within the match. */
+  id: string;
+  /** Account ID of the player, from `stats.playerId`. */
+  accountId: string;
+  name: string;
+  stats: ParticipantStats;
+  /** Roster the participant played in; absent when no roster lists the participant. */
+  rosterId?: string;
+  teamId?: number;
+}
+
+/** Roster of a {@link HydratedMatch} with its participants. */
+export interface HydratedRoster {
+  id: string;
+  rank: number;
+  teamId: number;
+  won: boolean;
+  /** Participants in the order the roster lists them. */
+  participants: HydratedParticipant[];
+}
+
+/**
+ * Match with its rosters, participants, and telemetry asset joined from the response.
+ *
+ * @example
+ * ```ts
+ * const match = await client.matches.getMatch(matchId, { hydrate: true });
+ * const winners = match.rosters[0].participants.map(({ name }) => name);
+ * const me = match.participantByAccountId(player.id);
+ * ```
+ */
+export interface HydratedMatch {
+  id: string;
+  attributes: MatchAttributes;
+  /** Rosters ordered by final rank, best first. */
+  rosters: HydratedRoster[];
+  /** Every participant, in roster order, then participants no roster lists. */
+  participants: HydratedParticipant[];
+  /** The Match Telemetry asset, if the match has exactly one. */
+  telemetry?: Asset;
+  assets: Asset[];
+  /** The response the model was built from. */
+  response: MatchResponse;
+  participantByAccountId(accountId: string): HydratedParticipant | undefined;
+  participantByName(name: string): HydratedParticipant | undefined;
+  rosterByTeamId(teamId: number): HydratedRoster | undefined;
+}
+
+/** Match of a player with the player's participant row, from `players.getRecentMatches`. */
+export interface RecentMatch {
+  match: HydratedMatch;
+  participant: HydratedParticipant;
+}
+
+const byRank = (a: HydratedRoster, b: HydratedRoster): number =>
+  a.rank - b.rank || a.teamId - b.teamId;
+
+/**
+ * Joins the flat `included` resources of a match response into a {@link HydratedMatch}.
+ *
+ * @remarks
+ * Relationships are resolved with {@link createJsonApiResolver}. Roster references to
+ * participants missing from `included`, or to resources that are not participants, are skipped.
+ */
+export const hydrateMatch = (response: MatchResponse): HydratedMatch => {
+  const resolver = createJsonApiResolver(response);
+  const assets = resolver.ofType('asset');
+
+  const participantsById = new Map<string, HydratedParticipant>(
+    resolver
+      .ofType('participant')
+      .map(({ id, attributes: { stats } }) => [
+        id,
+        { id, accountId: stats.playerId, name: stats.name, stats },
+      ])
+  );
+
+  const rosters = resolver
+    .ofType('roster')
+    .map((roster): HydratedRoster => {
+      const { id, attributes } = roster;
+      const participants = resolver
+        .toMany(roster, 'participants')
+        .flatMap(({ id: participantId }) => {
+          const participant = participantsById.get(participantId);
+          if (!participant) return [];
+          participant.rosterId = id;
+          participant.teamId = attributes.stats.teamId;
+          return [participant];
+        });
+      return {
+        id,
+        rank: attributes.stats.rank,
+        teamId: attributes.stats.teamId,
+        won: attributes.won === 'true',
+        participants,
+      };
+    })
+    .sort(byRank);
+
+  const participants = [
+    ...rosters.flatMap((roster) => roster.participants),
+    ...[...participantsById.values()].filter((participant) => participant.rosterId === undefined),
+  ];
+  const byAccountId = new Map(
+    participants.map((participant) => [participant.accountId, participant])
+  );
+  const byName = new Map(participants.map((participant) => [participant.name, participant]));
+  const byTeamId = new Map(rosters.map((roster) => [roster.teamId, roster]));
+  const telemetryAssets = assets.filter((asset) => asset.attributes?.name === 'telemetry');
+
+  return {
+    id: response.data.id,
+    attributes: response.data.attributes,
+    rosters,
+    participants,
+    telemetry: telemetryAssets.length === 1 ? telemetryAssets[0] : undefined,
+    assets,
+    response,
+    participantByAccountId: (accountId) => byAccountId.get(accountId),
+    participantByName: (name) => byName.get(name),
+    rosterByTeamId: (teamId) => byTeamId.get(teamId),
+  };
+};
@@ -1,15 +1,87 @@
+import { abortableDelay } from './abort';
+
+/** Rate-limit budget reported by the PUBG API through `X-RateLimit-*` response headers. */
+export interface ServerRateLimitState {
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds at which the server budget resets. */
+  resetAt: number;
+}
+
+const headerValue = (headers: unknown, name: string): unknown => {
+  if (typeof headers !== 'object' || headers === null) return undefined;
+  const record = headers as Record<string, unknown> & { get?: (name: string) => unknown };
+  if (typeof record.get === 'function') {
+    const value = record.get(name);
+    if (value !== undefined && value !== null) return value;
+  }
+
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name);
+  return key === undefined ? undefined : record[key];
+};
+
+/** Resets closer than this are the same server window; delta resets drift by request latency. */
+const SAME_WINDOW_MS = 1000;
+
+const headerNumber = (headers: unknown, name: string): number | undefined => {
+  const value = Number(headerValue(headers, name));
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+/**
+ * Parses PUBG `X-RateLimit-Limit`, `X-RateLimit-Remaining`, and `X-RateLimit-Reset` headers.
+ *
+ * @remarks
+ * PUBG reports the reset as Unix epoch seconds. Small values are treated as seconds from `now`
+ * so proxies that rewrite the header as a delta are still honored.
+ */
+export const parseRateLimitHeaders = (
+  headers: unknown,
+  now = Date.now()
+): ServerRateLimitState | undefined => {
+  const limit = headerNumber(headers, 'x-ratelimit-limit');
+  const remaining = headerNumber(headers, 'x-ratelimit-remaining');
+  const reset = headerNumber(headers, 'x-ratelimit-reset');
+  if (limit === undefined || remaining === undefined || reset === undefined) return undefined;
+
+  return {
+    limit,
+    remaining,
+    resetAt: reset < 1_000_000_000 ? now + reset * 1000 : reset * 1000,
+  };
+};
+
 export class RateLimiter {
   private requests: number[] = [];
   private maxRequests: number;
   private windowMs: number;
+  private server?: ServerRateLimitState;
 
   constructor(maxRequests: number = 10, windowMs: number = 60000) {
     this.maxRequests = maxRequests;
     this.windowMs = windowMs;
   }
 
-  async waitForSlot(): Promise<void> {
+  /**
+   * Waits until the budget allows another request and reserves it.
+   *
+   * @param signal - Aborts the wait with a `PubgCancellationError` without reserving a slot.
+   */
+  async waitForSlot(signal?: AbortSignal): Promise<void> {
     const now = Date.now();
+    const server = this.currentServerState(now);
+
+    if (server) {
+      if (server.remaining <= 0) {
+        await abortableDelay(server.resetAt - now, signal);
+        this.server = undefined;
+        return this.waitForSlot(signal);
+      }
+
+      server.remaining--;
+      this.requests.push(now);
+      return;
+    }
 
     this.requests = this.requests.filter((time) => now - time < this.windowMs);
 
@@ -18,30 +90,70 @@ export class RateLimiter {
       const waitTime = this.windowMs - (now - oldestRequest);
 
       if (waitTime > 0) {
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        return this.waitForSlot();
+        await abortableDelay(waitTime, signal);
+        return this.waitForSlot(signal);
       }
     }
 
     this.requests.push(now);
   }
 
+  /**
+   * Adopts the server-reported budget from PUBG response headers.
+   *
+   * @remarks
+   * Until the reported reset time passes, the server budget replaces the local sliding window so
+   * keys with custom limits, or keys shared across processes, are throttled by their real budget.
+   * The reported limit also becomes the local window size once the server state expires.
+   * Responses can complete out of order, so headers from an earlier window, or reporting more
+   * remaining budget than already known for the same window, are ignored as stale.
+   */
+  updateFromHeaders(headers: unknown): void {
+    const state = parseRateLimitHeaders(headers);
+    if (!state || this.isStale(state)) return;
+
+    this.maxRequests = state.limit;
+    this.server = state;
+  }
+
   getRemainingRequests(): number {
     const now = Date.now();
+    const server = this.currentServerState(now);
+    if (server) return Math.max(0, server.remaining);
+
     this.requests = this.requests.filter((time) => now - time < this.windowMs);
     return Math.max(0, this.maxRequests - this.requests.length);
   }
 
-  /** Returns the configured request limit for the active window. */
+  /** Returns the request limit for the active window, as last reported by the server if known. */
   getLimit(): number {
     return this.maxRequests;
   }
 
   getResetTime(): number {
+    const server = this.currentServerState(Date.now());
+    if (server) return server.resetAt;
+
     if (this.requests.length === 0) return 0;
 
-    const _now = Date.now();
     const oldestRequest = Math.min(...this.requests);
     return oldestRequest + this.windowMs;
   }
+
+  private isStale(state: ServerRateLimitState): boolean {
+    const current = this.currentServerState(Date.now());
+    if (!current) return false;
+
+    const drift = state.resetAt - current.resetAt;
+    if (drift <= -SAME_WINDOW_MS) return true;
+    return drift < SAME_WINDOW_MS && state.remaining > current.remaining;
+  }
+
+  private currentServerState(now: number): ServerRateLimitState | undefined {
+    if (this.server && now >= this.server.resetAt) {
+      this.server = undefined;
+    }
+
+    return this.server;
+  }
 }
@@ -1,5 +1,5 @@
 import validator from 'validator';
-import { logger } from './logger';
+import { type Logger, logger } from './logger';
 
 export interface SecurityConfig {
   enableInputValidation: boolean;
@@ -23,6 +23,25 @@ export interface SecurityEvent {
   timestamp: number;
 }
 
+/** Field names, lowercased without `-` and `_`, whose values are redacted from logs. */
+const SECRET_FIELDS = new Set([
+  'apikey',
+  'apikeys',
+  'authorization',
+  'proxyauthorization',
+  'xapikey',
+  'cookie',
+  'setcookie',
+  'password',
+  'secret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+]);
+
+const isSecretField = (name: string): boolean =>
+  SECRET_FIELDS.has(name.toLowerCase().replace(/[-_]/g, ''));
+
 /**
  * Comprehensive security utility for input validation, sanitization, and threat detection
  *
@@ -83,7 +102,13 @@ export class SecurityManager {
     /powershell/i,
   ];
 
-  constructor(config: Partial<SecurityConfig> = {}) {
+  /**
+   * @param log - Loggers for security events. Defaults to the process-wide loggers.
+   */
+  constructor(
+    config: Partial<SecurityConfig> = {},
+    private readonly log?: Logger
+  ) {
     this.config = {
       enableInputValidation: true,
       enableApiKeySanitization: true,
@@ -162,6 +187,62 @@ export class SecurityManager {
     };
   }
 
+  /**
+   * Validate PUBG account IDs, such as `account.0000a000000000000000000000000000`
+   */
+  public validateAccountId(accountId: string): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!accountId || typeof accountId !== 'string') {
+      errors.push('Account ID must be a non-empty string');
+      return { isValid: false, errors, warnings };
+    }
+
+    const sanitized = accountId.trim();
+
+    if (!/^account\.[0-9a-f]{32}$/.test(sanitized)) {
+      errors.push("Account ID must be 'account.' followed by 32 hexadecimal characters");
+    }
+
+    this.checkForSecurityThreats(sanitized, 'account_id');
+
+    return {
+      isValid: errors.length === 0,
+      sanitized,
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * Validate PUBG season IDs, such as `division.bro.official.pc-2018-01`
+   */
+  public validateSeasonId(seasonId: string): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!seasonId || typeof seasonId !== 'string') {
+      errors.push('Season ID must be a non-empty string');
+      return { isValid: false, errors, warnings };
+    }
+
+    const sanitized = seasonId.trim();
+
+    if (!/^division\.bro\.official\.[a-z0-9][a-z0-9.-]*$/i.test(sanitized)) {
+      errors.push("Season ID must start with 'division.bro.official.'");
+    }
+
+    this.checkForSecurityThreats(sanitized, 'season_id');
+
+    return {
+      isValid: errors.length === 0,
+      sanitized,
+      errors,
+      warnings,
+    };
+  }
+
   /**
    * Validate API keys securely
    */
@@ -250,6 +331,19 @@ export class SecurityManager {
     };
   }
 
+  /**
+   * Record input rejected before it reached the PUBG API
+   */
+  public recordInputRejection(field: string, errors: string[]): void {
+    this.logSecurityEvent({
+      type: 'input_validation',
+      severity: 'low',
+      message: `Invalid ${field} rejected before the request`,
+      context: { field, errors },
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Check for common security threats in input
    */
@@ -302,31 +396,20 @@ export class SecurityManager {
 
   /**
    * Sanitize sensitive data for safe logging
+   *
+   * @remarks
+   * Only the values of known secret fields, such as `apiKey`, `authorization`, and `cookie`, are
+   * replaced with `***`, at any depth. Every other value, including IDs and URLs, is kept as-is.
    */
   public sanitizeForLogging(data: any): any {
-    if (typeof data === 'string') {
-      // Mask potential API keys
-      if (data.length > 20 && /^[a-zA-Z0-9\-_]+$/.test(data)) {
-        return this.maskApiKey(data);
-      }
-
-      // Truncate long strings
-      if (data.length > 100) {
-        return `${data.substring(0, 100)}...[truncated]`;
-      }
-
-      return data;
+    if (Array.isArray(data)) {
+      return data.map((item) => this.sanitizeForLogging(item));
     }
 
-    if (typeof data === 'object' && data !== null) {
+    if (typeof data === 'object' && data !== null && !(data instanceof Date)) {
       const sanitized: any = {};
       for (const [key, value] of Object.entries(data)) {
-        // Skip sensitive fields
-        if (['apiKey', 'password', 'token', 'secret'].includes(key.toLowerCase())) {
-          sanitized[key] = '***';
-        } else {
-          sanitized[key] = this.sanitizeForLogging(value);
-        }
+        sanitized[key] = isSecretField(key) ? '***' : this.sanitizeForLogging(value);
       }
       return sanitized;
     }
@@ -348,15 +431,16 @@ export class SecurityManager {
     }
 
     // Log to system logger
+    const log = this.log ?? logger;
     if (event.severity === 'critical' || event.severity === 'high') {
-      logger.error('Security event detected', {
+      log.error('Security event detected', {
         type: event.type,
         severity: event.severity,
         message: event.message,
         context: this.sanitizeForLogging(event.context),
       });
     } else {
-      logger.client('Security event detected', {
+      log.client('Security event detected', {
         type: event.type,
         severity: event.severity,
         message: event.message,
@@ -0,0 +1,127 @@
+import { createLogger, type Logger, type PubgLogger } from './logger';
+
+/** Telemetry-cache statistics a store can report for Client Health. */
+export interface TelemetryCacheStats {
+  entries: number;
+  /** Total size of the stored compressed payloads. */
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * Asynchronous store for compressed Match Telemetry payloads keyed by match ID.
+ *
+ * @remarks
+ * Payloads are gzip-compressed JSON event arrays. Telemetry never changes once published, so
+ * entries have no TTL; stores evict by the byte size of the payloads they hold. Stores that
+ * implement `getStats()` have their statistics reported through `getHealth().telemetryCache`.
+ */
+export interface TelemetryCacheStore {
+  get(matchId: string): Promise<Uint8Array | undefined>;
+  set(matchId: string, payload: Uint8Array): Promise<void>;
+  delete(matchId: string): Promise<void>;
+  clear(): Promise<void>;
+  getStats?(): TelemetryCacheStats;
+}
+
+export interface MemoryTelemetryCacheStoreOptions {
+  /** Byte budget for stored compressed payloads. Defaults to 256 MiB. */
+  maxBytes?: number;
+  /** Destination for cache log records, usually the client's `logger`. Defaults to `debug`. */
+  logger?: PubgLogger;
+}
+
+/**
+ * Process-local telemetry-cache store with least-recently-used eviction by payload size.
+ *
+ * @remarks
+ * Payloads larger than the whole budget are not stored.
+ *
+ * @example
+ * ```ts
+ * const client = new PubgClient({
+ *   apiKey: process.env.PUBG_API_KEY!,
+ *   shard: 'steam',
+ *   telemetryCache: new MemoryTelemetryCacheStore({ maxBytes: 64 * 1024 * 1024 }),
+ * });
+ * ```
+ */
+export class MemoryTelemetryCacheStore implements TelemetryCacheStore {
+  private readonly entries = new Map<string, Uint8Array>();
+  private readonly maxBytes: number;
+  private readonly logger: Logger;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: MemoryTelemetryCacheStoreOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 256 * 1024 * 1024;
+    this.logger = createLogger(options.logger);
+  }
+
+  async get(matchId: string): Promise<Uint8Array | undefined> {
+    const payload = this.entries.get(matchId);
+    if (!payload) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-inserting moves the entry to the most recently used end of the map.
+    this.entries.delete(matchId);
+    this.entries.set(matchId, payload);
+    this.hits++;
+    return payload;
+  }
+
+  async set(matchId: string, payload: Uint8Array): Promise<void> {
+    await this.delete(matchId);
+    if (payload.byteLength > this.maxBytes) {
+      this.logger.cache('Telemetry exceeds the cache budget; not cached', {
+        matchId,
+        bytes: payload.byteLength,
+        maxBytes: this.maxBytes,
+      });
+      return;
+    }
+
+    for (const [oldestId, oldest] of this.entries) {
+      if (this.bytes + payload.byteLength <= this.maxBytes) break;
+      this.entries.delete(oldestId);
+      this.bytes -= oldest.byteLength;
+      this.logger.cache('Evicted least recently used telemetry', {
+        matchId: oldestId,
+        bytes: oldest.byteLength,
+      });
+    }
+
+    this.entries.set(matchId, payload);
+    this.bytes += payload.byteLength;
+  }
+
+  async delete(matchId: string): Promise<void> {
+    const payload = this.entries.get(matchId);
+    if (!payload) return;
+    this.entries.delete(matchId);
+    this.bytes -= payload.byteLength;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  getStats(): TelemetryCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import { addAbortSignal, PassThrough, pipeline, Readable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { promisify } from 'node:util';
+import { createGunzip, createGzip, gunzip, gzip } from 'node:zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const isGzip = (chunk: Buffer): boolean =>
+  chunk.length >= 2 && chunk[0] === 0x1f && chunk[1] === 0x8b;
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+
+const toBuffer = (chunk: unknown): Buffer =>
+  Buffer.isBuffer(chunk)
+    ? chunk
+    : chunk instanceof Uint8Array
+      ? Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      : Buffer.from(String(chunk));
+
+/**
+ * Incremental scanner for a top-level JSON array of objects.
+ *
+ * @remarks
+ * Only the element currently being read is buffered, so memory stays proportional to the largest
+ * event rather than to the whole document.
+ */
+class JsonArrayScanner {
+  private buffer = '';
+  private scanned = 0;
+  private depth = 0;
+  private elementStart = -1;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+
+  push(text: string): unknown[] {
+    this.buffer += text;
+    const elements: unknown[] = [];
+
+    for (let index = this.scanned; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+      if (char === ' ' || char === '\n' || char === '\r' || char === '\t') continue;
+      if (char === '\uFEFF' && !this.started) continue;
+      if (this.finished) throw new SyntaxError('Unexpected data after the telemetry array');
+
+      if (!this.started) {
+        if (char !== '[') throw new SyntaxError('Telemetry must be a JSON array');
+        this.started = true;
+        this.depth = 1;
+        continue;
+      }
+
+      if (this.depth === 1) {
+        if (char === ',') continue;
+        if (char === ']') {
+          this.depth = 0;
+          this.finished = true;
+          continue;
+        }
+        if (char !== '{') throw new SyntaxError('Telemetry events must be JSON objects');
+        this.elementStart = index;
+        this.depth = 2;
+        continue;
+      }
+
+      if (char === '"') this.inString = true;
+      else if (char === '{' || char === '[') this.depth++;
+      else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 1) {
+          elements.push(JSON.parse(this.buffer.slice(this.elementStart, index + 1)));
+          this.elementStart = -1;
+        }
+      }
+    }
+
+    if (this.elementStart >= 0) {
+      this.buffer = this.buffer.slice(this.elementStart);
+      this.elementStart = 0;
+    } else {
+      this.buffer = '';
+    }
+    this.scanned = this.buffer.length;
+
+    return elements;
+  }
+
+  end(): void {
+    if (!this.finished) throw new SyntaxError('Telemetry JSON array ended unexpectedly');
+  }
+}
+
+/** Decompresses gzip input, detected from its magic bytes, and passes other input through. */
+const decompressed = async function* (source: Readable): AsyncGenerator<Buffer> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+
+  const firstChunk = toBuffer(first.value);
+  const rest = async function* (): AsyncGenerator<Buffer> {
+    yield firstChunk;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield toBuffer(next.value);
+    }
+  };
+
+  if (!isGzip(firstChunk)) {
+    yield* rest();
+    return;
+  }
+
+  const gunzip = createGunzip();
+  const output = new PassThrough();
+  // pipeline destroys `output` with the first error, which ends the loop below with that error.
+  pipeline(Readable.from(rest()), gunzip, output, () => undefined);
+  for await (const chunk of output) yield chunk as Buffer;
+};
+
+/**
+ * Parses a Match Telemetry body into events as the bytes arrive.
+ *
+ * @remarks
+ * `source` may be a Node stream, a web `ReadableStream`, or any async iterable of bytes; gzip
+ * bodies are detected and decompressed. An already-parsed array, as served from a replay
+ * fixture, is yielded as-is. Aborting `signal` destroys the source and ends iteration with an
+ * `AbortError`.
+ *
+ * @internal
+ */
+export const parseTelemetryStream = async function* <T>(
+  source: unknown,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  if (Array.isArray(source)) {
+    yield* source as T[];
+    return;
+  }
+
+  const readable =
+    source instanceof Readable
+      ? source
+      : Readable.from(isAsyncIterable(source) ? source : [toBuffer(source ?? '')]);
+  if (signal) addAbortSignal(signal, readable);
+
+  const scanner = new JsonArrayScanner();
+  const decoder = new TextDecoder();
+  try {
+    for await (const chunk of decompressed(readable)) {
+      for (const event of scanner.push(decoder.decode(chunk, { stream: true }))) yield event as T;
+    }
+    for (const event of scanner.push(decoder.decode())) yield event as T;
+    scanner.end();
+  } finally {
+    readable.destroy();
+  }
+};
+
+/** Gzip-compresses a telemetry event array into a telemetry-cache payload. @internal */
+export const compressTelemetry = async (events: unknown): Promise<Buffer> =>
+  gzipAsync(JSON.stringify(events));
+
+/** Decompresses and parses a telemetry-cache payload. @internal */
+export const decompressTelemetry = async <T>(payload: Uint8Array): Promise<T> =>
+  JSON.parse((await gunzipAsync(payload)).toString('utf8')) as T;
+
+/**
+ * Compresses telemetry events into a telemetry-cache payload as they stream past.
+ *
+ * @remarks
+ * Only the compressed output is buffered, so caching a streamed download costs a fraction of the
+ * memory of collecting its events.
+ *
+ * @internal
+ */
+export class TelemetryPayloadWriter {
+  private readonly gzip = createGzip();
+  private readonly chunks: Buffer[] = [];
+  private events = 0;
+
+  constructor() {
+    this.gzip.on('data', (chunk: Buffer) => this.chunks.push(chunk));
+  }
+
+  write(event: unknown): void {
+    this.gzip.write(`${this.events++ === 0 ? '[' : ','}${JSON.stringify(event)}`);
+  }
+
+  async finish(): Promise<Buffer> {
+    this.gzip.end(this.events === 0 ? '[]' : ']');
+    await finished(this.gzip);
+    return Buffer.concat(this.chunks);
+  }
+
+  discard(): void {
+    this.gzip.destroy();
+  }
+}
@@ -0,0 +1,213 @@
+import { PubgClient } from '../../src/api/client';
+import {
+  PubgAuthenticationError,
+  PubgNetworkError,
+  PubgNotFoundError,
+  PubgRateLimitError,
+} from '../../src/errors';
+import { type StandInServer, startStandInServer } from '../../src/testing';
+
+jest.unmock('axios');
+
+describe('local stand-in server', () => {
+  let server: StandInServer;
+
+  const createClient = (overrides: { apiKey?: string } = {}): PubgClient =>
+    new PubgClient({
+      apiKey: overrides.apiKey ?? 'stand-in-key',
+      shard: 'steam',
+      baseUrl: server.url,
+      retryAttempts: 0,
+      cacheTtl: { seasons: 0 },
+    });
+
+  beforeEach(async () => {
+    server = await startStandInServer({ apiKey: 'stand-in-key', playerNames: ['chocoTaco'] });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('serves JSON:API players, matches, and season stats to the client', async () => {
+    const client = createClient();
+
+    const players = await client.players.getPlayerByName('chocoTaco');
+    const [player] = players.data;
+    expect(player.attributes.name).toBe('chocoTaco');
+    expect(player.id).toMatch(/^account\.[0-9a-f]{32}$/);
+
+    const matchId = player.relationships.matches.data[0].id;
+    const match = await client.matches.getMatch(matchId);
+    expect(match.data.id).toBe(matchId);
+    const hydrated = await client.matches.getMatch(matchId, { hydrate: true });
+    expect(hydrated.participantByAccountId(player.id)?.name).toBe('chocoTaco');
+    expect(hydrated.telemetry).toBeDefined();
+    expect(match.included).toContainEqual(
+      expect.objectContaining({
+        type: 'asset',
+        attributes: expect.objectContaining({ name: 'telemetry' }),
+      })
+    );
+
+    const [season] = (await client.seasons.getCurrentSeason()).data;
+    await expect(
+      client.players.getPlayerSeasonStats({ playerId: player.id, seasonId: season.id })
+    ).resolves.toEqual(expect.objectContaining({ data: expect.anything() }));
+  });
+
+  it('serves responses and IDs that pass strict response and input validation', async () => {
+    const client = new PubgClient({
+      apiKey: 'stand-in-key',
+      shard: 'steam',
+      baseUrl: server.url,
+      retryAttempts: 0,
+      responseValidation: 'strict',
+      inputValidation: true,
+    });
+
+    const [player] = (await client.players.getPlayerByName('chocoTaco')).data;
+    const [season] = (await client.seasons.getCurrentSeason()).data;
+    await client.matches.getMatch(player.relationships.matches.data[0].id);
+    await client.matches.getMatches({ filter: { playerIds: [player.id] } });
+    await client.players.getPlayerSeasonStats({ playerId: player.id, seasonId: season.id });
+    await client.players.getPlayerLifetimeStatsBatch({
+      gameMode: 'squad-fpp',
+      playerIds: [player.id],
+    });
+    await client.leaderboards.getLeaderboard({ seasonId: season.id, gameMode: 'squad-fpp' });
+    await expect(client.samples.getSamples()).resolves.toBeDefined();
+  });
+
+  it('pages through match lists and leaderboards with the iterators', async () => {
+    await server.close();
+    server = await startStandInServer({
+      apiKey: 'stand-in-key',
+      playerNames: ['chocoTaco', 'shroud', 'WackyJacky101'],
+      matchesPerPlayer: 2,
+    });
+    const client = createClient();
+    const [season] = (await client.seasons.getCurrentSeason()).data;
+
+    const matchIds: string[] = [];
+    for await (const match of client.matches.iterateMatches({ pageSize: 4 })) {
+      matchIds.push(match.id);
+    }
+    const names: string[] = [];
+    for await (const player of client.leaderboards.iterateLeaderboard(
+      { seasonId: season.id, gameMode: 'squad-fpp', pageSize: 2 },
+      { maxItems: 3 }
+    )) {
+      names.push(player.attributes.name);
+    }
+
+    expect(new Set(matchIds).size).toBe(6);
+    expect(names).toEqual(['chocoTaco', 'shroud', 'WackyJacky101']);
+  });
+
+  it('looks up players in bulk and reports the names it did not find', async () => {
+    const client = createClient();
+
+    const result = await client.players.getPlayersBulk({
+      playerNames: ['chocoTaco', ...Array.from({ length: 12 }, (_, index) => `missing${index}`)],
+    });
+
+    expect(result.data.map(({ attributes }) => attributes.name)).toEqual(['chocoTaco']);
+    expect(result.notFound).toHaveLength(12);
+    expect(
+      server.requests.filter(({ path }) => path.startsWith('/shards/steam/players?'))
+    ).toHaveLength(2);
+  });
+
+  it("resolves a player's recent matches with their participant rows", async () => {
+    const recent = await createClient().players.getRecentMatches('chocoTaco', { limit: 2 });
+
+    expect(recent).toHaveLength(2);
+    expect(recent.map(({ participant }) => participant.name)).toEqual(['chocoTaco', 'chocoTaco']);
+  });
+
+  it('serves Match Telemetry from the telemetry asset URL', async () => {
+    const [player] = (await createClient().players.getPlayerByName('chocoTaco')).data;
+    const telemetry = await fetch(
+      `${server.url}/telemetry/steam/${player.relationships.matches.data[0].id}.json`
+    );
+
+    await expect(telemetry.json()).resolves.toEqual([
+      expect.objectContaining({ _T: 'LogMatchStart' }),
+      expect.objectContaining({ _T: 'LogMatchEnd' }),
+    ]);
+  });
+
+  it('responds with 404 for unknown players', async () => {
+    await expect(createClient().players.getPlayerByName('nobody')).rejects.toBeInstanceOf(
+      PubgNotFoundError
+    );
+  });
+
+  it('rejects requests with a different API key', async () => {
+    await expect(createClient({ apiKey: 'other-key' }).seasons.getSeasons()).rejects.toBeInstanceOf(
+      PubgAuthenticationError
+    );
+  });
+
+  it('reports its rate-limit budget through response headers', async () => {
+    const client = createClient();
+
+    await client.seasons.getSeasons();
+
+    expect(client.getHealth().rateLimit).toEqual(
+      expect.objectContaining({ limit: 100, remaining: 99 })
+    );
+  });
+
+  it('responds with 429 once the rate-limit budget is spent', async () => {
+    await server.close();
+    server = await startStandInServer({ rateLimit: { limit: 1 } });
+    const request = () =>
+      fetch(`${server.url}/shards/steam/seasons`, {
+        headers: { Authorization: 'Bearer stand-in-key' },
+      });
+
+    await request();
+    const limited = await request();
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('x-ratelimit-remaining')).toBe('0');
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('maps injected 429 faults to rate-limit errors', async () => {
+    const client = new PubgClient({
+      apiKey: 'stand-in-key',
+      shard: 'steam',
+      baseUrl: server.url,
+      retryOnRateLimit: false,
+    });
+    server.injectFault({ status: 429, retryAfter: 2 });
+
+    const error = await client.samples.getSamples().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PubgRateLimitError);
+    expect((error as PubgRateLimitError).retryAfter).toBe(2);
+  });
+
+  it('injects faults for matching paths a limited number of times', async () => {
+    const client = createClient();
+    server.injectFault({ status: 503, path: '/seasons', times: 1 });
+
+    await expect(client.seasons.getSeasons()).rejects.toBeInstanceOf(PubgNetworkError);
+    await expect(client.seasons.getSeasons()).resolves.toEqual(
+      expect.objectContaining({ data: expect.any(Array) })
+    );
+    expect(server.requests.map(({ status }) => status)).toEqual([503, 200]);
+  });
+
+  it('never fires a fault limited to zero requests', async () => {
+    server.injectFault({ status: 503, path: '/seasons', times: 0 });
+
+    await expect(createClient().seasons.getSeasons()).resolves.toEqual(
+      expect.objectContaining({ data: expect.any(Array) })
+    );
+    expect(server.requests.map(({ status }) => status)).toEqual([200]);
+  });
+});
@@ -0,0 +1,50 @@
+import { ApiKeyPool } from '../../src/api/api-key-pool';
+import { RateLimiter } from '../../src/utils/rate-limiter';
+
+const KEYS = ['first-key-aaaaaaaa', 'second-key-bbbbbbb', 'third-key-ccccccccc'];
+
+describe('ApiKeyPool', () => {
+  it('rotates between keys with equal remaining budget', () => {
+    const pool = new ApiKeyPool(KEYS);
+
+    expect(
+      [pool.select(), pool.select(), pool.select(), pool.select()].map(({ key }) => key)
+    ).toEqual([KEYS[0], KEYS[1], KEYS[2], KEYS[0]]);
+  });
+
+  it('selects the active key with the most remaining budget', async () => {
+    const pool = new ApiKeyPool(KEYS.slice(0, 2));
+    const first = pool.select();
+    await first.rateLimiter.waitForSlot();
+    await first.rateLimiter.waitForSlot();
+    const second = pool.select();
+    await second.rateLimiter.waitForSlot();
+
+    expect(pool.select().key).toBe(KEYS[1]);
+  });
+
+  it('takes rejected keys out of rotation but keeps the last active key', () => {
+    const pool = new ApiKeyPool(KEYS.slice(0, 2));
+    const first = pool.select();
+
+    expect(pool.disable(first)).toBe(true);
+    expect(pool.select().key).toBe(KEYS[1]);
+    expect(pool.select().key).toBe(KEYS[1]);
+    expect(pool.disable(pool.select())).toBe(false);
+  });
+
+  it('reports masked per-key health and the combined budget of active keys', () => {
+    const pool = new ApiKeyPool(KEYS, () => new RateLimiter(10, 60_000));
+    pool.disable(pool.select());
+    pool.select();
+
+    const health = pool.getHealth();
+    expect(health.map(({ key, active, requests }) => ({ key, active, requests }))).toEqual([
+      { key: 'firs**********aaaa', active: false, requests: 1 },
+      { key: 'seco**********bbbb', active: true, requests: 1 },
+      { key: 'thir***********cccc', active: true, requests: 0 },
+    ]);
+    expect(JSON.stringify(health)).not.toContain('first-key');
+    expect(pool.getRateLimit()).toEqual({ remaining: 20, limit: 20, resetAt: null });
+  });
+});
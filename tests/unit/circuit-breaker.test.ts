@@ -0,0 +1,64 @@
+import { CircuitBreaker } from '../../src/api/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.parse('2026-07-13T15:00:00.000Z');
+  });
+
+  it('never opens without a configuration', () => {
+    const breaker = new CircuitBreaker(undefined, clock);
+    for (let failure = 0; failure < 100; failure++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.record({ kind: 'network_failed' });
+    }
+
+    expect(breaker.getHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 100 });
+  });
+
+  it('opens after consecutive server or network failures only', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 }, clock);
+    breaker.record({ kind: 'server_failed', statusCode: 502 });
+    breaker.record({ kind: 'request_rejected', statusCode: 404 });
+    breaker.record({ kind: 'network_failed' });
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.record({ kind: 'server_failed', statusCode: 503 });
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getRetryDelay()).toBe(30_000);
+    expect(breaker.getHealth()).toEqual({
+      state: 'open',
+      consecutiveFailures: 2,
+      openedAt: '2026-07-13T15:00:00.000Z',
+    });
+  });
+
+  it('lets one half-open probe through and reopens when it fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 5_000 }, clock);
+    breaker.record({ kind: 'network_failed' });
+
+    now += 5_000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getHealth().state).toBe('half_open');
+
+    breaker.record({ kind: 'server_failed', statusCode: 500 });
+    expect(breaker.getHealth()).toMatchObject({
+      state: 'open',
+      openedAt: '2026-07-13T15:00:05.000Z',
+    });
+  });
+
+  it('frees the half-open probe when the probe is released without an outcome', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 }, clock);
+    breaker.record({ kind: 'network_failed' });
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.release();
+
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -10,6 +10,38 @@ const cache = {
 
 const rateLimit = { remaining: 7, limit: 10, resetAt: '2026-07-13T16:00:00.000Z' };
 
+const apiKeys = [{ key: 'test****-key', active: true, requests: 3, rateLimit }];
+
+const circuitBreaker = { state: 'closed' as const, consecutiveFailures: 0, openedAt: null };
+
+const telemetryCache = {
+  entries: 2,
+  bytes: 4096,
+  maxBytes: 1_048_576,
+  hits: 1,
+  misses: 2,
+  hitRate: 1 / 3,
+};
+
+const idleLane = { queued: 0, started: 0, averageWaitMs: 0, maxWaitMs: 0 };
+
+const scheduler = {
+  maxConcurrent: 4,
+  inFlight: 1,
+  lanes: { interactive: { ...idleLane, started: 1 }, background: idleLane },
+};
+
+const runtime = {
+  responseCache: cache,
+  telemetryCache,
+  rateLimit,
+  apiKeys,
+  circuitBreaker,
+  scheduler,
+};
+
+const emptyLatency = { p50: null, p90: null, p99: null };
+
 describe('ClientHealthState', () => {
   const now = jest.fn(() => new Date('2026-07-13T15:00:00.000Z'));
 
@@ -17,25 +49,36 @@ describe('ClientHealthState', () => {
 
   it('starts unknown and redacted', () => {
     const state = new ClientHealthState(now);
-    expect(state.snapshot(cache, rateLimit)).toEqual({
+    expect(state.snapshot(runtime)).toEqual({
       status: 'unknown',
       reason: 'not_observed',
       transitionedAt: null,
       requests: { attempted: 0, succeeded: 0, failed: 0 },
+      throttling: { waits: 0, totalWaitMs: 0 },
       responseCache: cache,
+      telemetryCache,
       rateLimit,
+      apiKeys,
+      circuitBreaker,
+      scheduler,
+      windows: [
+        { windowMs: 60_000, requests: 0, failed: 0, errorRate: 0, latency: emptyLatency },
+        { windowMs: 300_000, requests: 0, failed: 0, errorRate: 0, latency: emptyLatency },
+      ],
     });
   });
 
   it.each([
     [{ kind: 'authentication_failed', statusCode: 401 }, 'unhealthy', 'authentication_failed'],
     [{ kind: 'rate_limited', statusCode: 429 }, 'degraded', 'rate_limited'],
+    [{ kind: 'throttled', statusCode: 429, waitMs: 1000 }, 'degraded', 'rate_limited'],
     [{ kind: 'network_failed' }, 'degraded', 'network_failed'],
     [{ kind: 'server_failed', statusCode: 503 }, 'degraded', 'server_failed'],
+    [{ kind: 'circuit_open' }, 'unhealthy', 'circuit_open'],
   ] as const)('maps %o to %s', (outcome, status, reason) => {
     const state = new ClientHealthState(now);
     state.record(outcome);
-    expect(state.snapshot(cache, rateLimit)).toMatchObject({
+    expect(state.snapshot(runtime)).toMatchObject({
       status,
       reason,
       transitionedAt: '2026-07-13T15:00:00.000Z',
@@ -46,18 +89,154 @@ describe('ClientHealthState', () => {
     const state = new ClientHealthState(now);
     state.record({ kind: 'authentication_failed', statusCode: 401 });
     state.record({ kind: 'cache_hit' });
-    expect(state.snapshot(cache, rateLimit).status).toBe('unhealthy');
+    expect(state.snapshot(runtime).status).toBe('unhealthy');
+    state.record({ kind: 'request_succeeded' });
+    expect(state.snapshot(runtime).status).toBe('healthy');
+  });
+
+  it('counts throttling waits separately from request attempts', () => {
+    const state = new ClientHealthState(now);
+    state.record({ kind: 'throttled', statusCode: 429, waitMs: 2000 });
+    state.record({ kind: 'throttled', statusCode: 429, waitMs: 3000 });
+    state.record({ kind: 'request_succeeded' });
+    expect(state.snapshot(runtime)).toMatchObject({
+      status: 'healthy',
+      requests: { attempted: 1, succeeded: 1, failed: 0 },
+      throttling: { waits: 2, totalWaitMs: 5000 },
+    });
+  });
+
+  it('ignores cancelled requests in counts and status', () => {
+    const state = new ClientHealthState(now);
     state.record({ kind: 'request_succeeded' });
-    expect(state.snapshot(cache, rateLimit).status).toBe('healthy');
+    state.record({ kind: 'request_cancelled' });
+    expect(state.snapshot(runtime)).toMatchObject({
+      status: 'healthy',
+      requests: { attempted: 1, succeeded: 1, failed: 0 },
+    });
   });
 
   it('counts ignored failures without changing status', () => {
     const state = new ClientHealthState(now);
     state.record({ kind: 'request_succeeded' });
     state.record({ kind: 'request_rejected', statusCode: 404 });
-    expect(state.snapshot(cache, rateLimit)).toMatchObject({
+    expect(state.snapshot(runtime)).toMatchObject({
       status: 'healthy',
       requests: { attempted: 2, succeeded: 1, failed: 1 },
     });
   });
+
+  it('emits and remembers changes of status or reason only', () => {
+    const state = new ClientHealthState(now);
+    const listener = jest.fn();
+    const remove = state.onTransition(listener);
+
+    state.record({ kind: 'request_succeeded' });
+    state.record({ kind: 'request_succeeded' });
+    state.record({ kind: 'network_failed' });
+    state.record({ kind: 'server_failed', statusCode: 503 });
+    remove();
+    state.record({ kind: 'circuit_open' });
+
+    expect(listener.mock.calls).toEqual([
+      [
+        {
+          from: 'unknown',
+          to: 'healthy',
+          previousReason: 'not_observed',
+          reason: 'request_succeeded',
+          at: '2026-07-13T15:00:00.000Z',
+        },
+      ],
+      [
+        {
+          from: 'healthy',
+          to: 'degraded',
+          previousReason: 'request_succeeded',
+          reason: 'network_failed',
+          at: '2026-07-13T15:00:00.000Z',
+        },
+      ],
+      [
+        {
+          from: 'degraded',
+          to: 'degraded',
+          previousReason: 'network_failed',
+          reason: 'server_failed',
+          statusCode: 503,
+          at: '2026-07-13T15:00:00.000Z',
+        },
+      ],
+    ]);
+    expect(state.history().transitions.map(({ to, reason }) => [to, reason])).toEqual([
+      ['healthy', 'request_succeeded'],
+      ['degraded', 'network_failed'],
+      ['degraded', 'server_failed'],
+      ['unhealthy', 'circuit_open'],
+    ]);
+  });
+
+  it('keeps listener failures from interrupting outcome recording', () => {
+    const state = new ClientHealthState(now);
+    const after = jest.fn();
+    state.onTransition(() => {
+      throw new Error('listener failed');
+    });
+    state.onTransition(after);
+
+    state.record({ kind: 'request_succeeded' });
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(state.snapshot(runtime).status).toBe('healthy');
+  });
+
+  it('keeps a bounded history of recent outcomes with durations and timestamps', () => {
+    const state = new ClientHealthState(now, { size: 2 });
+
+    state.record({ kind: 'request_succeeded' }, 120);
+    state.record({ kind: 'throttled', statusCode: 429, waitMs: 1000 });
+    state.record({ kind: 'cache_hit' });
+
+    expect(state.history().outcomes).toEqual([
+      {
+        outcome: { kind: 'throttled', statusCode: 429, waitMs: 1000 },
+        at: '2026-07-13T15:00:00.000Z',
+      },
+      { outcome: { kind: 'cache_hit' }, at: '2026-07-13T15:00:00.000Z' },
+    ]);
+  });
+
+  it('reports error rates and latency percentiles over rolling windows', () => {
+    let current = Date.parse('2026-07-13T15:00:00.000Z');
+    const state = new ClientHealthState(() => new Date(current), { windows: [10_000, 60_000] });
+
+    state.record({ kind: 'server_failed', statusCode: 503 }, 900);
+    current += 30_000;
+    for (const durationMs of [100, 200, 300, 400]) {
+      state.record({ kind: 'request_succeeded' }, durationMs);
+    }
+    state.record({ kind: 'request_rejected', statusCode: 404 }, 50);
+    state.record({ kind: 'cache_hit' });
+    state.record({ kind: 'request_cancelled' });
+
+    expect(state.snapshot(runtime).windows).toEqual([
+      {
+        windowMs: 10_000,
+        requests: 6,
+        failed: 1,
+        errorRate: 1 / 6,
+        latency: { p50: 200, p90: 400, p99: 400 },
+      },
+      {
+        windowMs: 60_000,
+        requests: 7,
+        failed: 2,
+        errorRate: 2 / 7,
+        latency: { p50: 200, p90: 900, p99: 900 },
+      },
+    ]);
+
+    current += 60_000;
+    expect(state.snapshot(runtime).windows.map(({ requests }) => requests)).toEqual([0, 0]);
+  });
 });
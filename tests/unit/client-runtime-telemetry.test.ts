@@ -1,9 +1,32 @@
 jest.unmock('axios');
 
-import { createServer } from 'node:http';
+import { createServer, type RequestListener } from 'node:http';
 import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
 import axios, { type AxiosAdapter, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
 import { ClientRuntime } from '../../src/api/client-runtime';
+import { PubgValidationError } from '../../src/errors';
+import type { LogRecord } from '../../src/utils/logger';
+import { MemoryTelemetryCacheStore } from '../../src/utils/telemetry-cache-store';
+
+const withTelemetryServer = async (
+  listener: RequestListener,
+  run: (url: string) => Promise<void>
+): Promise<void> => {
+  const server = createServer(listener);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    await run(`http://127.0.0.1:${port}/telemetry`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+};
 
 describe('ClientRuntime production telemetry adapter', () => {
   it('allows only telemetry response headers through the final adapter request', async () => {
@@ -83,4 +106,153 @@ describe('ClientRuntime production telemetry adapter', () => {
       }
     }
   });
+
+  it('streams gzip telemetry served without a Content-Encoding header', async () => {
+    const events = [{ _T: 'LogMatchStart' }, { _T: 'LogMatchEnd' }];
+
+    await withTelemetryServer(
+      (_request, response) => {
+        response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        response.end(gzipSync(JSON.stringify(events)));
+      },
+      async (url) => {
+        const runtime = new ClientRuntime({ apiKey: 'pubg-key', shard: 'steam' });
+        const streamed: unknown[] = [];
+        for await (const event of runtime.streamTelemetry(url)) streamed.push(event);
+
+        expect(streamed).toEqual(events);
+        expect(runtime.getHealth().requests).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+      }
+    );
+  });
+
+  it('rejects streamed telemetry that is not a JSON array of events', async () => {
+    await withTelemetryServer(
+      (_request, response) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end('{"errors":[]}');
+      },
+      async (url) => {
+        const runtime = new ClientRuntime({ apiKey: 'pubg-key', shard: 'steam' });
+        const consume = async () => {
+          for await (const _event of runtime.streamTelemetry(url)) {
+            // drain
+          }
+        };
+
+        await expect(consume()).rejects.toBeInstanceOf(PubgValidationError);
+      }
+    );
+  });
+});
+
+describe('ClientRuntime telemetry cache', () => {
+  const events = [{ _T: 'LogMatchStart' }, { _T: 'LogMatchEnd' }];
+
+  const countingListener = (served: { count: number }): RequestListener => {
+    return (_request, response) => {
+      served.count++;
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(events));
+    };
+  };
+
+  it('downloads telemetry once and serves later requests for the match from the cache', async () => {
+    const served = { count: 0 };
+
+    await withTelemetryServer(countingListener(served), async (url) => {
+      const runtime = new ClientRuntime({
+        apiKey: 'pubg-key',
+        shard: 'steam',
+        telemetryCache: new MemoryTelemetryCacheStore(),
+      });
+
+      await expect(runtime.fetchTelemetry(url, { matchId: 'match-1' })).resolves.toEqual(events);
+      await expect(runtime.fetchTelemetry(url, { matchId: 'match-1' })).resolves.toEqual(events);
+
+      expect(served.count).toBe(1);
+      expect(runtime.getHealth().telemetryCache).toMatchObject({
+        entries: 1,
+        hits: 1,
+        misses: 1,
+        hitRate: 0.5,
+      });
+      expect(runtime.getHealth().requests).toEqual({ attempted: 2, succeeded: 2, failed: 0 });
+    });
+  });
+
+  it('caches a fully read telemetry stream but not one the caller stopped early', async () => {
+    const served = { count: 0 };
+
+    await withTelemetryServer(countingListener(served), async (url) => {
+      const runtime = new ClientRuntime({
+        apiKey: 'pubg-key',
+        shard: 'steam',
+        telemetryCache: new MemoryTelemetryCacheStore(),
+      });
+      const collect = async (matchId: string) => {
+        const streamed: unknown[] = [];
+        for await (const event of runtime.streamTelemetry(url, { matchId })) streamed.push(event);
+        return streamed;
+      };
+
+      for await (const _event of runtime.streamTelemetry(url, { matchId: 'match-1' })) break;
+      await expect(collect('match-1')).resolves.toEqual(events);
+      await expect(collect('match-1')).resolves.toEqual(events);
+      await expect(runtime.fetchTelemetry(url, { matchId: 'match-1' })).resolves.toEqual(events);
+
+      expect(served.count).toBe(2);
+      expect(runtime.getHealth().telemetryCache).toMatchObject({ entries: 1, hits: 2 });
+    });
+  });
+
+  it('downloads streamed telemetry again when the cached payload is corrupt', async () => {
+    const served = { count: 0 };
+    const records: LogRecord[] = [];
+
+    await withTelemetryServer(countingListener(served), async (url) => {
+      const telemetryCache = new MemoryTelemetryCacheStore();
+      await telemetryCache.set('match-1', gzipSync('[{"_T":"LogMatchStart"},{"_T":'));
+      const runtime = new ClientRuntime({
+        apiKey: 'pubg-key',
+        shard: 'steam',
+        telemetryCache,
+        logger: { log: (record) => records.push(record) },
+      });
+      const collect = async () => {
+        const streamed: unknown[] = [];
+        for await (const event of runtime.streamTelemetry(url, { matchId: 'match-1' })) {
+          streamed.push(event);
+        }
+        return streamed;
+      };
+
+      await expect(collect()).resolves.toEqual(events);
+      await expect(collect()).resolves.toEqual(events);
+
+      expect(served.count).toBe(1);
+      expect(records).toContainEqual(
+        expect.objectContaining({
+          level: 'warn',
+          message: 'Discarding unreadable cached telemetry',
+          fields: expect.objectContaining({ matchId: 'match-1' }),
+        })
+      );
+    });
+  });
+
+  it('bypasses the cache when no match ID is given', async () => {
+    const served = { count: 0 };
+
+    await withTelemetryServer(countingListener(served), async (url) => {
+      const telemetryCache = new MemoryTelemetryCacheStore();
+      const runtime = new ClientRuntime({ apiKey: 'pubg-key', shard: 'steam', telemetryCache });
+
+      await runtime.fetchTelemetry(url);
+      await runtime.fetchTelemetry(url);
+
+      expect(served.count).toBe(2);
+      expect(telemetryCache.getStats()).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+    });
+  });
 });
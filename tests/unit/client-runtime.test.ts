@@ -1,6 +1,7 @@
 import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import axios from 'axios';
 import { ClientRuntime } from '../../src/api/client-runtime';
+import { InputValidator } from '../../src/api/input-validation';
 import {
   type PubgApiError,
   PubgAuthenticationError,
@@ -10,6 +11,8 @@ import {
   PubgRateLimitError,
   PubgValidationError,
 } from '../../src/errors';
+import type { ResponseCacheStore } from '../../src/utils/cache-store';
+import type { LogRecord } from '../../src/utils/logger';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -185,6 +188,116 @@ describe('ClientRuntime isolation', () => {
     expect(second.getHealth().responseCache.size).toBe(1);
   });
 
+  it('serves cached responses from a configured store and reports its statistics', async () => {
+    const entries = new Map<string, unknown>();
+    const cacheStore: ResponseCacheStore = {
+      get: jest.fn(async (key: string) => entries.get(key)) as ResponseCacheStore['get'],
+      set: jest.fn(async (key: string, value: unknown) => {
+        entries.set(key, value);
+      }),
+      delete: jest.fn(async (key: string) => {
+        entries.delete(key);
+      }),
+      clear: jest.fn(async () => entries.clear()),
+      getStats: () => ({ size: entries.size, maxSize: 50, hits: 1, misses: 1, hitRate: 0.5 }),
+    };
+    const request = jest.fn().mockResolvedValue(createResponse({ origin: 'store' }));
+    const runtime = new ClientRuntime(
+      { apiKey: 'test-key', shard: 'steam', cacheStore },
+      { request }
+    );
+
+    await runtime.get('/players');
+    await expect(runtime.get('/players')).resolves.toEqual({ origin: 'store' });
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(cacheStore.set).toHaveBeenCalledWith(expect.any(String), { origin: 'store' }, 300_000);
+    expect(runtime.getHealth().responseCache).toEqual({
+      size: 1,
+      maxSize: 50,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+
+    runtime.clearResponseCache();
+    expect(cacheStore.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs a store that fails to clear instead of rejecting', async () => {
+    const records: LogRecord[] = [];
+    const cacheStore: ResponseCacheStore = {
+      get: jest.fn(),
+      set: jest.fn(),
+      delete: jest.fn(),
+      clear: jest.fn().mockRejectedValue(new Error('read-only file system')),
+    };
+    const runtime = new ClientRuntime(
+      {
+        apiKey: 'test-key',
+        shard: 'steam',
+        cacheStore,
+        logger: { log: (record) => records.push(record) },
+      },
+      { request: jest.fn() }
+    );
+
+    expect(runtime.clearResponseCache()).toBeUndefined();
+    await new Promise(setImmediate);
+
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'warn',
+        component: 'cache',
+        message: 'Response cache clear failed',
+        fields: { error: 'read-only file system' },
+      })
+    );
+  });
+
+  it('reports empty cache statistics for stores without statistics', () => {
+    const cacheStore: ResponseCacheStore = {
+      get: jest.fn(),
+      set: jest.fn(),
+      delete: jest.fn(),
+      clear: jest.fn(),
+    };
+    const runtime = new ClientRuntime(
+      { apiKey: 'test-key', shard: 'steam', cacheStore },
+      { request: jest.fn() }
+    );
+
+    expect(runtime.getHealth().responseCache).toEqual({
+      size: 0,
+      maxSize: 0,
+      hits: 0,
+      misses: 0,
+      hitRate: 0,
+    });
+  });
+
+  it('reports the server rate-limit budget from PUBG response headers', async () => {
+    const resetAt = new Date(Math.ceil(Date.now() / 1000) * 1000 + 60_000);
+    const runtime = ClientRuntime.forTest({
+      request: jest.fn().mockResolvedValue({
+        ...createResponse({ ok: true }),
+        headers: {
+          'x-ratelimit-limit': '600',
+          'x-ratelimit-remaining': '599',
+          'x-ratelimit-reset': String(resetAt.getTime() / 1000),
+        },
+      }),
+    });
+
+    await runtime.get('/players', { useCache: false });
+
+    expect(runtime.getHealth().rateLimit).toEqual({
+      remaining: 599,
+      limit: 600,
+      resetAt: resetAt.toISOString(),
+    });
+  });
+
   it('fetches telemetry without authorization or response caching', async () => {
     const externalGet = jest.fn().mockResolvedValue({ data: [{ _T: 'LogMatchStart' }] });
     const runtime = ClientRuntime.forTest({ request: jest.fn(), externalGet });
@@ -340,6 +453,71 @@ describe('ClientRuntime isolation', () => {
       requests: { attempted: 2, succeeded: 1, failed: 1 },
     });
   });
+
+  it('sends structured, redacted request and cache records to a configured logger', async () => {
+    const records: LogRecord[] = [];
+    const runtime = new ClientRuntime(
+      {
+        apiKey: 'test-api-key-that-must-not-leak',
+        shard: 'steam',
+        logger: { log: (record) => records.push(record) },
+      },
+      { request: jest.fn().mockResolvedValue(createResponse({ data: [] })) }
+    );
+
+    await runtime.get('/shards/steam/seasons');
+    await runtime.get('/shards/steam/seasons');
+
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'debug',
+        component: 'http',
+        message: 'Completed GET request',
+        fields: {
+          endpoint: '/shards/steam/seasons',
+          shard: 'steam',
+          durationMs: expect.any(Number),
+        },
+      })
+    );
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        component: 'cache',
+        message: 'Cache hit',
+        fields: { cacheKey: expect.stringContaining('/shards/steam/seasons') },
+      })
+    );
+    expect(JSON.stringify(records)).not.toContain('test-api-key-that-must-not-leak');
+  });
+
+  it('notifies health listeners and keeps the outcome history of real requests', async () => {
+    const runtime = ClientRuntime.forTest({
+      request: jest
+        .fn()
+        .mockResolvedValueOnce(createResponse({ data: [] }))
+        .mockRejectedValueOnce(createExternalError(401)),
+    });
+    const transitions: string[] = [];
+    runtime.onHealthTransition(({ from, to }) => transitions.push(`${from}->${to}`));
+
+    await runtime.get('/players', { useCache: false });
+    await expect(runtime.get('/players', { useCache: false })).rejects.toThrow(
+      PubgAuthenticationError
+    );
+
+    expect(transitions).toEqual(['unknown->healthy', 'healthy->unhealthy']);
+    const { outcomes } = runtime.getHealthHistory();
+    expect(outcomes.map(({ outcome }) => outcome.kind)).toEqual([
+      'request_succeeded',
+      'authentication_failed',
+    ]);
+    expect(outcomes.every(({ durationMs }) => typeof durationMs === 'number')).toBe(true);
+    expect(runtime.getHealth().windows[0]).toMatchObject({
+      requests: 2,
+      failed: 1,
+      errorRate: 0.5,
+    });
+  });
 });
 
 describe('ClientRuntime construction', () => {
@@ -355,8 +533,17 @@ describe('ClientRuntime construction', () => {
     resetAxiosMock();
   });
 
-  it('creates the authenticated Axios adapter with the default PUBG API URL', () => {
-    new ClientRuntime(config);
+  it('loads axios only when the first request is sent', async () => {
+    const runtime = new ClientRuntime(config);
+    expect(mockedAxios.create).not.toHaveBeenCalled();
+
+    await runtime.get('/test', { useCache: false }).catch(() => undefined);
+
+    expect(mockedAxios.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates the authenticated Axios adapter with the default PUBG API URL', async () => {
+    await new ClientRuntime(config).get('/test', { useCache: false }).catch(() => undefined);
 
     expect(mockedAxios.create).toHaveBeenCalledWith({
       baseURL: 'https://api.pubg.com',
@@ -369,8 +556,10 @@ describe('ClientRuntime construction', () => {
     });
   });
 
-  it('uses a custom PUBG API base URL', () => {
-    new ClientRuntime({ ...config, baseUrl: 'https://custom.api.test' });
+  it('uses a custom PUBG API base URL', async () => {
+    await new ClientRuntime({ ...config, baseUrl: 'https://custom.api.test' })
+      .get('/test', { useCache: false })
+      .catch(() => undefined);
 
     expect(mockedAxios.create).toHaveBeenCalledWith(
       expect.objectContaining({ baseURL: 'https://custom.api.test' })
@@ -384,6 +573,112 @@ describe('ClientRuntime construction', () => {
     );
   });
 
+  it('accepts a pool of API keys without a primary key', () => {
+    const runtime = new ClientRuntime({
+      shard: 'steam',
+      apiKeys: ['first-api-key', 'second-api-key'],
+    });
+
+    expect(runtime.getHealth().apiKeys.map(({ key }) => key)).toEqual([
+      'firs*****-key',
+      'seco******-key',
+    ]);
+    expect(runtime.getHealth().rateLimit).toMatchObject({ remaining: 20, limit: 20 });
+  });
+
+  it('rejects empty or duplicate API key pools without exposing keys', () => {
+    expect(() => new ClientRuntime({ shard: 'steam', apiKeys: [] })).toThrow(
+      PubgConfigurationError
+    );
+    expect(() => new ClientRuntime({ shard: 'steam', apiKeys: ['valid-key', ''] })).toThrow(
+      PubgConfigurationError
+    );
+
+    const error = (() => {
+      try {
+        new ClientRuntime({ ...config, apiKeys: ['test-api-key'] });
+      } catch (caught) {
+        return caught as PubgConfigurationError;
+      }
+    })();
+    expect(error).toBeInstanceOf(PubgConfigurationError);
+    expect(JSON.stringify(error?.getDetails())).not.toContain('test-api-key');
+  });
+
+  it('rejects invalid stale response windows', () => {
+    expect(() => new ClientRuntime({ ...config, staleWhileRevalidate: -1 })).toThrow(
+      PubgConfigurationError
+    );
+    expect(() => new ClientRuntime({ ...config, staleIfError: Number.NaN })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it('rejects invalid circuit-breaker settings', () => {
+    expect(() => new ClientRuntime({ ...config, circuitBreaker: { failureThreshold: 0 } })).toThrow(
+      PubgConfigurationError
+    );
+    expect(() => new ClientRuntime({ ...config, circuitBreaker: { resetTimeout: -1 } })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it.each([
+    0,
+    1.5,
+    Number.POSITIVE_INFINITY,
+  ])('rejects an invalid concurrency limit: %p', (maxConcurrentRequests) => {
+    expect(() => new ClientRuntime({ ...config, maxConcurrentRequests })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it.each([
+    { size: -1 },
+    { size: 1.5 },
+    { windows: [0] },
+    { windows: [Number.POSITIVE_INFINITY] },
+  ])('rejects invalid health history settings: %p', (healthHistory) => {
+    expect(() => new ClientRuntime({ ...config, healthHistory })).toThrow(PubgConfigurationError);
+  });
+
+  it('rejects a logger without a log method', () => {
+    expect(() => new ClientRuntime({ ...config, logger: {} as never })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it('rejects a non-boolean input validation setting', () => {
+    expect(() => new ClientRuntime({ ...config, inputValidation: 'yes' as never })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it('records rejected input as security events of the client', () => {
+    const runtime = new ClientRuntime({ ...config, inputValidation: true });
+
+    expect(() => runtime.input.seasonId('season-1')).toThrow(PubgValidationError);
+    expect(runtime.getSecurityEvents()).toEqual([
+      expect.objectContaining({
+        type: 'input_validation',
+        context: expect.objectContaining({ field: 'seasonId' }),
+      }),
+    ]);
+    expect(new ClientRuntime(config).input).toBe(InputValidator.disabled);
+  });
+
+  it('rejects an unknown response validation mode', () => {
+    expect(() => new ClientRuntime({ ...config, responseValidation: 'warn' as never })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it('reports the configured concurrency limit in health', () => {
+    const runtime = new ClientRuntime({ ...config, maxConcurrentRequests: 4 });
+
+    expect(runtime.getHealth().scheduler).toMatchObject({ maxConcurrent: 4, inFlight: 0 });
+  });
+
   it('rejects shards outside the canonical PUBG shard set', () => {
     expect(() => new ClientRuntime({ ...config, shard: 'steam/../matches' as any })).toThrow(
       PubgConfigurationError
@@ -412,6 +707,18 @@ describe('ClientRuntime construction', () => {
     expect(() => new ClientRuntime({ ...config, retryDelay })).toThrow(PubgConfigurationError);
   });
 
+  it('rejects an invalid maximum rate-limit wait', () => {
+    expect(() => new ClientRuntime({ ...config, maxRateLimitWait: -1 })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
+  it('rejects invalid cache TTL policy entries', () => {
+    expect(() => new ClientRuntime({ ...config, cacheTtl: { matches: -1 } })).toThrow(
+      PubgConfigurationError
+    );
+  });
+
   it('performs authenticated requests through the production Axios adapter', async () => {
     const request = jest.fn().mockResolvedValue(createResponse({ test: 'data' }));
     mockedAxios.create.mockReturnValue({ request } as unknown as AxiosInstance);
@@ -39,8 +39,43 @@ describe('PubgClient', () => {
       reason: 'not_observed',
       transitionedAt: null,
       requests: { attempted: 0, succeeded: 0, failed: 0 },
+      throttling: { waits: 0, totalWaitMs: 0 },
       responseCache: { size: 0, maxSize: 1000, hits: 0, misses: 0, hitRate: 0 },
+      telemetryCache: { entries: 0, bytes: 0, maxBytes: 0, hits: 0, misses: 0, hitRate: 0 },
       rateLimit: { remaining: 10, limit: 10, resetAt: null },
+      apiKeys: [
+        {
+          key: 'test****-key',
+          active: true,
+          requests: 0,
+          rateLimit: { remaining: 10, limit: 10, resetAt: null },
+        },
+      ],
+      circuitBreaker: { state: 'closed', consecutiveFailures: 0, openedAt: null },
+      scheduler: {
+        maxConcurrent: null,
+        inFlight: 0,
+        lanes: {
+          interactive: { queued: 0, started: 0, averageWaitMs: 0, maxWaitMs: 0 },
+          background: { queued: 0, started: 0, averageWaitMs: 0, maxWaitMs: 0 },
+        },
+      },
+      windows: [
+        {
+          windowMs: 60_000,
+          requests: 0,
+          failed: 0,
+          errorRate: 0,
+          latency: { p50: null, p90: null, p99: null },
+        },
+        {
+          windowMs: 300_000,
+          requests: 0,
+          failed: 0,
+          errorRate: 0,
+          latency: { p50: null, p90: null, p99: null },
+        },
+      ],
     });
   });
 
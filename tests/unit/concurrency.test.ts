@@ -0,0 +1,94 @@
+import { chunk, mapConcurrent, mapConcurrentStream } from '../../src/utils/concurrency';
+
+describe('chunk', () => {
+  it('splits items into consecutive chunks with a shorter last chunk', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('mapConcurrent', () => {
+  it('keeps the input order with at most limit calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 0], 2, async (delay, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('starts no further calls after a call rejects', async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapConcurrent([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 2) throw new Error('failed');
+        return item;
+      })
+    ).rejects.toThrow('failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
+
+describe('mapConcurrentStream', () => {
+  const collect = async <T>(results: AsyncIterable<T>): Promise<T[]> => {
+    const collected: T[] = [];
+    for await (const result of results) collected.push(result);
+    return collected;
+  };
+
+  it('refills a slot as soon as any call settles, holding at most limit results ahead', async () => {
+    const started: number[] = [];
+
+    const results = mapConcurrentStream([60, 10, 10, 10], 2, async (delay, index) => {
+      started.push(index);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index;
+    });
+    const collected = collect(results);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(started).toEqual([0, 1, 2]);
+    await expect(collected).resolves.toEqual([0, 1, 2, 3]);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('starts no further calls once the consumer stops iterating', async () => {
+    const started: number[] = [];
+    const results = mapConcurrentStream([1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return item;
+    });
+
+    for await (const item of results) {
+      if (item === 2) break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(started).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects with the first failure in input order and starts no further calls', async () => {
+    const started: number[] = [];
+
+    await expect(
+      collect(
+        mapConcurrentStream([1, 2, 3, 4], 1, async (item) => {
+          started.push(item);
+          if (item === 2) throw new Error('failed');
+          return item;
+        })
+      )
+    ).rejects.toThrow('failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
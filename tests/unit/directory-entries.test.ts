@@ -0,0 +1,76 @@
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DirectoryEntries } from '../../src/utils/directory-entries';
+import { createLogger, type LogRecord } from '../../src/utils/logger';
+
+describe('DirectoryEntries', () => {
+  let directory: string;
+  let records: LogRecord[];
+  let entries: DirectoryEntries;
+
+  const write = (file: string, bytes: number, secondsAgo = 0) => {
+    const time = Date.now() / 1000 - secondsAgo;
+    writeFileSync(join(directory, file), Buffer.alloc(bytes));
+    utimesSync(join(directory, file), time, time);
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pubg-entries-'));
+    records = [];
+    entries = new DirectoryEntries(
+      directory,
+      '.json',
+      createLogger({ log: (record) => records.push(record) })
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('counts only files with its extension', async () => {
+    write('a.json', 10);
+    write('b.json', 5);
+    write('c.json.tmp', 7);
+
+    await entries.reconcile();
+
+    expect(entries.totals()).toEqual({ entries: 2, bytes: 15 });
+  });
+
+  it('evicts the oldest files until there is room', async () => {
+    write('old.json', 10, 30);
+    write('middle.json', 10, 20);
+    write('new.json', 10, 10);
+
+    await entries.evict(
+      ({ entries }) => entries >= 3,
+      ({ entries }) => entries <= 1
+    );
+
+    expect(readdirSync(directory)).toEqual(['new.json']);
+    expect(entries.totals()).toEqual({ entries: 1, bytes: 10 });
+    expect(
+      records.filter(({ message }) => message === 'Evicted least recently used entry')
+    ).toHaveLength(2);
+  });
+
+  it('keeps the last totals and warns when the directory cannot be scanned', async () => {
+    const path = join(directory, 'not-a-directory');
+    writeFileSync(path, '');
+    const unreadable = new DirectoryEntries(
+      path,
+      '.json',
+      createLogger({ log: (record) => records.push(record) })
+    );
+    unreadable.added(4);
+
+    await unreadable.reconcile();
+
+    expect(unreadable.totals()).toEqual({ entries: 1, bytes: 4 });
+    expect(records).toContainEqual(
+      expect.objectContaining({ level: 'warn', message: 'Unreadable cache directory' })
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import {
   PubgApiError,
   PubgAuthenticationError,
+  PubgDeadlineExceededError,
   PubgNotFoundError,
   PubgRateLimitError,
   PubgValidationError,
@@ -78,4 +79,16 @@ describe('Error Classes', () => {
       expect(error instanceof PubgApiError).toBe(true);
     });
   });
+
+  describe('PubgDeadlineExceededError', () => {
+    it('should create deadline error with the exhausted stage', () => {
+      const error = new PubgDeadlineExceededError('Deadline exceeded', 'retry_after', 5000);
+
+      expect(error.stage).toBe('retry_after');
+      expect(error.deadlineMs).toBe(5000);
+      expect(error.context.metadata).toEqual({ stage: 'retry_after', deadlineMs: 5000 });
+      expect(error.name).toBe('PubgDeadlineExceededError');
+      expect(error instanceof PubgApiError).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,213 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios from 'axios';
+import { ClientRuntime } from '../../src/api/client-runtime';
+import { createFetchTransport } from '../../src/api/fetch-transport';
+import {
+  PubgCancellationError,
+  PubgConfigurationError,
+  PubgNetworkError,
+  PubgNotFoundError,
+  PubgRateLimitError,
+} from '../../src/errors';
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/vnd.api+json', ...headers },
+  });
+
+describe('createFetchTransport', () => {
+  it('sends PUBG API requests relative to the base URL with JSON:API headers', async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValue(jsonResponse({ data: [] }, 200, { 'X-RateLimit-Remaining': '9' }));
+    const transport = createFetchTransport({ baseUrl: 'https://api.test/', timeout: 1000, fetch });
+
+    const response = await transport.request({
+      method: 'get',
+      url: '/shards/steam/seasons',
+      headers: { Authorization: 'Bearer key-1' },
+    });
+
+    expect(response).toEqual(
+      expect.objectContaining({
+        data: { data: [] },
+        status: 200,
+        headers: expect.objectContaining({ 'x-ratelimit-remaining': '9' }),
+      })
+    );
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.test/shards/steam/seasons',
+      expect.objectContaining({
+        method: 'GET',
+        headers: {
+          Accept: 'application/vnd.api+json',
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer key-1',
+        },
+      })
+    );
+  });
+
+  it('rejects non-2xx responses with the response attached', async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValue(jsonResponse({ errors: [{ detail: 'Not Found' }] }, 404));
+    const transport = createFetchTransport({ baseUrl: 'https://api.test', timeout: 1000, fetch });
+
+    await expect(transport.request({ method: 'get', url: '/missing' })).rejects.toMatchObject({
+      response: { status: 404, data: { errors: [{ detail: 'Not Found' }] } },
+    });
+  });
+
+  it('downloads telemetry without the API key', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse([{ _T: 'LogMatchStart' }]));
+    const transport = createFetchTransport({ baseUrl: 'https://api.test', timeout: 1000, fetch });
+
+    await expect(transport.externalGet('https://telemetry.test/match.json')).resolves.toEqual(
+      expect.objectContaining({ data: [{ _T: 'LogMatchStart' }] })
+    );
+    expect(fetch).toHaveBeenCalledWith(
+      'https://telemetry.test/match.json',
+      expect.objectContaining({ headers: { Accept: 'application/json' } })
+    );
+  });
+
+  it('resolves streamed telemetry with the unread body', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse([{ _T: 'LogMatchStart' }]));
+    const transport = createFetchTransport({ baseUrl: 'https://api.test', timeout: 1000, fetch });
+
+    const response = await transport.externalGet<ReadableStream<Uint8Array>>(
+      'https://telemetry.test/match.json',
+      { responseType: 'stream' }
+    );
+
+    expect(response.data).toBeInstanceOf(ReadableStream);
+    await expect(new Response(response.data).json()).resolves.toEqual([{ _T: 'LogMatchStart' }]);
+  });
+
+  it('reports timeouts with the ETIMEDOUT code', async () => {
+    const fetch = jest.fn(
+      (_input: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const transport = createFetchTransport({ baseUrl: 'https://api.test', timeout: 10, fetch });
+
+    await expect(
+      transport.request({ method: 'get', url: '/slow', timeout: 10 })
+    ).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+  });
+});
+
+describe('ClientRuntime fetch transport', () => {
+  let fetchSpy: jest.SpyInstance;
+
+  const createRuntime = () =>
+    new ClientRuntime({ apiKey: 'test-key', shard: 'steam', transport: 'fetch', retryAttempts: 0 });
+
+  beforeEach(() => {
+    (axios.create as jest.Mock).mockClear();
+    fetchSpy = jest.spyOn(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('times out PUBG API requests after the configured timeout', async () => {
+    const server = createServer(() => {
+      // Never respond.
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const runtime = new ClientRuntime({
+      apiKey: 'test-key',
+      shard: 'steam',
+      transport: 'fetch',
+      baseUrl: `http://127.0.0.1:${port}`,
+      timeout: 50,
+      retryAttempts: 0,
+    });
+
+    try {
+      await expect(runtime.get('/shards/steam/seasons')).rejects.toMatchObject({
+        name: 'PubgNetworkError',
+        context: { metadata: { timeout: 50 } },
+      });
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('routes requests through fetch instead of axios', async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({ data: [{ id: 'season-1' }] }));
+
+    await expect(createRuntime().get('/shards/steam/seasons')).resolves.toEqual({
+      data: [{ id: 'season-1' }],
+    });
+    expect(axios.create).not.toHaveBeenCalled();
+    expect(fetchSpy).toHaveBeenCalledWith(
+      'https://api.pubg.com/shards/steam/seasons',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer test-key' }),
+      })
+    );
+  });
+
+  it('classifies HTTP failures like the axios transport', async () => {
+    const runtime = createRuntime();
+    fetchSpy
+      .mockResolvedValueOnce(jsonResponse({ errors: [{ detail: 'Not Found' }] }, 404))
+      .mockResolvedValueOnce(jsonResponse({ errors: [] }, 429, { 'Retry-After': '30' }));
+
+    await expect(runtime.get('/shards/steam/players/missing')).rejects.toBeInstanceOf(
+      PubgNotFoundError
+    );
+    await expect(runtime.get('/shards/steam/seasons')).rejects.toMatchObject({
+      constructor: PubgRateLimitError,
+      retryAfter: 30,
+    });
+    expect(runtime.getHealth().requests).toEqual({ attempted: 2, succeeded: 0, failed: 2 });
+  });
+
+  it('classifies connection failures by their cause code', async () => {
+    fetchSpy.mockRejectedValue(
+      Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } })
+    );
+
+    await expect(createRuntime().get('/shards/steam/seasons')).rejects.toMatchObject({
+      constructor: PubgNetworkError,
+      networkOperation: 'connect',
+    });
+  });
+
+  it('rejects aborted requests with PubgCancellationError', async () => {
+    const controller = new AbortController();
+    fetchSpy.mockImplementation(
+      (_input: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          controller.abort();
+        })
+    );
+
+    await expect(
+      createRuntime().get('/shards/steam/seasons', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(PubgCancellationError);
+  });
+
+  it('rejects unknown transports', () => {
+    expect(
+      () =>
+        new ClientRuntime({
+          apiKey: 'test-key',
+          shard: 'steam',
+          transport: 'xhr' as unknown as 'fetch',
+        })
+    ).toThrow(PubgConfigurationError);
+  });
+});
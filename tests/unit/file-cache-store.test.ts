@@ -0,0 +1,144 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemCacheStore } from '../../src/utils/file-cache-store';
+import type { LogRecord } from '../../src/utils/logger';
+
+/** Stats after recounting the directory. */
+const countedStats = async (store: FileSystemCacheStore) => {
+  await store.reconcile();
+  return store.getStats();
+};
+
+/** Backdates the file holding `key`, which orders entries for eviction. */
+const backdate = (directory: string, key: string, seconds: number) => {
+  const time = Date.now() / 1000 - seconds;
+  const digest = createHash('sha256').update(key).digest('hex');
+  utimesSync(join(directory, `${digest}.json`), time, time);
+};
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pubg-cache-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('shares entries between store instances using the same directory', async () => {
+    const writer = new FileSystemCacheStore({ directory });
+    const reader = new FileSystemCacheStore({ directory });
+
+    await writer.set('http:GET:/shards/steam/players', { data: [{ id: 'account.1' }] }, 60_000);
+
+    await expect(reader.get('http:GET:/shards/steam/players')).resolves.toEqual({
+      data: [{ id: 'account.1' }],
+    });
+    await expect(countedStats(reader)).resolves.toEqual({
+      size: 1,
+      maxSize: 10_000,
+      hits: 1,
+      misses: 0,
+      hitRate: 1,
+    });
+  });
+
+  it('treats missing and expired entries as misses and removes expired files', async () => {
+    jest.useFakeTimers({ now: new Date('2026-07-13T15:00:00.000Z'), doNotFake: ['setImmediate'] });
+    const store = new FileSystemCacheStore({ directory });
+
+    await expect(store.get('missing')).resolves.toBeUndefined();
+    await store.set('expiring', 'value', 1000);
+    jest.setSystemTime(new Date('2026-07-13T15:00:01.000Z'));
+
+    await expect(store.get('expiring')).resolves.toBeUndefined();
+    expect(store.getStats()).toMatchObject({ size: 0, hits: 0, misses: 2 });
+  });
+
+  it('evicts the oldest entry when the directory is full', async () => {
+    const store = new FileSystemCacheStore({ directory, maxSize: 2 });
+
+    await store.set('first', 1, 60_000);
+    await store.set('second', 2, 60_000);
+    backdate(directory, 'first', 20);
+    backdate(directory, 'second', 10);
+    await store.set('third', 3, 60_000);
+
+    await expect(store.get('first')).resolves.toBeUndefined();
+    await expect(store.get('second')).resolves.toBe(2);
+    await expect(store.get('third')).resolves.toBe(3);
+  });
+
+  it('overwrites an existing key in a full store without evicting another entry', async () => {
+    const store = new FileSystemCacheStore({ directory, maxSize: 2 });
+    await store.set('first', 1, 60_000);
+    await store.set('second', 2, 60_000);
+
+    await store.set('first', 10, 60_000);
+
+    await expect(store.get('first')).resolves.toBe(10);
+    await expect(store.get('second')).resolves.toBe(2);
+    expect(store.getStats().size).toBe(2);
+  });
+
+  it('logs to the configured logger with the cache key and file path as fields', async () => {
+    const records: LogRecord[] = [];
+    const store = new FileSystemCacheStore({
+      directory,
+      logger: { log: (record) => records.push(record) },
+    });
+
+    await store.set('http:GET:/shards/steam/seasons:{}', { data: [] }, 60_000);
+
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        component: 'cache',
+        message: 'Set cache entry',
+        fields: {
+          cacheKey: 'http:GET:/shards/steam/seasons:{}',
+          path: join(directory, readdirSync(directory)[0]),
+          ttl: 60_000,
+        },
+      })
+    );
+  });
+
+  it('deletes and clears only its own entry files', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    await store.set('one', 1, 60_000);
+    await store.set('two', 2, 60_000);
+
+    await store.delete('one');
+    await expect(store.get('one')).resolves.toBeUndefined();
+
+    await store.clear();
+    expect(readdirSync(directory)).toEqual([]);
+    expect(store.getStats().size).toBe(0);
+  });
+
+  it('reports an empty store before the directory exists', async () => {
+    const store = new FileSystemCacheStore({ directory: join(directory, 'not-created') });
+
+    await expect(countedStats(store)).resolves.toMatchObject({ size: 0 });
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+
+  it('reports the last known size when the directory cannot be listed', async () => {
+    const path = join(directory, 'not-a-directory');
+    writeFileSync(path, '');
+    const store = new FileSystemCacheStore({ directory: path });
+
+    await expect(countedStats(store)).resolves.toEqual({
+      size: 0,
+      maxSize: 10_000,
+      hits: 0,
+      misses: 0,
+      hitRate: 0,
+    });
+  });
+});
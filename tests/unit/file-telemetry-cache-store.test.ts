@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemTelemetryCacheStore } from '../../src/utils/file-telemetry-cache-store';
+
+const payload = (bytes: number, fill = 1): Uint8Array => new Uint8Array(bytes).fill(fill);
+
+/** Stats after rescanning the directory. */
+const countedStats = async (store: FileSystemTelemetryCacheStore) => {
+  await store.reconcile();
+  return store.getStats();
+};
+
+/** Backdates the file holding `matchId`, which orders entries for eviction. */
+const backdate = (directory: string, matchId: string, seconds: number) => {
+  const time = Date.now() / 1000 - seconds;
+  const digest = createHash('sha256').update(matchId).digest('hex');
+  utimesSync(join(directory, `${digest}.json.gz`), time, time);
+};
+
+describe('FileSystemTelemetryCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pubg-telemetry-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('shares payloads between store instances using the same directory', async () => {
+    const writer = new FileSystemTelemetryCacheStore({ directory });
+    const reader = new FileSystemTelemetryCacheStore({ directory });
+
+    await writer.set('match-1', payload(32));
+
+    await expect(reader.get('match-1')).resolves.toEqual(Buffer.from(payload(32)));
+    await expect(reader.get('match-2')).resolves.toBeUndefined();
+    await expect(countedStats(reader)).resolves.toEqual({
+      entries: 1,
+      bytes: 32,
+      maxBytes: 1024 * 1024 * 1024,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('evicts the least recently used files until the new payload fits the byte budget', async () => {
+    const store = new FileSystemTelemetryCacheStore({ directory, maxBytes: 100 });
+    await store.set('match-1', payload(40, 1));
+    await store.set('match-2', payload(40, 2));
+    backdate(directory, 'match-1', 20);
+    backdate(directory, 'match-2', 10);
+    await store.get('match-1');
+
+    await store.set('match-3', payload(40, 3));
+
+    await expect(store.get('match-2')).resolves.toBeUndefined();
+    await expect(store.get('match-1')).resolves.toEqual(Buffer.from(payload(40, 1)));
+    expect(store.getStats()).toMatchObject({ entries: 2, bytes: 80 });
+  });
+
+  it('overwrites a cached match in a full store without evicting another entry', async () => {
+    const store = new FileSystemTelemetryCacheStore({ directory, maxBytes: 100 });
+    await store.set('match-1', payload(50, 1));
+    await store.set('match-2', payload(50, 2));
+    backdate(directory, 'match-1', 10);
+
+    await store.set('match-2', payload(50, 3));
+
+    await expect(store.get('match-1')).resolves.toEqual(Buffer.from(payload(50, 1)));
+    await expect(store.get('match-2')).resolves.toEqual(Buffer.from(payload(50, 3)));
+    expect(store.getStats()).toMatchObject({ entries: 2, bytes: 100 });
+  });
+
+  it('reports the last known totals when the directory cannot be scanned', async () => {
+    const path = join(directory, 'not-a-directory');
+    writeFileSync(path, '');
+    const store = new FileSystemTelemetryCacheStore({ directory: path });
+
+    await expect(countedStats(store)).resolves.toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('skips payloads larger than the budget and clears only its entry files', async () => {
+    const store = new FileSystemTelemetryCacheStore({ directory, maxBytes: 100 });
+    await store.set('match-1', payload(101));
+    await store.set('match-2', payload(10));
+
+    expect(store.getStats()).toMatchObject({ entries: 1, bytes: 10 });
+
+    await store.clear();
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
@@ -1,16 +1,23 @@
 import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { ApiKeyPool } from '../../src/api/api-key-pool';
+import { CircuitBreaker } from '../../src/api/circuit-breaker';
 import { HttpTransactionRunner } from '../../src/api/http-transaction';
+import { MiddlewareChain } from '../../src/api/middleware';
+import { RequestScheduler } from '../../src/api/request-scheduler';
 import {
   PubgApiError,
   PubgAuthenticationError,
   PubgCacheError,
+  PubgCancellationError,
+  PubgConfigurationError,
   PubgNetworkError,
   PubgNotFoundError,
   PubgRateLimitError,
   PubgValidationError,
 } from '../../src/errors';
 import type { PubgClientConfig } from '../../src/types/api';
-import { MemoryCache } from '../../src/utils/cache';
+import { MemoryCacheStore } from '../../src/utils/cache-store';
+import { createLogger, type Logger, type LogRecord } from '../../src/utils/logger';
 import { RateLimiter } from '../../src/utils/rate-limiter';
 import { RequestDeduplicator } from '../../src/utils/request';
 
@@ -45,18 +52,29 @@ const createError = (status?: number, code?: string) => ({
 const createRunner = (
   request: jest.Mock<Promise<AxiosResponse>, [AxiosRequestConfig]>,
   overrides: Partial<PubgClientConfig> = {},
-  dependencies: { cache?: MemoryCache; externalGet?: jest.Mock } = {}
+  dependencies: {
+    cache?: MemoryCacheStore;
+    circuitBreaker?: CircuitBreaker;
+    externalGet?: jest.Mock;
+    logger?: Logger;
+    middleware?: MiddlewareChain;
+    scheduler?: RequestScheduler;
+  } = {}
 ) => {
   const rateLimiter = new RateLimiter(100, 60_000);
   const waitForSlot = jest.spyOn(rateLimiter, 'waitForSlot');
   const recordOutcome = jest.fn();
   const runner = new HttpTransactionRunner({
-    cache: dependencies.cache ?? new MemoryCache(),
-    config: { retryAttempts: 0, retryDelay: 0, timeout: 5000, ...overrides },
+    apiKeys: new ApiKeyPool(['test-api-key'], () => rateLimiter),
+    cache: dependencies.cache ?? new MemoryCacheStore(),
+    circuitBreaker: dependencies.circuitBreaker ?? new CircuitBreaker(),
+    config: { shard: 'steam', retryAttempts: 0, retryDelay: 0, timeout: 5000, ...overrides },
     deduplicator: new RequestDeduplicator(),
+    middleware: dependencies.middleware ?? new MiddlewareChain(),
+    scheduler: dependencies.scheduler ?? new RequestScheduler(),
+    logger: dependencies.logger ?? createLogger(),
     externalGet: dependencies.externalGet ?? jest.fn(),
-    rateLimiter,
-    recordOutcome,
+    recordOutcome: (outcome) => recordOutcome(outcome),
     request,
   });
 
@@ -98,6 +116,181 @@ describe('HttpTransactionRunner', () => {
     expect(recordOutcome).toHaveBeenCalledTimes(2);
   });
 
+  it.each([
+    ['matches', 24 * 60 * 60 * 1000],
+    ['players', 60 * 1000],
+    ['seasons', 60 * 1000],
+    ['leaderboards', 5 * 60 * 1000],
+  ] as const)('caches %s responses for the default policy TTL', async (cacheKind, ttl) => {
+    const cache = new MemoryCacheStore();
+    const set = jest.spyOn(cache, 'set');
+    const request = jest.fn().mockResolvedValue(createResponse({ value: cacheKind }));
+    const { runner } = createRunner(request, {}, { cache });
+
+    await runner.get('/resource', { cacheKind });
+
+    expect(set).toHaveBeenCalledWith(expect.any(String), { value: cacheKind }, ttl);
+  });
+
+  it('prefers per-call TTLs over the configured policy and the configured policy over defaults', async () => {
+    const cache = new MemoryCacheStore();
+    const set = jest.spyOn(cache, 'set');
+    const request = jest.fn().mockResolvedValue(createResponse({ value: 'ok' }));
+    const { runner } = createRunner(request, { cacheTtl: { matches: 7_000 } }, { cache });
+
+    await runner.get('/matches/one', { cacheKind: 'matches' });
+    await runner.get('/matches/two', { cacheKind: 'matches', cacheTtl: 3_000 });
+
+    expect(set.mock.calls.map(([, , ttl]) => ttl)).toEqual([7_000, 3_000]);
+  });
+
+  it('bypasses the response cache when the effective TTL is zero', async () => {
+    const request = jest.fn().mockResolvedValue(createResponse({ value: 'fresh' }));
+    const { recordOutcome, runner } = createRunner(request, { cacheTtl: { seasons: 0 } });
+
+    await runner.get('/seasons', { cacheKind: 'seasons' });
+    await runner.get('/seasons', { cacheKind: 'seasons' });
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(recordOutcome).not.toHaveBeenCalledWith({ kind: 'cache_hit' });
+  });
+
+  it('rejects invalid per-call cache TTLs before requesting', async () => {
+    const request = jest.fn();
+    const { runner } = createRunner(request);
+
+    await expect(runner.get('/players', { cacheTtl: -1 })).rejects.toThrow(PubgConfigurationError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('rejects responses that do not match their schema in strict mode without caching them', async () => {
+    const drifted = { data: [{ type: 'season', id: 'season-1', attributes: { isOffseason: 0 } }] };
+    const request = jest.fn().mockResolvedValue(createResponse(drifted));
+    const { runner } = createRunner(request, { responseValidation: 'strict' });
+
+    await expect(runner.get('/seasons', { cacheKind: 'seasons' })).rejects.toMatchObject({
+      name: 'PubgValidationError',
+      message:
+        'Response from /seasons does not match the seasons schema at $.data[0].attributes.isCurrentSeason: expected boolean, received undefined',
+      context: {
+        metadata: {
+          path: '$.data[0].attributes.isCurrentSeason',
+          endpointKind: 'seasons',
+          issueCount: 2,
+        },
+      },
+    });
+    await expect(runner.get('/seasons', { cacheKind: 'seasons' })).rejects.toThrow(
+      PubgValidationError
+    );
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs schema drift and returns the response in lenient mode', async () => {
+    const drifted = { data: [{ type: 'season', id: 'season-1', attributes: { isOffseason: 0 } }] };
+    const records: LogRecord[] = [];
+    const request = jest.fn().mockResolvedValue(createResponse(drifted));
+    const { runner } = createRunner(
+      request,
+      { responseValidation: 'lenient' },
+      { logger: createLogger({ log: (record) => records.push(record) }) }
+    );
+
+    await expect(runner.get('/seasons', { cacheKind: 'seasons' })).resolves.toEqual(drifted);
+    await expect(runner.get('/seasons', { cacheKind: 'seasons' })).resolves.toEqual(drifted);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(records.filter(({ level }) => level === 'warn')).toEqual([
+      expect.objectContaining({
+        component: 'http',
+        message: 'Response does not match its schema',
+        fields: expect.objectContaining({
+          endpoint: '/seasons',
+          endpointKind: 'seasons',
+          issueCount: 2,
+          issues: [
+            {
+              path: '$.data[0].attributes.isCurrentSeason',
+              expected: 'boolean',
+              received: 'undefined',
+            },
+            { path: '$.data[0].attributes.isOffseason', expected: 'boolean', received: 'number' },
+          ],
+        }),
+      }),
+    ]);
+  });
+
+  it('serves stale entries while one deduplicated background request refreshes them', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-07-13T15:00:00.000Z') });
+    const request = jest
+      .fn()
+      .mockResolvedValueOnce(createResponse({ value: 'first' }))
+      .mockResolvedValueOnce(createResponse({ value: 'refreshed' }));
+    const cache = new MemoryCacheStore();
+    const setEntry = jest.spyOn(cache, 'set');
+    const { recordOutcome, runner } = createRunner(
+      request,
+      { staleWhileRevalidate: 30_000 },
+      { cache }
+    );
+
+    await runner.get('/leaderboards', { cacheTtl: 60_000 });
+    expect(setEntry).toHaveBeenCalledWith(
+      expect.any(String),
+      { staleable: true, data: { value: 'first' }, freshUntil: Date.now() + 60_000 },
+      90_000
+    );
+
+    jest.advanceTimersByTime(70_000);
+    await expect(
+      Promise.all([
+        runner.get('/leaderboards', { cacheTtl: 60_000 }),
+        runner.get('/leaderboards', { cacheTtl: 60_000 }),
+      ])
+    ).resolves.toEqual([{ value: 'first' }, { value: 'first' }]);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    await expect(runner.get('/leaderboards', { cacheTtl: 60_000 })).resolves.toEqual({
+      value: 'refreshed',
+    });
+    expect(recordOutcome.mock.calls.map(([outcome]) => outcome.kind)).toEqual([
+      'request_succeeded',
+      'cache_hit',
+      'cache_hit',
+      'request_succeeded',
+      'cache_hit',
+    ]);
+  });
+
+  it('serves stale entries when a refresh fails because the API is unavailable', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-07-13T15:00:00.000Z') });
+    const request = jest
+      .fn()
+      .mockResolvedValueOnce(createResponse({ value: 'cached' }))
+      .mockRejectedValueOnce(createError(503))
+      .mockRejectedValueOnce(createError(404))
+      .mockRejectedValueOnce(createError(503));
+    const { recordOutcome, runner } = createRunner(request, { staleIfError: 60_000 });
+
+    await runner.get('/leaderboards', { cacheTtl: 60_000 });
+    jest.advanceTimersByTime(90_000);
+
+    await expect(runner.get('/leaderboards', { cacheTtl: 60_000 })).resolves.toEqual({
+      value: 'cached',
+    });
+    await expect(runner.get('/leaderboards', { cacheTtl: 60_000 })).rejects.toThrow(
+      PubgNotFoundError
+    );
+    expect(recordOutcome).toHaveBeenCalledWith({ kind: 'server_failed', statusCode: 503 });
+
+    jest.advanceTimersByTime(31_000);
+    await expect(runner.get('/leaderboards', { cacheTtl: 60_000 })).rejects.toThrow(
+      PubgNetworkError
+    );
+  });
+
   it('deduplicates concurrent GET misses for the same cache key', async () => {
     let resolveRequest: (response: AxiosResponse) => void = () => {};
     const request: jest.Mock<Promise<AxiosResponse>, [AxiosRequestConfig]> = jest.fn(
@@ -121,6 +314,238 @@ describe('HttpTransactionRunner', () => {
     expect(recordOutcome).toHaveBeenCalledTimes(1);
   });
 
+  it('does not share signal-bearing GETs with concurrent callers', async () => {
+    const request = jest.fn().mockResolvedValue(createResponse({ value: 'fresh' }));
+    const { runner } = createRunner(request);
+    const controller = new AbortController();
+
+    await Promise.all([
+      runner.get('/players', { signal: controller.signal }),
+      runner.get('/players'),
+    ]);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects already-aborted calls before reading the cache or requesting', async () => {
+    const request = jest.fn();
+    const cache = new MemoryCacheStore();
+    const cacheGet = jest.spyOn(cache, 'get');
+    const { recordOutcome, runner } = createRunner(request, {}, { cache });
+
+    await expect(runner.get('/players', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+      PubgCancellationError
+    );
+    expect(cacheGet).not.toHaveBeenCalled();
+    expect(request).not.toHaveBeenCalled();
+    expect(recordOutcome).not.toHaveBeenCalled();
+  });
+
+  it('cancels an in-flight request and records it as cancelled rather than failed', async () => {
+    const controller = new AbortController();
+    const request = jest.fn(
+      (config: AxiosRequestConfig) =>
+        new Promise<AxiosResponse>((_resolve, reject) => {
+          config.signal?.addEventListener?.('abort', () =>
+            reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED', config }))
+          );
+        })
+    );
+    const { recordOutcome, runner } = createRunner(request, { retryAttempts: 3 });
+
+    const result = runner.get('/players', { signal: controller.signal });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(PubgCancellationError);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0].signal).toBe(controller.signal);
+    expect(recordOutcome.mock.calls).toEqual([[{ kind: 'request_cancelled' }]]);
+  });
+
+  it('queues requests beyond the concurrency limit by priority without sending the lane', async () => {
+    const pending: Array<() => void> = [];
+    const request = jest.fn(
+      (config: AxiosRequestConfig) =>
+        new Promise<AxiosResponse>((resolve) => {
+          pending.push(() => resolve(createResponse({ url: config.url })));
+        })
+    );
+    const scheduler = new RequestScheduler(1);
+    const { runner } = createRunner(request, {}, { scheduler });
+
+    const first = runner.get('/first', { useCache: false, priority: 'background' });
+    const backfill = runner.get('/backfill', { useCache: false, priority: 'background' });
+    const lookup = runner.get('/lookup', { useCache: false });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(scheduler.getHealth().lanes).toMatchObject({
+      interactive: { queued: 1 },
+      background: { queued: 1 },
+    });
+
+    pending.shift()!();
+    await first;
+    await new Promise((resolve) => setImmediate(resolve));
+    pending.shift()!();
+    await lookup;
+    await new Promise((resolve) => setImmediate(resolve));
+    pending.shift()!();
+    await backfill;
+
+    expect(request.mock.calls.map(([config]) => config.url)).toEqual([
+      '/first',
+      '/lookup',
+      '/backfill',
+    ]);
+    expect(request.mock.calls[0][0]).not.toHaveProperty('priority');
+  });
+
+  it('records a request cancelled while queued for a slot as cancelled', async () => {
+    const scheduler = new RequestScheduler(1);
+    const controller = new AbortController();
+    const request = jest.fn();
+    const { recordOutcome, runner } = createRunner(request, {}, { scheduler });
+    const release = await scheduler.acquire();
+
+    const result = runner.get('/players', { useCache: false, signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(PubgCancellationError);
+    release();
+    expect(request).not.toHaveBeenCalled();
+    expect(recordOutcome.mock.calls).toEqual([[{ kind: 'request_cancelled' }]]);
+  });
+
+  it('cancels retry backoff and Retry-After waits', async () => {
+    jest.useFakeTimers();
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(502))
+      .mockRejectedValueOnce(createError(429));
+    const { recordOutcome, runner } = createRunner(request, {
+      retryAttempts: 1,
+      retryDelay: 10_000,
+      retryOnRateLimit: true,
+      maxRateLimitWait: 300_000,
+    });
+    const backoff = new AbortController();
+    const rateLimitWait = new AbortController();
+
+    const duringBackoff = runner.get('/players', { signal: backoff.signal });
+    const backoffAssertion = expect(duringBackoff).rejects.toBeInstanceOf(PubgCancellationError);
+    await jest.advanceTimersByTimeAsync(1_000);
+    backoff.abort();
+    await backoffAssertion;
+
+    const duringRateLimitWait = runner.get('/players', { signal: rateLimitWait.signal });
+    const rateLimitAssertion =
+      expect(duringRateLimitWait).rejects.toBeInstanceOf(PubgCancellationError);
+    await jest.advanceTimersByTimeAsync(1_000);
+    rateLimitWait.abort();
+    await rateLimitAssertion;
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(recordOutcome.mock.calls).toEqual([
+      [{ kind: 'request_cancelled' }],
+      [{ kind: 'throttled', statusCode: 429, waitMs: 120_000 }],
+      [{ kind: 'request_cancelled' }],
+    ]);
+  });
+
+  it('fails with the stage that exhausted a deadline shared across retries and Retry-After waits', async () => {
+    jest.useFakeTimers();
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(502))
+      .mockRejectedValueOnce(createError(429));
+    const { recordOutcome, runner } = createRunner(request, {
+      retryAttempts: 1,
+      retryDelay: 10_000,
+      retryOnRateLimit: true,
+      maxRateLimitWait: 300_000,
+    });
+    const deadline = (budgetMs: number) => ({ at: Date.now() + budgetMs, budgetMs });
+
+    const duringBackoff = runner.get('/players', { deadline: deadline(5_000) });
+    const backoffAssertion = expect(duringBackoff).rejects.toMatchObject({
+      name: 'PubgDeadlineExceededError',
+      message: 'Deadline of 5000ms exceeded during retry_backoff',
+      stage: 'retry_backoff',
+      deadlineMs: 5_000,
+    });
+    await jest.advanceTimersByTimeAsync(5_000);
+    await backoffAssertion;
+
+    const duringRateLimitWait = runner.get('/players', { deadline: deadline(60_000) });
+    const rateLimitAssertion = expect(duringRateLimitWait).rejects.toMatchObject({
+      stage: 'retry_after',
+    });
+    await jest.advanceTimersByTimeAsync(60_000);
+    await rateLimitAssertion;
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(recordOutcome.mock.calls).toEqual([
+      [{ kind: 'request_cancelled' }],
+      [{ kind: 'throttled', statusCode: 429, waitMs: 120_000 }],
+      [{ kind: 'request_cancelled' }],
+    ]);
+  });
+
+  it('aborts an in-flight request at its deadline and keeps caller cancellation distinct', async () => {
+    const request = jest.fn(
+      (config: AxiosRequestConfig) =>
+        new Promise<AxiosResponse>((_resolve, reject) => {
+          config.signal?.addEventListener?.('abort', () =>
+            reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }))
+          );
+        })
+    );
+    const { runner } = createRunner(request);
+    const controller = new AbortController();
+
+    await expect(
+      runner.get('/players', { deadline: { at: Date.now() + 20, budgetMs: 20 } })
+    ).rejects.toMatchObject({ name: 'PubgDeadlineExceededError', stage: 'request' });
+
+    const cancelled = runner.get('/players', {
+      signal: controller.signal,
+      deadline: { at: Date.now() + 60_000, budgetMs: 60_000 },
+    });
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(PubgCancellationError);
+    await expect(cancelled).rejects.not.toHaveProperty('stage');
+  });
+
+  it('records the duration of requests that reach the network but not of cache hits', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-07-13T15:00:00.000Z') });
+    const recordOutcome = jest.fn();
+    const request = jest.fn(async () => {
+      jest.setSystemTime(Date.now() + 250);
+      return createResponse({ value: 'ok' });
+    });
+    const runner = new HttpTransactionRunner({
+      apiKeys: new ApiKeyPool(['test-api-key'], () => new RateLimiter(100, 60_000)),
+      cache: new MemoryCacheStore(),
+      circuitBreaker: new CircuitBreaker(),
+      config: { shard: 'steam' },
+      deduplicator: new RequestDeduplicator(),
+      middleware: new MiddlewareChain(),
+      scheduler: new RequestScheduler(),
+      logger: createLogger(),
+      externalGet: jest.fn(),
+      recordOutcome,
+      request,
+    });
+
+    await runner.get('/players');
+    await runner.get('/players');
+
+    expect(recordOutcome.mock.calls).toEqual([
+      [{ kind: 'request_succeeded' }, 250],
+      [{ kind: 'cache_hit' }],
+    ]);
+  });
+
   it('records only the final successful outcome after a retry', async () => {
     const request = jest
       .fn()
@@ -171,6 +596,127 @@ describe('HttpTransactionRunner', () => {
     expect(recordOutcome).toHaveBeenCalledWith(outcome);
   });
 
+  it('feeds rate-limit headers from failed responses back into the rate limiter', async () => {
+    const request = jest.fn().mockRejectedValue({
+      ...createError(429),
+      response: {
+        data: {},
+        headers: {
+          'retry-after': '30',
+          'x-ratelimit-limit': '10',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(Math.ceil(Date.now() / 1000) + 30),
+        },
+        status: 429,
+      },
+    });
+    const rateLimiter = new RateLimiter(100, 60_000);
+    const runner = new HttpTransactionRunner({
+      apiKeys: new ApiKeyPool(['test-api-key'], () => rateLimiter),
+      cache: new MemoryCacheStore(),
+      circuitBreaker: new CircuitBreaker(),
+      config: { shard: 'steam' },
+      deduplicator: new RequestDeduplicator(),
+      middleware: new MiddlewareChain(),
+      scheduler: new RequestScheduler(),
+      logger: createLogger(),
+      externalGet: jest.fn(),
+      recordOutcome: jest.fn(),
+      request,
+    });
+
+    await expect(runner.get('/players', { useCache: false })).rejects.toThrow(PubgRateLimitError);
+    expect(rateLimiter.getLimit()).toBe(10);
+    expect(rateLimiter.getRemainingRequests()).toBe(0);
+  });
+
+  it('waits for Retry-After and retries rate-limited requests when enabled', async () => {
+    jest.useFakeTimers();
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(429))
+      .mockResolvedValueOnce(createResponse({ value: 'after-wait' }));
+    const { recordOutcome, runner } = createRunner(request, {
+      retryOnRateLimit: true,
+      maxRateLimitWait: 300_000,
+    });
+
+    const result = runner.get('/players', { useCache: false });
+    await jest.advanceTimersByTimeAsync(119_000);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    await expect(result).resolves.toEqual({ value: 'after-wait' });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(recordOutcome.mock.calls).toEqual([
+      [{ kind: 'throttled', statusCode: 429, waitMs: 120_000 }],
+      [{ kind: 'request_succeeded' }],
+    ]);
+  });
+
+  it('throws the rate-limit error when Retry-After exceeds the maximum wait', async () => {
+    const request = jest.fn().mockRejectedValue(createError(429));
+    const { recordOutcome, runner } = createRunner(request, {
+      retryOnRateLimit: true,
+      maxRateLimitWait: 60_000,
+    });
+
+    await expect(runner.get('/players', { useCache: false })).rejects.toBeInstanceOf(
+      PubgRateLimitError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(recordOutcome.mock.calls).toEqual([[{ kind: 'rate_limited', statusCode: 429 }]]);
+  });
+
+  it('bounds the total Retry-After wait across repeated rate limits', async () => {
+    jest.useFakeTimers();
+    const request = jest.fn().mockRejectedValue(createError(429));
+    const { recordOutcome, runner } = createRunner(request, {
+      retryOnRateLimit: true,
+      maxRateLimitWait: 250_000,
+    });
+
+    const result = runner.get('/players', { useCache: false }).catch((caught) => caught);
+    await jest.advanceTimersByTimeAsync(240_000);
+
+    await expect(result).resolves.toBeInstanceOf(PubgRateLimitError);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(recordOutcome).toHaveBeenLastCalledWith({ kind: 'rate_limited', statusCode: 429 });
+  });
+
+  it('authenticates each attempt with the selected pooled key and rotates away from 401s', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(401))
+      .mockResolvedValueOnce(createResponse({ value: 'second key' }));
+    const apiKeys = new ApiKeyPool(['first-api-key', 'second-api-key']);
+    const recordOutcome = jest.fn();
+    const runner = new HttpTransactionRunner({
+      apiKeys,
+      cache: new MemoryCacheStore(),
+      circuitBreaker: new CircuitBreaker(),
+      config: { shard: 'steam' },
+      deduplicator: new RequestDeduplicator(),
+      middleware: new MiddlewareChain(),
+      scheduler: new RequestScheduler(),
+      logger: createLogger(),
+      externalGet: jest.fn(),
+      recordOutcome: (outcome) => recordOutcome(outcome),
+      request,
+    });
+
+    await expect(
+      runner.get('/players', { headers: { authorization: 'Bearer stale' }, useCache: false })
+    ).resolves.toEqual({ value: 'second key' });
+
+    expect(request.mock.calls.map(([config]) => config.headers)).toEqual([
+      { Authorization: 'Bearer first-api-key' },
+      { Authorization: 'Bearer second-api-key' },
+    ]);
+    expect(recordOutcome.mock.calls).toEqual([[{ kind: 'request_succeeded' }]]);
+    expect(apiKeys.getHealth().map(({ active }) => active)).toEqual([false, true]);
+  });
+
   it('uses the default retry delay when Retry-After is not numeric', async () => {
     const request = jest.fn().mockRejectedValue({
       config: { method: 'get', url: '/players' },
@@ -189,6 +735,114 @@ describe('HttpTransactionRunner', () => {
     expect((error as PubgRateLimitError).retryAfter).toBe(60);
   });
 
+  it('fails fast while the circuit is open and closes it after a successful probe', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(503))
+      .mockRejectedValueOnce(createError(undefined, 'ECONNRESET'))
+      .mockResolvedValueOnce(createResponse({ value: 'recovered' }));
+    let now = 1_000_000;
+    const circuitBreaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeout: 10_000 },
+      () => now
+    );
+    const { recordOutcome, runner } = createRunner(request, {}, { circuitBreaker });
+
+    await expect(runner.get('/players', { useCache: false })).rejects.toThrow(PubgNetworkError);
+    await expect(runner.get('/players', { useCache: false })).rejects.toThrow(PubgNetworkError);
+    await expect(runner.get('/players', { useCache: false })).rejects.toMatchObject({
+      name: 'PubgCircuitOpenError',
+      retryAfter: 10,
+    });
+    expect(request).toHaveBeenCalledTimes(2);
+
+    now += 10_000;
+    await expect(runner.get('/players', { useCache: false })).resolves.toEqual({
+      value: 'recovered',
+    });
+    expect(circuitBreaker.getHealth()).toEqual({
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+    expect(recordOutcome.mock.calls).toEqual([
+      [{ kind: 'server_failed', statusCode: 503 }],
+      [{ kind: 'network_failed' }],
+      [{ kind: 'circuit_open' }],
+      [{ kind: 'request_succeeded' }],
+    ]);
+  });
+
+  it('lets middleware add headers per attempt without exposing or overriding Authorization', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(502))
+      .mockResolvedValueOnce(createResponse({ value: 'retried' }));
+    const seenHeaders: Record<string, string>[] = [];
+    const middleware = new MiddlewareChain([
+      {
+        beforeRequest: ({ attempt, headers }) => {
+          seenHeaders.push({ ...headers });
+          headers['X-Trace-Id'] = `trace-${attempt}`;
+          headers.authorization = 'Bearer hijacked';
+        },
+      },
+    ]);
+    const { runner } = createRunner(request, { retryAttempts: 1 }, { middleware });
+
+    await runner.get('/players', { headers: { Accept: 'application/json' }, useCache: false });
+
+    expect(seenHeaders[0]).toEqual({ Accept: 'application/json' });
+    expect(request.mock.calls.map(([config]) => config.headers)).toEqual([
+      { Accept: 'application/json', 'X-Trace-Id': 'trace-1', Authorization: 'Bearer test-api-key' },
+      expect.objectContaining({ 'X-Trace-Id': 'trace-2', Authorization: 'Bearer test-api-key' }),
+    ]);
+  });
+
+  it('passes target, shard, attempt, timing, and outcome to response, error, and cache hooks', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(createError(502))
+      .mockResolvedValueOnce(createResponse({ value: 'retried' }))
+      .mockRejectedValueOnce(createError(404));
+    const afterResponse = jest.fn();
+    const onError = jest.fn();
+    const onCacheHit = jest.fn();
+    const middleware = new MiddlewareChain([{ afterResponse, onError, onCacheHit }]);
+    const { runner } = createRunner(request, { retryAttempts: 1 }, { middleware });
+
+    await runner.get('/players');
+    await runner.get('/players');
+    await expect(runner.get('/matches', { useCache: false })).rejects.toThrow(PubgNotFoundError);
+
+    expect(afterResponse).toHaveBeenCalledWith({
+      target: '/players',
+      shard: 'steam',
+      method: 'get',
+      attempt: 2,
+      statusCode: 200,
+      durationMs: expect.any(Number),
+      outcome: { kind: 'request_succeeded' },
+    });
+    expect(onCacheHit).toHaveBeenCalledWith({
+      target: '/players',
+      shard: 'steam',
+      method: 'get',
+      durationMs: expect.any(Number),
+      outcome: { kind: 'cache_hit' },
+      stale: false,
+    });
+    expect(onError).toHaveBeenCalledWith({
+      target: '/matches',
+      shard: 'steam',
+      method: 'get',
+      attempt: 1,
+      durationMs: expect.any(Number),
+      outcome: { kind: 'request_rejected', statusCode: 404 },
+      error: expect.any(PubgNotFoundError),
+    });
+  });
+
   it('maps network failures and records one network outcome', async () => {
     const request = jest.fn().mockRejectedValue(createError(undefined, 'ENOTFOUND'));
     const { recordOutcome, runner } = createRunner(request);
@@ -263,18 +917,55 @@ describe('HttpTransactionRunner', () => {
     expect(recordOutcome).toHaveBeenCalledWith({ kind: 'network_failed' });
   });
 
-  it('throws cache get failures and ignores cache set failures', async () => {
-    const getFailureCache = new MemoryCache();
-    jest.spyOn(getFailureCache, 'get').mockImplementation(() => {
-      throw new Error('get failed');
+  it('cancels external telemetry downloads', async () => {
+    const controller = new AbortController();
+    const externalGet = jest.fn(async () => {
+      controller.abort();
+      throw Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' });
     });
+    const { recordOutcome, runner } = createRunner(jest.fn(), {}, { externalGet });
+
+    await expect(
+      runner.getExternal('https://telemetry.test/match', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(PubgCancellationError);
+    expect(externalGet).toHaveBeenCalledWith(
+      'https://telemetry.test/match',
+      expect.objectContaining({ signal: controller.signal })
+    );
+    expect(recordOutcome.mock.calls).toEqual([[{ kind: 'request_cancelled' }]]);
+  });
+
+  it('reports a telemetry download that outlives the deadline of its operation', async () => {
+    const externalGet = jest.fn(
+      (_url: string, config: AxiosRequestConfig) =>
+        new Promise((_resolve, reject) => {
+          config.signal?.addEventListener?.('abort', () =>
+            reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }))
+          );
+        })
+    );
+    const { runner } = createRunner(jest.fn(), {}, { externalGet });
+
+    await expect(
+      runner.getExternal('https://telemetry.test/match', {
+        deadline: { at: Date.now() + 20, budgetMs: 1_000 },
+      })
+    ).rejects.toMatchObject({
+      name: 'PubgDeadlineExceededError',
+      message: 'Deadline of 1000ms exceeded during telemetry_download',
+      stage: 'telemetry_download',
+    });
+    expect(externalGet.mock.calls[0][1]).not.toHaveProperty('deadline');
+  });
+
+  it('throws cache get failures and ignores cache set failures', async () => {
+    const getFailureCache = new MemoryCacheStore();
+    jest.spyOn(getFailureCache, 'get').mockRejectedValue(new Error('get failed'));
     const getFailureRunner = createRunner(jest.fn(), {}, { cache: getFailureCache }).runner;
     await expect(getFailureRunner.get('/players')).rejects.toThrow(PubgCacheError);
 
-    const setFailureCache = new MemoryCache();
-    jest.spyOn(setFailureCache, 'set').mockImplementation(() => {
-      throw new Error('set failed');
-    });
+    const setFailureCache = new MemoryCacheStore();
+    jest.spyOn(setFailureCache, 'set').mockRejectedValue(new Error('set failed'));
     const request = jest.fn().mockResolvedValue(createResponse({ value: 'ok' }));
     const setFailureRunner = createRunner(request, {}, { cache: setFailureCache }).runner;
     await expect(setFailureRunner.get('/players')).resolves.toEqual({ value: 'ok' });
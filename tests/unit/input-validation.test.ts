@@ -0,0 +1,72 @@
+import { InputValidator } from '../../src/api/input-validation';
+import { PubgValidationError } from '../../src/errors';
+import { SecurityManager } from '../../src/utils/security';
+
+describe('InputValidator', () => {
+  const accountId = 'account.0000a000000000000000000000000000';
+
+  it('accepts well-formed names and IDs', () => {
+    const input = new InputValidator(new SecurityManager());
+
+    expect(() => {
+      input.playerNames(['shroud', 'Wacky_Jacky-101']);
+      input.accountIds([accountId]);
+      input.matchId('f3c1d1a5-3b0d-4b43-9cdb-2b9e0d0c8c3e');
+      input.seasonId('division.bro.official.pc-2018-01');
+      input.urlParameter('squad-fpp', 'gameMode');
+    }).not.toThrow();
+  });
+
+  it('rejects invalid input with field-level details and records a security event', () => {
+    const security = new SecurityManager();
+    const input = new InputValidator(security);
+
+    let error: unknown;
+    try {
+      input.playerNames(['shroud', 'bad name']);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PubgValidationError);
+    expect(error).toMatchObject({
+      message:
+        'Invalid playerNames[1]: Player name can only contain letters, numbers, underscores, and hyphens',
+      context: {
+        operation: 'input_validation',
+        metadata: {
+          field: 'playerNames[1]',
+          errors: ['Player name can only contain letters, numbers, underscores, and hyphens'],
+        },
+      },
+    });
+    expect(security.getSecurityEvents()).toEqual([
+      expect.objectContaining({
+        type: 'input_validation',
+        context: { field: 'playerNames[1]', errors: expect.any(Array) },
+      }),
+    ]);
+  });
+
+  it.each([
+    ['playerId', (input: InputValidator) => input.accountId('account.xyz')],
+    ['matchId', (input: InputValidator) => input.matchId('../players')],
+    ['seasonId', (input: InputValidator) => input.seasonId('pc-2018-01')],
+  ])('rejects a malformed %s', (field, check) => {
+    const input = new InputValidator(new SecurityManager());
+
+    expect(() => check(input)).toThrow(
+      expect.objectContaining({
+        context: expect.objectContaining({ metadata: expect.objectContaining({ field }) }),
+      })
+    );
+  });
+
+  it('passes every check when disabled', () => {
+    expect(() => {
+      InputValidator.disabled.playerNames(['<script>']);
+      InputValidator.disabled.matchId('not-a-match');
+      InputValidator.disabled.seasonId('');
+    }).not.toThrow();
+  });
+});
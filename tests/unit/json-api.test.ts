@@ -0,0 +1,162 @@
+import type {
+  LeaderboardResponse,
+  MatchResponse,
+  Participant,
+  PlayerSeasonStatsResponse,
+  PlayersResponse,
+} from '../../src/types';
+import { createJsonApiResolver } from '../../src/utils/json-api';
+
+const participant = (id: string, name: string): Participant => ({
+  type: 'participant',
+  id,
+  attributes: {
+    actor: '',
+    shardId: 'steam',
+    stats: { name } as Participant['attributes']['stats'],
+  },
+  relationships: { matches: { data: [] } },
+});
+
+const match: MatchResponse = {
+  data: {
+    type: 'match',
+    id: 'match-1',
+    attributes: {} as MatchResponse['data']['attributes'],
+    relationships: {
+      assets: { data: [{ type: 'asset', id: 'asset-1' }] },
+      rosters: { data: [{ type: 'roster', id: 'roster-1' }] },
+      rounds: { data: [] },
+    },
+  },
+  included: [
+    {
+      type: 'roster',
+      id: 'roster-1',
+      attributes: { shardId: 'steam', stats: { rank: 1, teamId: 4 }, won: 'true' },
+      relationships: {
+        participants: {
+          data: [
+            { type: 'participant', id: 'participant-2' },
+            { type: 'participant', id: 'participant-missing' },
+            { type: 'participant', id: 'participant-1' },
+          ],
+        },
+        team: { data: null },
+      },
+    },
+    participant('participant-1', 'one'),
+    participant('participant-2', 'two'),
+    participant('participant-1', 'duplicate'),
+  ],
+};
+
+describe('createJsonApiResolver', () => {
+  it('resolves to-many relationships in reference order against included resources', () => {
+    const resolver = createJsonApiResolver(match);
+    const [roster] = resolver.toMany(match.data, 'rosters');
+
+    expect(roster.attributes.stats.rank).toBe(1);
+    expect(
+      resolver.toMany(roster, 'participants').map(({ attributes }) => attributes.stats.name)
+    ).toEqual(['two', 'one']);
+    expect(resolver.find('participant', 'participant-1')?.attributes.stats.name).toBe('one');
+    expect(resolver.ofType('participant')).toHaveLength(3);
+    expect(resolver.resources[0]).toBe(match.data);
+  });
+
+  it('resolves to-one relationships, distinguishing empty from dangling', () => {
+    const resolver = createJsonApiResolver(match);
+    const roster = resolver.find('roster', 'roster-1')!;
+
+    expect(resolver.toOne(roster, 'team')).toBeNull();
+    expect(resolver.toOne(roster, 'participants')).toBeUndefined();
+    expect(resolver.toOne(match.data, 'assets')).toBeUndefined();
+  });
+
+  it('reports references to resources the document does not contain', () => {
+    expect(createJsonApiResolver(match).danglingReferences()).toEqual([
+      {
+        from: { type: 'match', id: 'match-1' },
+        relationship: 'assets',
+        to: { type: 'asset', id: 'asset-1' },
+      },
+      {
+        from: { type: 'roster', id: 'roster-1' },
+        relationship: 'participants',
+        to: { type: 'participant', id: 'participant-missing' },
+      },
+    ]);
+  });
+
+  it('treats the matches of a player as dangling, since the API does not include them', () => {
+    const players: PlayersResponse = {
+      data: [
+        {
+          type: 'player',
+          id: 'account.one',
+          attributes: {} as PlayersResponse['data'][number]['attributes'],
+          relationships: {
+            assets: { data: [] },
+            matches: { data: [{ type: 'match', id: 'match-1' }] },
+          },
+        },
+      ],
+    };
+    const resolver = createJsonApiResolver(players);
+
+    expect(resolver.toMany(players.data[0], 'matches')).toEqual([]);
+    expect(resolver.danglingReferences()).toEqual([
+      {
+        from: { type: 'player', id: 'account.one' },
+        relationship: 'matches',
+        to: { type: 'match', id: 'match-1' },
+      },
+    ]);
+  });
+
+  it('resolves season stats and leaderboard documents alike', () => {
+    const stats: PlayerSeasonStatsResponse = {
+      data: [
+        {
+          type: 'playerSeason',
+          id: '',
+          attributes: { bestRankPoint: 0, gameModeStats: {} },
+          relationships: {
+            player: { data: { type: 'player', id: 'account.one' } },
+            season: { data: { type: 'season', id: 'lifetime' } },
+          },
+        },
+      ],
+    };
+    expect(createJsonApiResolver(stats).toOne(stats.data[0], 'player')).toBeUndefined();
+
+    const leaderboard: LeaderboardResponse = {
+      data: [
+        {
+          type: 'leaderboard',
+          id: 'leaderboard-1',
+          attributes: { shardId: 'steam', gameMode: 'squad-fpp', rankedStats: [] },
+          relationships: { players: { data: [{ type: 'player', id: 'account.one' }] } },
+        },
+      ],
+      included: [
+        {
+          type: 'player',
+          id: 'account.one',
+          attributes: {
+            name: 'one',
+            rank: 1,
+            stats: { rankPoints: 1, wins: 1, games: 1, kills: 1 },
+          },
+        },
+      ],
+    };
+    const resolver = createJsonApiResolver(leaderboard);
+
+    expect(
+      resolver.toMany(leaderboard.data[0], 'players').map(({ attributes }) => attributes.rank)
+    ).toEqual([1]);
+    expect(resolver.danglingReferences()).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { createLogger, type LogRecord, withTiming } from '../../src/utils/logger';
+
+describe('createLogger', () => {
+  it('delivers structured records with level, component, and fields to the destination', () => {
+    const records: LogRecord[] = [];
+    const logger = createLogger({ log: (record) => records.push(record) });
+
+    logger.cache('Cache hit', { cacheKey: 'http:GET:/seasons:{}' });
+    logger.rateLimit.warn('Rate limited', { shard: 'steam', waitMs: 2000 });
+
+    expect(records).toEqual([
+      {
+        level: 'debug',
+        component: 'cache',
+        message: 'Cache hit',
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        fields: { cacheKey: 'http:GET:/seasons:{}' },
+      },
+      {
+        level: 'warn',
+        component: 'rate-limit',
+        message: 'Rate limited',
+        timestamp: expect.any(String),
+        fields: { shard: 'steam', waitMs: 2000 },
+      },
+    ]);
+  });
+
+  it('redacts sensitive fields before they reach the destination', () => {
+    const log = jest.fn();
+    const logger = createLogger({ log });
+
+    logger.http('Request', {
+      apiKey: 'pubg-secret-key',
+      headers: { Authorization: 'Bearer pubg-secret-key', 'X-Api-Key': 'pubg-secret-key' },
+      api_keys: ['abcdefghijklmnopqrstuvwxyz0123456789'],
+    });
+
+    expect(log.mock.calls[0][0].fields).toEqual({
+      apiKey: '***',
+      headers: { Authorization: '***', 'X-Api-Key': '***' },
+      api_keys: '***',
+    });
+  });
+
+  it('passes match IDs and long URLs through unchanged', () => {
+    const log = jest.fn();
+    const logger = createLogger({ log });
+    const matchId = '3f2b7a1c-9d4e-4b8a-a6f0-1c2d3e4f5a6b';
+    const url = `https://telemetry-cdn.pubg.com/bluehole-pubg/steam/2026/10/19/11/56/${matchId}-telemetry.json`;
+
+    logger.cache('Evicted least recently used telemetry', { matchId, endpoint: url });
+
+    expect(url.length).toBeGreaterThan(100);
+    expect(log.mock.calls[0][0].fields).toEqual({ matchId, endpoint: url });
+  });
+
+  it('never lets a failing destination throw into the caller', () => {
+    const logger = createLogger({
+      log: () => {
+        throw new Error('pipeline down');
+      },
+    });
+
+    expect(() => logger.client.error('Client failed')).not.toThrow();
+  });
+});
+
+describe('withTiming', () => {
+  it('logs the start and the duration of successful and failed operations', async () => {
+    const log = jest.fn();
+    const logger = createLogger({ log });
+    const fields = { endpoint: '/shards/steam/seasons', shard: 'steam' };
+
+    await withTiming(logger.http, 'GET request', async () => 'ok', fields);
+    await expect(
+      withTiming(
+        logger.http,
+        'GET request',
+        async () => {
+          throw new Error('boom');
+        },
+        fields
+      )
+    ).rejects.toThrow('boom');
+
+    expect(log.mock.calls.map(([record]) => [record.level, record.message, record.fields])).toEqual(
+      [
+        ['debug', 'Starting GET request', fields],
+        ['debug', 'Completed GET request', { ...fields, durationMs: expect.any(Number) }],
+        ['debug', 'Starting GET request', fields],
+        [
+          'warn',
+          'Failed GET request',
+          { ...fields, durationMs: expect.any(Number), error: 'boom' },
+        ],
+      ]
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import type { MatchResponse, Participant, Roster } from '../../src/types';
+import { hydrateMatch } from '../../src/utils/match-graph';
+
+const participant = (id: string, name: string): Participant => ({
+  type: 'participant',
+  id,
+  attributes: {
+    actor: '',
+    shardId: 'steam',
+    stats: {
+      name,
+      playerId: `account.${name}`,
+      kills: name.length,
+    } as Participant['attributes']['stats'],
+  },
+  relationships: { matches: { data: [] } },
+});
+
+const roster = (id: string, rank: number, teamId: number, participantIds: string[]): Roster => ({
+  type: 'roster',
+  id,
+  attributes: { shardId: 'steam', stats: { rank, teamId }, won: rank === 1 ? 'true' : 'false' },
+  relationships: {
+    participants: {
+      data: participantIds.map((participantId) => ({ type: 'participant', id: participantId })),
+    },
+    team: { data: null },
+  },
+});
+
+const response: MatchResponse = {
+  data: {
+    type: 'match',
+    id: 'match-1',
+    attributes: {
+      createdAt: '2026-07-13T12:00:00Z',
+      duration: 1800,
+      gameMode: 'squad-fpp',
+      mapName: 'Baltic_Main',
+      isCustomMatch: false,
+      patchVersion: '',
+      seasonState: 'progress',
+      shardId: 'steam',
+      stats: null,
+      tags: null,
+      titleId: 'bluehole-pubg',
+      matchType: 'official',
+    },
+    relationships: {
+      assets: { data: [{ type: 'asset', id: 'asset-1' }] },
+      rosters: { data: [] },
+      rounds: { data: [] },
+    },
+  },
+  included: [
+    roster('roster-2', 2, 7, ['participant-3']),
+    participant('participant-1', 'one'),
+    roster('roster-1', 1, 4, ['participant-2', 'participant-1', 'participant-missing']),
+    participant('participant-2', 'two'),
+    participant('participant-3', 'three'),
+    participant('participant-4', 'spectator'),
+    {
+      type: 'asset',
+      id: 'asset-1',
+      attributes: {
+        URL: 'https://telemetry.test/match-1',
+        createdAt: '',
+        description: '',
+        name: 'telemetry',
+      },
+      relationships: {},
+    },
+  ],
+};
+
+describe('hydrateMatch', () => {
+  it('orders rosters by rank with their participants in roster order', () => {
+    const match = hydrateMatch(response);
+
+    expect(match.id).toBe('match-1');
+    expect(match.attributes.mapName).toBe('Baltic_Main');
+    expect(match.rosters.map(({ id, rank, won }) => ({ id, rank, won }))).toEqual([
+      { id: 'roster-1', rank: 1, won: true },
+      { id: 'roster-2', rank: 2, won: false },
+    ]);
+    expect(match.rosters[0].participants.map(({ name }) => name)).toEqual(['two', 'one']);
+    expect(match.participants.map(({ name }) => name)).toEqual([
+      'two',
+      'one',
+      'three',
+      'spectator',
+    ]);
+  });
+
+  it('links participants to their roster and exposes their stats', () => {
+    const match = hydrateMatch(response);
+
+    expect(match.participantByName('three')).toEqual(
+      expect.objectContaining({
+        id: 'participant-3',
+        accountId: 'account.three',
+        rosterId: 'roster-2',
+        teamId: 7,
+        stats: expect.objectContaining({ kills: 5 }),
+      })
+    );
+    expect(match.participantByName('spectator')?.rosterId).toBeUndefined();
+  });
+
+  it('looks up participants by account ID and rosters by team ID', () => {
+    const match = hydrateMatch(response);
+
+    expect(match.participantByAccountId('account.one')?.name).toBe('one');
+    expect(match.rosterByTeamId(4)?.id).toBe('roster-1');
+    expect(match.participantByAccountId('account.unknown')).toBeUndefined();
+    expect(match.rosterByTeamId(99)).toBeUndefined();
+  });
+
+  it('exposes the telemetry asset and the source response', () => {
+    const match = hydrateMatch(response);
+
+    expect(match.telemetry?.attributes.URL).toBe('https://telemetry.test/match-1');
+    expect(match.assets).toHaveLength(1);
+    expect(match.response).toBe(response);
+  });
+
+  it('skips roster references to resources that are not participants', () => {
+    const mislinked = roster('roster-3', 3, 9, ['participant-4']);
+    mislinked.relationships.participants.data.unshift({ type: 'asset', id: 'asset-1' } as never);
+
+    const match = hydrateMatch({ ...response, included: [...response.included, mislinked] });
+
+    expect(match.rosterByTeamId(9)?.participants.map(({ name }) => name)).toEqual(['spectator']);
+  });
+});
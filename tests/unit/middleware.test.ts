@@ -0,0 +1,55 @@
+import { MiddlewareChain } from '../../src/api/middleware';
+
+const context = {
+  target: '/shards/steam/players',
+  shard: 'steam' as const,
+  method: 'get',
+  durationMs: 3,
+  outcome: { kind: 'cache_hit' as const },
+  stale: false,
+};
+
+describe('MiddlewareChain', () => {
+  it('runs hooks in registration order and awaits async hooks', async () => {
+    const calls: string[] = [];
+    const chain = new MiddlewareChain([
+      {
+        onCacheHit: async () => {
+          await new Promise((resolve) => setImmediate(resolve));
+          calls.push('configured');
+        },
+      },
+    ]);
+    chain.use({ onCacheHit: () => void calls.push('registered') });
+
+    await chain.run('onCacheHit', context);
+
+    expect(calls).toEqual(['configured', 'registered']);
+  });
+
+  it('removes middleware with the returned function', async () => {
+    const chain = new MiddlewareChain();
+    const onCacheHit = jest.fn();
+    const remove = chain.use({ onCacheHit });
+
+    remove();
+    await chain.run('onCacheHit', context);
+
+    expect(onCacheHit).not.toHaveBeenCalled();
+  });
+
+  it('keeps running later hooks when a hook throws', async () => {
+    const onCacheHit = jest.fn();
+    const chain = new MiddlewareChain([
+      {
+        onCacheHit: () => {
+          throw new Error('metrics backend down');
+        },
+      },
+      { onCacheHit },
+    ]);
+
+    await expect(chain.run('onCacheHit', context)).resolves.toBeUndefined();
+    expect(onCacheHit).toHaveBeenCalledWith(context);
+  });
+});
@@ -1,13 +1,34 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 import type {
+  ApiKeyHealthSnapshot,
   AssetCatalogConfig,
+  BulkApiResponse,
+  BulkRequestOptions,
   ClientHealth,
+  ClientHealthHistory,
+  DanglingReference,
+  DeadlineStage,
+  HealthTransition,
+  HydratedMatch,
+  JsonApiResolver,
+  LeaderboardPlayer,
   Leaderboards,
+  LogRecord,
   Matches,
+  PaginationOptions,
   Players,
+  RequestPriority,
+  RequestSchedulerHealthSnapshot,
+  ResponseCacheStore,
+  ResponseValidationMode,
   Samples,
   Seasons,
+  SecurityEvent,
+  TelemetryCacheStore,
 } from '../../src';
 import * as pubg from '../../src';
+import * as testing from '../../src/testing';
 
 describe('v2 public interface', () => {
   it('exports the deep v2 modules', () => {
@@ -20,6 +41,32 @@ describe('v2 public interface', () => {
     expect(pubg).not.toHaveProperty('assetManager');
   });
 
+  it('exports the response-cache stores', () => {
+    expect(pubg.MemoryCacheStore).toEqual(expect.any(Function));
+    expect(pubg.FileSystemCacheStore).toEqual(expect.any(Function));
+  });
+
+  it('exports the telemetry-cache stores', () => {
+    expect(pubg.MemoryTelemetryCacheStore).toEqual(expect.any(Function));
+    expect(pubg.FileSystemTelemetryCacheStore).toEqual(expect.any(Function));
+  });
+
+  it('exports the local stand-in server from the testing entry point only', () => {
+    const { exports } = JSON.parse(
+      readFileSync(resolve(__dirname, '../../package.json'), 'utf8')
+    ) as { exports: Record<string, unknown> };
+
+    expect(testing.startStandInServer).toEqual(expect.any(Function));
+    expect(pubg).not.toHaveProperty('startStandInServer');
+    expect(exports['./testing']).toEqual({
+      types: './dist/testing/index.d.ts',
+      default: './dist/testing/index.js',
+    });
+    // Deep imports into dist keep resolving with or without the .js extension.
+    expect(exports['./dist/*.js']).toBe('./dist/*.js');
+    expect(exports['./dist/*']).toEqual({ types: './dist/*.d.ts', default: './dist/*.js' });
+  });
+
   it('wires the public client to the local asset catalog', () => {
     const client = new pubg.PubgClient({ apiKey: 'test-key', shard: 'steam' });
 
@@ -30,13 +77,77 @@ describe('v2 public interface', () => {
 const assertV2Types = (
   client: pubg.PubgClient,
   health: ClientHealth,
+  apiKeyHealth: ApiKeyHealthSnapshot,
   assets: pubg.AssetCatalog,
   config: AssetCatalogConfig,
+  cacheStore: ResponseCacheStore,
+  telemetryCache: TelemetryCacheStore,
+  scheduler: RequestSchedulerHealthSnapshot,
+  priority: RequestPriority,
+  responseValidation: ResponseValidationMode,
+  deadlineStage: DeadlineStage,
   modules: [Players, Matches, Seasons, Leaderboards, Samples]
 ): void => {
-  void [health, assets, config, modules];
+  void [
+    health,
+    apiKeyHealth,
+    assets,
+    config,
+    cacheStore,
+    telemetryCache,
+    scheduler,
+    priority,
+    responseValidation,
+    deadlineStage,
+    modules,
+  ];
   client.getHealth();
+  const history: ClientHealthHistory = client.getHealthHistory();
+  const securityEvents: SecurityEvent[] = client.getSecurityEvents(10);
+  new pubg.PubgClient({
+    apiKey: 'test-key',
+    shard: 'steam',
+    logger: { log: (record: LogRecord) => void [record.level, record.component, record.fields] },
+  });
+  const removeListener: () => void = client.onHealthTransition(
+    (transition: HealthTransition) => void [transition.from, transition.to, history, securityEvents]
+  );
+  removeListener();
   client.clearResponseCache();
+  const removeMiddleware: () => void = client.use({ beforeRequest: ({ headers }) => void headers });
+  removeMiddleware();
+  const pagination: PaginationOptions = { maxItems: 100, deadline: 30_000 };
+  const leaderboardPlayers: AsyncGenerator<LeaderboardPlayer> =
+    client.leaderboards.iterateLeaderboard(
+      { seasonId: 'division.bro.official.pc-2018-30', gameMode: 'squad-fpp' },
+      pagination
+    );
+  void [leaderboardPlayers, client.matches.iterateMatches({ pageSize: 10 }, pagination)];
+  const bulk: BulkRequestOptions = { concurrency: 2 };
+  const lookup: Promise<BulkApiResponse<pubg.Player>> = client.players.getPlayersBulk(
+    { playerNames: ['shroud'] },
+    bulk
+  );
+  void lookup.then(({ notFound }) => notFound);
+  const hydrated: Promise<HydratedMatch> = client.matches.getMatch('match-1', { hydrate: true });
+  const raw: Promise<pubg.MatchResponse> = client.matches.getMatch('match-1');
+  void [hydrated, raw, pubg.hydrateMatch];
+  const recent: Promise<pubg.RecentMatch[]> = client.players.getRecentMatches('shroud', {
+    limit: 5,
+    gameModes: ['squad-fpp'],
+    since: new Date(),
+  } satisfies pubg.RecentMatchesOptions);
+  void recent;
+  void raw.then((response) => {
+    const resolver: JsonApiResolver<pubg.Match | pubg.Roster | pubg.Participant | pubg.Asset> =
+      pubg.createJsonApiResolver(response);
+    const participants: pubg.Participant[] = resolver.toMany(
+      resolver.ofType('roster')[0],
+      'participants'
+    );
+    const dangling: DanglingReference[] = resolver.danglingReferences();
+    return [participants, dangling];
+  });
   // @ts-expect-error removed in v2
   client.getCacheStats();
   // @ts-expect-error removed in v2
@@ -1,4 +1,5 @@
-import { RateLimiter } from '../../src/utils/rate-limiter';
+import { PubgCancellationError } from '../../src/errors';
+import { parseRateLimitHeaders, RateLimiter } from '../../src/utils/rate-limiter';
 
 describe('RateLimiter', () => {
   let rateLimiter: RateLimiter;
@@ -41,6 +42,25 @@ describe('RateLimiter', () => {
 
       jest.useRealTimers();
     });
+
+    it('cancels a pending wait without reserving a slot', async () => {
+      jest.useFakeTimers();
+      const controller = new AbortController();
+
+      await rateLimiter.waitForSlot();
+      await rateLimiter.waitForSlot();
+      await rateLimiter.waitForSlot();
+
+      const promise = rateLimiter.waitForSlot(controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(PubgCancellationError);
+      expect(rateLimiter.getRemainingRequests()).toBe(0);
+      jest.advanceTimersByTime(1000);
+      expect(rateLimiter.getRemainingRequests()).toBe(3);
+
+      jest.useRealTimers();
+    });
   });
 
   describe('getRemainingRequests', () => {
@@ -72,4 +92,137 @@ describe('RateLimiter', () => {
       expect(resetTime).toBeLessThanOrEqual(start + 1000);
     });
   });
+
+  describe('server rate-limit headers', () => {
+    const now = new Date('2026-07-13T15:00:00.000Z').getTime();
+    const resetSeconds = now / 1000 + 30;
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('parses PUBG X-RateLimit headers case-insensitively', () => {
+      expect(
+        parseRateLimitHeaders(
+          {
+            'X-RateLimit-Limit': '100',
+            'x-ratelimit-remaining': '42',
+            'X-Ratelimit-Reset': resetSeconds,
+          },
+          now
+        )
+      ).toEqual({ limit: 100, remaining: 42, resetAt: now + 30_000 });
+      expect(parseRateLimitHeaders({ 'x-ratelimit-limit': '100' }, now)).toBeUndefined();
+      expect(parseRateLimitHeaders(undefined, now)).toBeUndefined();
+    });
+
+    it('reports the server budget instead of the local window', () => {
+      jest.useFakeTimers({ now });
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '42',
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+
+      expect(rateLimiter.getLimit()).toBe(100);
+      expect(rateLimiter.getRemainingRequests()).toBe(42);
+      expect(rateLimiter.getResetTime()).toBe(now + 30_000);
+    });
+
+    it('allows more requests than the local default when the server reports budget', async () => {
+      jest.useFakeTimers({ now });
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '5',
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+
+      for (let index = 0; index < 5; index++) {
+        await rateLimiter.waitForSlot();
+      }
+
+      expect(rateLimiter.getRemainingRequests()).toBe(0);
+    });
+
+    it('waits for the server reset when the shared budget is exhausted', async () => {
+      jest.useFakeTimers({ now });
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '10',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+      let acquired = false;
+
+      const waiting = rateLimiter.waitForSlot().then(() => {
+        acquired = true;
+      });
+      await jest.advanceTimersByTimeAsync(29_000);
+      expect(acquired).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      await waiting;
+      expect(acquired).toBe(true);
+      expect(rateLimiter.getLimit()).toBe(10);
+    });
+
+    it('ignores headers from an earlier window that arrive out of order', () => {
+      jest.useFakeTimers({ now });
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '99',
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '10',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(resetSeconds - 60),
+      });
+
+      expect(rateLimiter.getLimit()).toBe(100);
+      expect(rateLimiter.getRemainingRequests()).toBe(99);
+      expect(rateLimiter.getResetTime()).toBe(now + 30_000);
+    });
+
+    it('keeps the lowest remaining budget reported within the same window', () => {
+      jest.useFakeTimers({ now });
+      const headers = (remaining: number) => ({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': String(remaining),
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+
+      rateLimiter.updateFromHeaders(headers(40));
+      rateLimiter.updateFromHeaders(headers(42));
+      expect(rateLimiter.getRemainingRequests()).toBe(40);
+
+      rateLimiter.updateFromHeaders(headers(38));
+      expect(rateLimiter.getRemainingRequests()).toBe(38);
+    });
+
+    it('adopts the budget of a later window', () => {
+      jest.useFakeTimers({ now });
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '1',
+        'x-ratelimit-reset': String(resetSeconds),
+      });
+
+      rateLimiter.updateFromHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '99',
+        'x-ratelimit-reset': String(resetSeconds + 60),
+      });
+
+      expect(rateLimiter.getRemainingRequests()).toBe(99);
+      expect(rateLimiter.getResetTime()).toBe(now + 90_000);
+    });
+
+    it('ignores responses without rate-limit headers', () => {
+      rateLimiter.updateFromHeaders({ 'content-type': 'application/json' });
+
+      expect(rateLimiter.getLimit()).toBe(3);
+      expect(rateLimiter.getRemainingRequests()).toBe(3);
+    });
+  });
 });
@@ -0,0 +1,234 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { ClientRuntime } from '../../src/api/client-runtime';
+import { PubgConfigurationError, PubgNotFoundError } from '../../src/errors';
+import type { RecordReplayConfig } from '../../src/types/api';
+import type { LogRecord } from '../../src/utils/logger';
+
+const API_KEY = 'record-replay-secret-key';
+const TELEMETRY_URL = 'https://telemetry.test/match-1.json?token=signed-secret';
+
+const createResponse = <T>(data: T, config: AxiosRequestConfig): AxiosResponse<T> => ({
+  config: config as AxiosResponse<T>['config'],
+  data,
+  headers: { 'content-type': 'application/json', 'set-cookie': ['session=secret'] },
+  status: 200,
+  statusText: '200',
+});
+
+const createRuntime = (
+  recordReplay: RecordReplayConfig,
+  request: jest.Mock = jest.fn(),
+  externalGet: jest.Mock = jest.fn()
+) =>
+  new ClientRuntime(
+    { apiKey: API_KEY, shard: 'steam', recordReplay, cacheTtl: { players: 0 } },
+    { request, externalGet }
+  );
+
+describe('record and replay', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pubg-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records endpoint targets and telemetry with API keys and signed URLs redacted', async () => {
+    const request = jest.fn(async (config: AxiosRequestConfig) =>
+      createResponse({ data: [{ id: 'account.1' }], echoedKey: API_KEY }, config)
+    );
+    const externalGet = jest.fn(async (_url: string, config: AxiosRequestConfig) =>
+      createResponse([{ _T: 'LogMatchStart' }], config)
+    );
+    const runtime = createRuntime({ mode: 'record', directory }, request, externalGet);
+
+    await runtime.get('/shards/steam/players?filter[playerNames]=shroud');
+    await runtime.fetchTelemetry(TELEMETRY_URL);
+
+    const files = readdirSync(directory).sort();
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatch(/^shards-steam-players-[0-9a-f]{16}\.json$/);
+    const contents = files.map((file) => readFileSync(join(directory, file), 'utf8')).join('\n');
+    expect(contents).not.toContain(API_KEY);
+    expect(contents).not.toContain('signed-secret');
+    expect(contents).not.toContain('session=secret');
+    expect(contents).toContain('https://telemetry.test/match-1.json?token=[REDACTED]');
+  });
+
+  it('logs recorded fixtures to the client logger', async () => {
+    const records: LogRecord[] = [];
+    const request = jest.fn(async (config: AxiosRequestConfig) => createResponse({}, config));
+    const runtime = new ClientRuntime(
+      {
+        apiKey: API_KEY,
+        shard: 'steam',
+        recordReplay: { mode: 'record', directory },
+        logger: { log: (record) => records.push(record) },
+      },
+      { request }
+    );
+
+    await runtime.get('/shards/steam/seasons');
+
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        component: 'client',
+        message: 'Recorded fixture',
+        fields: {
+          method: 'GET',
+          endpoint: '/shards/steam/seasons',
+          path: join(directory, readdirSync(directory)[0]),
+        },
+      })
+    );
+  });
+
+  it('records identical requests made at the same time', async () => {
+    const request = jest.fn(async (config: AxiosRequestConfig) =>
+      createResponse({ data: [{ id: 'account.1' }] }, config)
+    );
+    const recorders = [1, 2].map(() => createRuntime({ mode: 'record', directory }, request));
+
+    await expect(
+      Promise.all(recorders.map((recorder) => recorder.get('/shards/steam/players')))
+    ).resolves.toEqual([{ data: [{ id: 'account.1' }] }, { data: [{ id: 'account.1' }] }]);
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+
+  it('keeps the live response and error when a fixture cannot be written', async () => {
+    const records: LogRecord[] = [];
+    const unwritable = join(directory, 'not-a-directory');
+    writeFileSync(unwritable, '');
+    const request = jest.fn(async (config: AxiosRequestConfig) => {
+      if (config.url?.includes('missing')) {
+        throw Object.assign(new Error('Request failed with status code 404'), {
+          config,
+          response: { data: { errors: [{ detail: 'Not Found' }] }, headers: {}, status: 404 },
+        });
+      }
+      return createResponse({ data: [] }, config);
+    });
+    const runtime = new ClientRuntime(
+      {
+        apiKey: API_KEY,
+        shard: 'steam',
+        recordReplay: { mode: 'record', directory: unwritable },
+        logger: { log: (record) => records.push(record) },
+      },
+      { request }
+    );
+
+    await expect(runtime.get('/shards/steam/seasons')).resolves.toEqual({ data: [] });
+    await expect(runtime.get('/shards/steam/missing')).rejects.toThrow(PubgNotFoundError);
+    expect(records.filter(({ message }) => message === 'Failed to record fixture')).toHaveLength(2);
+  });
+
+  it('replays recorded responses without touching the network', async () => {
+    const liveRequest = jest.fn(async (config: AxiosRequestConfig) =>
+      createResponse({ data: [{ id: 'account.1' }] }, config)
+    );
+    const liveTelemetry = jest.fn(async (_url: string, config: AxiosRequestConfig) =>
+      createResponse([{ _T: 'LogMatchStart' }], config)
+    );
+    const recorder = createRuntime({ mode: 'record', directory }, liveRequest, liveTelemetry);
+    await recorder.get('/shards/steam/players');
+    await recorder.fetchTelemetry(TELEMETRY_URL);
+
+    const request = jest.fn();
+    const externalGet = jest.fn();
+    const replayer = createRuntime({ mode: 'replay', directory }, request, externalGet);
+
+    await expect(replayer.get('/shards/steam/players')).resolves.toEqual({
+      data: [{ id: 'account.1' }],
+    });
+    await expect(replayer.fetchTelemetry(TELEMETRY_URL)).resolves.toEqual([
+      { _T: 'LogMatchStart' },
+    ]);
+    expect(request).not.toHaveBeenCalled();
+    expect(externalGet).not.toHaveBeenCalled();
+    expect(replayer.getHealth().requests).toEqual({ attempted: 2, succeeded: 2, failed: 0 });
+  });
+
+  it('records streamed telemetry as parsed events and streams them back on replay', async () => {
+    const events = [{ _T: 'LogMatchStart' }, { _T: 'LogMatchEnd' }];
+    const liveTelemetry = jest.fn(async (_url: string, config: AxiosRequestConfig) =>
+      createResponse(Readable.from([Buffer.from(JSON.stringify(events))]), config)
+    );
+    const collect = async (runtime: ClientRuntime) => {
+      const streamed: unknown[] = [];
+      for await (const event of runtime.streamTelemetry(TELEMETRY_URL)) streamed.push(event);
+      return streamed;
+    };
+
+    await expect(
+      collect(createRuntime({ mode: 'record', directory }, jest.fn(), liveTelemetry))
+    ).resolves.toEqual(events);
+    await expect(collect(createRuntime({ mode: 'replay', directory }))).resolves.toEqual(events);
+  });
+
+  it('does not throttle replay with recorded rate-limit headers', async () => {
+    const liveRequest = jest.fn(async (config: AxiosRequestConfig) => ({
+      ...createResponse({ data: [{ id: 'account.1' }] }, config),
+      headers: {
+        'x-ratelimit-limit': '10',
+        'x-ratelimit-remaining': '9',
+        'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) - 3600),
+      },
+    }));
+    await createRuntime({ mode: 'record', directory }, liveRequest).get('/shards/steam/players');
+
+    const replayer = createRuntime({ mode: 'replay', directory });
+    for (let index = 0; index < 12; index++) {
+      await expect(replayer.get('/shards/steam/players', { useCache: false })).resolves.toEqual({
+        data: [{ id: 'account.1' }],
+      });
+    }
+    expect(replayer.getHealth().requests).toEqual({ attempted: 12, succeeded: 12, failed: 0 });
+  }, 5000);
+
+  it('replays recorded error responses as failed requests', async () => {
+    const liveRequest = jest.fn(async (config: AxiosRequestConfig) => {
+      throw Object.assign(new Error('Request failed with status code 404'), {
+        config,
+        response: { data: { errors: [{ detail: 'Not Found' }] }, headers: {}, status: 404 },
+      });
+    });
+    await expect(
+      createRuntime({ mode: 'record', directory }, liveRequest).get('/shards/steam/players')
+    ).rejects.toThrow(PubgNotFoundError);
+
+    await expect(
+      createRuntime({ mode: 'replay', directory }).get('/shards/steam/players')
+    ).rejects.toThrow(PubgNotFoundError);
+  });
+
+  it('fails loudly on unrecorded requests in replay mode', async () => {
+    const replayer = createRuntime({ mode: 'replay', directory });
+
+    const error = await replayer
+      .get<never>('/shards/steam/matches/match-1')
+      .catch((caught: PubgConfigurationError) => caught);
+    expect(error).toBeInstanceOf(PubgConfigurationError);
+    expect(error.message).toContain('No recorded fixture for GET /shards/steam/matches/match-1');
+
+    const telemetryError = await replayer
+      .fetchTelemetry<never>(TELEMETRY_URL)
+      .catch((caught: PubgConfigurationError) => caught);
+    expect(telemetryError).toBeInstanceOf(PubgConfigurationError);
+    expect(JSON.stringify(telemetryError.getDetails())).not.toContain('signed-secret');
+  });
+
+  it('rejects an invalid record/replay configuration', () => {
+    expect(() =>
+      createRuntime({ mode: 'playback' as RecordReplayConfig['mode'], directory })
+    ).toThrow(PubgConfigurationError);
+    expect(() => createRuntime({ mode: 'replay', directory: '' })).toThrow(PubgConfigurationError);
+  });
+});
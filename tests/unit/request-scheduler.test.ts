@@ -0,0 +1,83 @@
+import { RequestScheduler } from '../../src/api/request-scheduler';
+import { PubgCancellationError } from '../../src/errors';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.parse('2026-07-13T15:00:00.000Z');
+  });
+
+  it('starts every request immediately without a limit', async () => {
+    const scheduler = new RequestScheduler(undefined, clock);
+
+    await Promise.all([scheduler.acquire(), scheduler.acquire('background')]);
+
+    expect(scheduler.getHealth()).toEqual({
+      maxConcurrent: null,
+      inFlight: 2,
+      lanes: {
+        interactive: { queued: 0, started: 1, averageWaitMs: 0, maxWaitMs: 0 },
+        background: { queued: 0, started: 1, averageWaitMs: 0, maxWaitMs: 0 },
+      },
+    });
+  });
+
+  it('gives freed slots to queued interactive requests before earlier background requests', async () => {
+    const scheduler = new RequestScheduler(1, clock);
+    const started: string[] = [];
+    const track = async (priority: 'interactive' | 'background') => {
+      const next = await scheduler.acquire(priority);
+      started.push(priority);
+      return next;
+    };
+    const release = await scheduler.acquire('background');
+    const queued = [track('background'), track('interactive')];
+    expect(scheduler.getHealth()).toMatchObject({
+      inFlight: 1,
+      lanes: { interactive: { queued: 1 }, background: { queued: 1 } },
+    });
+
+    now += 200;
+    release();
+    release();
+    await flush();
+    expect(started).toEqual(['interactive']);
+
+    now += 100;
+    (await queued[1])();
+    (await queued[0])();
+
+    expect(started).toEqual(['interactive', 'background']);
+    expect(scheduler.getHealth()).toEqual({
+      maxConcurrent: 1,
+      inFlight: 0,
+      lanes: {
+        interactive: { queued: 0, started: 1, averageWaitMs: 200, maxWaitMs: 200 },
+        background: { queued: 0, started: 2, averageWaitMs: 150, maxWaitMs: 300 },
+      },
+    });
+  });
+
+  it('removes aborted requests from the queue without claiming a slot', async () => {
+    const scheduler = new RequestScheduler(1, clock);
+    const controller = new AbortController();
+    const release = await scheduler.acquire();
+    const queued = scheduler.acquire('background', controller.signal);
+
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(PubgCancellationError);
+    await expect(scheduler.acquire('background', controller.signal)).rejects.toBeInstanceOf(
+      PubgCancellationError
+    );
+    release();
+    expect(scheduler.getHealth()).toMatchObject({
+      inFlight: 0,
+      lanes: { background: { queued: 0, started: 0 } },
+    });
+  });
+});
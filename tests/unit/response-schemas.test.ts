@@ -0,0 +1,158 @@
+import { validateResponseSchema } from '../../src/api/response-schemas';
+
+const player = {
+  type: 'player',
+  id: 'account.one',
+  attributes: {
+    createdAt: '2026-07-13T12:00:00Z',
+    name: 'one',
+    patchVersion: '',
+    shardId: 'steam',
+    stats: null,
+    titleId: 'bluehole-pubg',
+    updatedAt: '2026-07-13T12:00:00Z',
+  },
+  relationships: {
+    assets: { data: [] },
+    matches: { data: [{ type: 'match', id: 'match-1' }] },
+  },
+};
+
+const match = {
+  type: 'match',
+  id: 'match-1',
+  attributes: {
+    createdAt: '2026-07-13T12:00:00Z',
+    duration: 1800,
+    gameMode: 'squad-fpp',
+    mapName: 'Baltic_Main',
+    isCustomMatch: false,
+    patchVersion: '',
+    seasonState: 'progress',
+    shardId: 'steam',
+    stats: null,
+    tags: null,
+    titleId: 'bluehole-pubg',
+    matchType: 'official',
+  },
+  relationships: { assets: { data: [{ type: 'asset', id: 'asset-1' }] } },
+};
+
+describe('validateResponseSchema', () => {
+  it('accepts responses shaped like the SDK response types, including unknown extra fields', () => {
+    expect(validateResponseSchema('players', { data: [player], links: { self: '' } })).toEqual([]);
+    expect(
+      validateResponseSchema('matches', {
+        data: { ...match, attributes: { ...match.attributes, mode: 'new-field' } },
+        included: [
+          {
+            type: 'roster',
+            id: 'roster-1',
+            attributes: { shardId: 'steam', stats: { rank: 1, teamId: 1 }, won: 'true' },
+            relationships: { team: { data: null } },
+          },
+          {
+            type: 'participant',
+            id: 'participant-1',
+            attributes: { actor: '', shardId: 'steam', stats: { name: 'one', kills: 2 } },
+          },
+          {
+            type: 'asset',
+            id: 'asset-1',
+            attributes: { URL: 'https://x', createdAt: '', description: '', name: 'telemetry' },
+          },
+          { type: 'spectator', id: 'spectator-1' },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('accepts a single resource or an array where the route decides the cardinality', () => {
+    const playerSeason = {
+      type: 'playerSeason',
+      attributes: { gameModeStats: { 'squad-fpp': { kills: 3, rankPointsTitle: '0' } } },
+    };
+
+    expect(validateResponseSchema('seasonStats', { data: playerSeason })).toEqual([]);
+    expect(validateResponseSchema('lifetimeStats', { data: [playerSeason] })).toEqual([]);
+  });
+
+  it('reports each mismatching path with the expected and received types', () => {
+    expect(
+      validateResponseSchema('players', {
+        data: [
+          {
+            ...player,
+            type: 'account',
+            attributes: { ...player.attributes, name: 42 },
+            relationships: { matches: { data: [{ id: 'match-1' }] } },
+          },
+        ],
+      })
+    ).toEqual([
+      { path: '$.data[0].type', expected: "'player'", received: "'account'" },
+      { path: '$.data[0].attributes.name', expected: 'string', received: 'number' },
+      {
+        path: '$.data[0].relationships.matches.data[0].type',
+        expected: 'string',
+        received: 'undefined',
+      },
+    ]);
+  });
+
+  it('checks statistics fields only where present', () => {
+    expect(
+      validateResponseSchema('matches', {
+        data: match,
+        included: [
+          {
+            type: 'participant',
+            id: 'participant-1',
+            attributes: { actor: '', shardId: 'steam', stats: { kills: '2' } },
+          },
+        ],
+      })
+    ).toEqual([
+      { path: '$.included[0].attributes.stats.kills', expected: 'number', received: 'string' },
+    ]);
+  });
+
+  it('checks the ranked players a leaderboard includes', () => {
+    expect(
+      validateResponseSchema('leaderboards', {
+        data: {
+          type: 'leaderboard',
+          id: 'leaderboard-1',
+          attributes: { shardId: 'steam', gameMode: 'squad' },
+        },
+        included: [
+          {
+            type: 'player',
+            id: 'account.one',
+            attributes: {
+              name: 'one',
+              rank: '1',
+              stats: { rankPoints: 5000, tier: { tier: 'Master' } },
+            },
+          },
+        ],
+      })
+    ).toEqual([
+      { path: '$.included[0].attributes.rank', expected: 'number', received: 'string' },
+      {
+        path: '$.included[0].attributes.stats.tier.subTier',
+        expected: 'string',
+        received: 'undefined',
+      },
+    ]);
+  });
+
+  it('reports a missing envelope', () => {
+    expect(validateResponseSchema('seasons', { errors: [] })).toEqual([
+      { path: '$.data', expected: 'array', received: 'undefined' },
+    ]);
+    expect(validateResponseSchema('matches', null)).toEqual([
+      { path: '$', expected: 'object', received: 'null' },
+    ]);
+  });
+});
@@ -44,7 +44,9 @@ describe('Leaderboards', () => {
         gameMode: 'squad',
       });
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/leaderboards/season-1/squad');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/leaderboards/season-1/squad', {
+        cacheKind: 'leaderboards',
+      });
       expect(result).toEqual(mockResponse);
     });
 
@@ -60,8 +62,60 @@ describe('Leaderboards', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/leaderboards/season-1/squad?page%5Blimit%5D=10&page%5Boffset%5D=20'
+        '/shards/pc-na/leaderboards/season-1/squad?page%5Blimit%5D=10&page%5Boffset%5D=20',
+        { cacheKind: 'leaderboards' }
       );
     });
   });
+
+  describe('iterateLeaderboard', () => {
+    const leaderboardPage = (names: string[], firstRank: number): LeaderboardResponse => ({
+      data: [],
+      included: names.map((name, index) => ({
+        type: 'player',
+        id: `account.${name}`,
+        attributes: {
+          name,
+          rank: firstRank + index,
+          stats: { rankPoints: 5000, wins: 10, games: 50, kills: 120 },
+        },
+      })),
+    });
+
+    it('yields the included players of each page until a short page', async () => {
+      transport.get
+        .mockResolvedValueOnce(leaderboardPage(['one', 'two'], 1))
+        .mockResolvedValueOnce(leaderboardPage(['three'], 3));
+
+      const ranks: number[] = [];
+      for await (const player of leaderboards.iterateLeaderboard({
+        seasonId: 'season-1',
+        gameMode: 'squad',
+        pageSize: 2,
+      })) {
+        ranks.push(player.attributes.rank);
+      }
+
+      expect(ranks).toEqual([1, 2, 3]);
+      expect(transport.get).toHaveBeenLastCalledWith(
+        '/shards/pc-na/leaderboards/season-1/squad?page%5Blimit%5D=2&page%5Boffset%5D=2',
+        { cacheKind: 'leaderboards' }
+      );
+    });
+
+    it('requests a single page when neither links.next nor a page size is given', async () => {
+      transport.get.mockResolvedValue(leaderboardPage(['one', 'two'], 1));
+
+      const names: string[] = [];
+      for await (const player of leaderboards.iterateLeaderboard(
+        { seasonId: 'season-1', gameMode: 'squad' },
+        { maxItems: 1 }
+      )) {
+        names.push(player.attributes.name);
+      }
+
+      expect(names).toEqual(['one']);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+  });
 });
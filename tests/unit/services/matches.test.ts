@@ -1,6 +1,11 @@
 import type { MatchTransport } from '../../../src/api/endpoint-transport';
 import { Matches } from '../../../src/api/services/matches';
-import { PubgNotFoundError, PubgValidationError } from '../../../src/errors';
+import {
+  PubgCancellationError,
+  PubgConfigurationError,
+  PubgNotFoundError,
+  PubgValidationError,
+} from '../../../src/errors';
 import type { Asset, MatchesResponse, MatchResponse, TelemetryData } from '../../../src/types';
 
 const createMatchResponse = (included: MatchResponse['included'] = []): MatchResponse => ({
@@ -50,6 +55,7 @@ describe('Matches', () => {
     transport = {
       get: jest.fn(),
       fetchTelemetry: jest.fn(),
+      streamTelemetry: jest.fn(),
     };
 
     matches = new Matches(transport, 'pc-na');
@@ -67,7 +73,9 @@ describe('Matches', () => {
 
       const result = await matches.getMatch('match-1');
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1', {
+        cacheKind: 'matches',
+      });
       expect(result).toEqual(mockResponse);
     });
 
@@ -77,9 +85,24 @@ describe('Matches', () => {
       await matches.getMatch('match/one?source=test');
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/matches/match%2Fone%3Fsource%3Dtest'
+        '/shards/pc-na/matches/match%2Fone%3Fsource%3Dtest',
+        { cacheKind: 'matches' }
       );
     });
+
+    it('resolves with the hydrated match when asked to hydrate', async () => {
+      const telemetryAsset = createTelemetryAsset('asset-1', 'https://telemetry.test/match-1');
+      transport.get.mockResolvedValue(createMatchResponse([telemetryAsset]));
+
+      const match = await matches.getMatch('match-1', { hydrate: true });
+
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1', {
+        cacheKind: 'matches',
+      });
+      expect(match.id).toBe('match-1');
+      expect(match.telemetry).toBe(telemetryAsset);
+      expect(match.rosters).toEqual([]);
+    });
   });
 
   describe('getTelemetry', () => {
@@ -99,9 +122,57 @@ describe('Matches', () => {
 
       await expect(matches.getTelemetry('match-1')).resolves.toEqual(telemetry);
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1', {
+        cacheKind: 'matches',
+      });
       expect(transport.fetchTelemetry).toHaveBeenCalledTimes(1);
-      expect(transport.fetchTelemetry.mock.calls[0]).toEqual([telemetryUrl]);
+      expect(transport.fetchTelemetry.mock.calls[0]).toEqual([
+        telemetryUrl,
+        { matchId: 'match-1', signal: undefined },
+      ]);
+    });
+
+    it('passes the abort signal to the match lookup and the telemetry download', async () => {
+      const telemetryUrl = 'https://telemetry.test/match-1';
+      const { signal } = new AbortController();
+      transport.get.mockResolvedValue(
+        createMatchResponse([createTelemetryAsset('asset-1', telemetryUrl)])
+      );
+      transport.fetchTelemetry.mockResolvedValue([]);
+
+      await matches.getTelemetry('match-1', { signal });
+
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches/match-1', {
+        cacheKind: 'matches',
+        signal,
+      });
+      expect(transport.fetchTelemetry).toHaveBeenCalledWith(telemetryUrl, {
+        matchId: 'match-1',
+        signal,
+      });
+    });
+
+    it('shares one deadline between the match lookup and the telemetry download', async () => {
+      const telemetryUrl = 'https://telemetry.test/match-1';
+      transport.get.mockResolvedValue(
+        createMatchResponse([createTelemetryAsset('asset-1', telemetryUrl)])
+      );
+      transport.fetchTelemetry.mockResolvedValue([]);
+      const before = Date.now();
+
+      await matches.getTelemetry('match-1', { deadline: 5_000 });
+
+      const deadline = transport.get.mock.calls[0][1]?.deadline;
+      expect(deadline).toEqual({ at: expect.any(Number), budgetMs: 5_000 });
+      expect(deadline!.at).toBeGreaterThanOrEqual(before + 5_000);
+      expect(transport.fetchTelemetry.mock.calls[0][1]?.deadline).toBe(deadline);
+    });
+
+    it('rejects an invalid deadline before requesting', async () => {
+      await expect(matches.getTelemetry('match-1', { deadline: -1 })).rejects.toThrow(
+        PubgConfigurationError
+      );
+      expect(transport.get).not.toHaveBeenCalled();
     });
 
     it('rejects a match with no telemetry asset', async () => {
@@ -157,6 +228,38 @@ describe('Matches', () => {
     });
   });
 
+  describe('streamTelemetry', () => {
+    it('streams events from the match telemetry asset URL with the caller signal', async () => {
+      const telemetryUrl = 'https://telemetry.test/match-1';
+      const { signal } = new AbortController();
+      const events = [{ _T: 'LogMatchStart' }, { _T: 'LogMatchEnd' }] as TelemetryData;
+      transport.get.mockResolvedValue(
+        createMatchResponse([createTelemetryAsset('asset-1', telemetryUrl)])
+      );
+      transport.streamTelemetry.mockImplementation(async function* () {
+        yield* events;
+      });
+
+      const streamed: TelemetryData = [];
+      for await (const event of matches.streamTelemetry('match-1', { signal })) {
+        streamed.push(event);
+      }
+
+      expect(streamed).toEqual(events);
+      expect(transport.streamTelemetry).toHaveBeenCalledWith(telemetryUrl, {
+        matchId: 'match-1',
+        signal,
+      });
+    });
+
+    it('rejects a match with no telemetry asset before downloading', async () => {
+      transport.get.mockResolvedValue(createMatchResponse());
+
+      await expect(matches.streamTelemetry('match-1').next()).rejects.toThrow(PubgNotFoundError);
+      expect(transport.streamTelemetry).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getMatches', () => {
     it('should get matches without query parameters', async () => {
       const mockResponse: MatchesResponse = { data: [] };
@@ -164,7 +267,9 @@ describe('Matches', () => {
 
       const result = await matches.getMatches();
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches', {
+        cacheKind: 'matchLists',
+      });
       expect(result).toEqual(mockResponse);
     });
 
@@ -178,7 +283,8 @@ describe('Matches', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/matches?page%5Blimit%5D=10&page%5Boffset%5D=20'
+        '/shards/pc-na/matches?page%5Blimit%5D=10&page%5Boffset%5D=20',
+        { cacheKind: 'matchLists' }
       );
     });
 
@@ -190,7 +296,9 @@ describe('Matches', () => {
         sort: '-createdAt',
       });
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches?sort=-createdAt');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/matches?sort=-createdAt', {
+        cacheKind: 'matchLists',
+      });
     });
 
     it('should get matches with filters', async () => {
@@ -209,8 +317,121 @@ describe('Matches', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/matches?filter%5BcreatedAt-start%5D=2023-01-01T00%3A00%3A00Z&filter%5BcreatedAt-end%5D=2023-01-31T23%3A59%3A59Z&filter%5BplayerIds%5D=player-1%2Cplayer-2&filter%5BgameMode%5D=squad%2Cduo'
+        '/shards/pc-na/matches?filter%5BcreatedAt-start%5D=2023-01-01T00%3A00%3A00Z&filter%5BcreatedAt-end%5D=2023-01-31T23%3A59%3A59Z&filter%5BplayerIds%5D=player-1%2Cplayer-2&filter%5BgameMode%5D=squad%2Cduo',
+        { cacheKind: 'matchLists' }
+      );
+    });
+  });
+
+  describe('iterateMatches', () => {
+    const matchPage = (ids: string[], next?: string): MatchesResponse => ({
+      data: ids.map((id) => ({ ...createMatchResponse().data, id })),
+      links: next ? { next } : undefined,
+    });
+    const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+      const items: T[] = [];
+      for await (const item of iterator) items.push(item);
+      return items;
+    };
+
+    it('advances the offset by the page size while pages come back full', async () => {
+      transport.get
+        .mockResolvedValueOnce(matchPage(['match-1', 'match-2']))
+        .mockResolvedValueOnce(matchPage(['match-3', 'match-4']))
+        .mockResolvedValueOnce(matchPage(['match-5']));
+
+      const ids = (await collect(matches.iterateMatches({ pageSize: 2 }))).map(({ id }) => id);
+
+      expect(ids).toEqual(['match-1', 'match-2', 'match-3', 'match-4', 'match-5']);
+      expect(transport.get.mock.calls.map(([url]) => url)).toEqual([
+        '/shards/pc-na/matches?page%5Blimit%5D=2',
+        '/shards/pc-na/matches?page%5Blimit%5D=2&page%5Boffset%5D=2',
+        '/shards/pc-na/matches?page%5Blimit%5D=2&page%5Boffset%5D=4',
+      ]);
+    });
+
+    it('follows the offset of links.next against its own endpoint target', async () => {
+      transport.get
+        .mockResolvedValueOnce(
+          matchPage(['match-1'], 'https://elsewhere.test/shards/pc-na/matches?page[offset]=10')
+        )
+        .mockResolvedValueOnce(matchPage(['match-2']));
+
+      const ids = (
+        await collect(
+          matches.iterateMatches({ sort: '-createdAt', filter: { gameMode: ['squad'] } })
+        )
+      ).map(({ id }) => id);
+
+      expect(ids).toEqual(['match-1', 'match-2']);
+      expect(transport.get).toHaveBeenLastCalledWith(
+        '/shards/pc-na/matches?page%5Boffset%5D=10&sort=-createdAt&filter%5BgameMode%5D=squad',
+        { cacheKind: 'matchLists' }
+      );
+    });
+
+    it('stops requesting pages once maxItems matches are yielded', async () => {
+      transport.get
+        .mockResolvedValueOnce(matchPage(['match-1', 'match-2']))
+        .mockResolvedValueOnce(matchPage(['match-3', 'match-4']));
+
+      const ids = (await collect(matches.iterateMatches({ pageSize: 2 }, { maxItems: 3 }))).map(
+        ({ id }) => id
+      );
+
+      expect(ids).toEqual(['match-1', 'match-2', 'match-3']);
+      expect(transport.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops when a page does not advance the offset', async () => {
+      transport.get.mockResolvedValue(
+        matchPage(['match-1'], '/shards/pc-na/matches?page[offset]=0')
+      );
+
+      await expect(collect(matches.iterateMatches())).resolves.toHaveLength(1);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes the signal and one shared deadline to every page', async () => {
+      const controller = new AbortController();
+      transport.get
+        .mockResolvedValueOnce(matchPage(['match-1']))
+        .mockResolvedValueOnce(matchPage([]));
+
+      await collect(
+        matches.iterateMatches(
+          { pageSize: 1 },
+          { signal: controller.signal, priority: 'background', deadline: 5_000 }
+        )
+      );
+
+      const [first, second] = transport.get.mock.calls.map(([, config]) => config);
+      expect(first).toEqual(
+        expect.objectContaining({ signal: controller.signal, priority: 'background' })
+      );
+      expect(first?.deadline).toEqual({ at: expect.any(Number), budgetMs: 5_000 });
+      expect(second?.deadline).toBe(first?.deadline);
+    });
+
+    it('stops with PubgCancellationError when aborted between pages', async () => {
+      const controller = new AbortController();
+      transport.get.mockResolvedValue(matchPage(['match-1', 'match-2']));
+      const iterator = matches.iterateMatches({ pageSize: 2 }, { signal: controller.signal });
+
+      await expect(iterator.next()).resolves.toEqual(
+        expect.objectContaining({ value: expect.objectContaining({ id: 'match-1' }) })
+      );
+      controller.abort();
+
+      await expect(iterator.next()).rejects.toThrow(PubgCancellationError);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an invalid maxItems before requesting', async () => {
+      await expect(collect(matches.iterateMatches({}, { maxItems: 0 }))).rejects.toThrow(
+        PubgConfigurationError
       );
+      expect(transport.get).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,6 +1,14 @@
 import type { EndpointTransport } from '../../../src/api/endpoint-transport';
+import { InputValidator } from '../../../src/api/input-validation';
 import { Players } from '../../../src/api/services/players';
-import type { PlayerSeasonStatsResponse, PlayersResponse } from '../../../src/types';
+import { PubgConfigurationError, PubgNotFoundError, PubgRateLimitError } from '../../../src/errors';
+import type {
+  MatchResponse,
+  ParticipantStats,
+  PlayerSeasonStatsResponse,
+  PlayersResponse,
+} from '../../../src/types';
+import { SecurityManager } from '../../../src/utils/security';
 
 describe('Players', () => {
   let players: Players;
@@ -49,7 +57,8 @@ describe('Players', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/players?filter%5BplayerNames%5D=TestPlayer'
+        '/shards/pc-na/players?filter%5BplayerNames%5D=TestPlayer',
+        { cacheKind: 'players' }
       );
       expect(result).toEqual(mockResponse);
     });
@@ -84,7 +93,8 @@ describe('Players', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/players?filter%5BplayerIds%5D=player-1'
+        '/shards/pc-na/players?filter%5BplayerIds%5D=player-1',
+        { cacheKind: 'players' }
       );
       expect(result).toEqual(mockResponse);
     });
@@ -95,11 +105,22 @@ describe('Players', () => {
 
       const result = await players.getPlayers({});
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/players');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/players', { cacheKind: 'players' });
       expect(result).toEqual(mockResponse);
     });
   });
 
+  it('passes per-call cache TTL overrides to the transport', async () => {
+    transport.get.mockResolvedValue({ data: [] });
+
+    await players.getPlayerByName('TestPlayer', { cacheTtl: 5_000 });
+
+    expect(transport.get).toHaveBeenCalledWith(
+      '/shards/pc-na/players?filter%5BplayerNames%5D=TestPlayer',
+      { cacheKind: 'players', cacheTtl: 5_000 }
+    );
+  });
+
   describe('getPlayerById', () => {
     it('should get player by ID', async () => {
       const mockResponse: PlayersResponse = { data: [] };
@@ -108,7 +129,8 @@ describe('Players', () => {
       await players.getPlayerById('player-1');
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/players?filter%5BplayerIds%5D=player-1'
+        '/shards/pc-na/players?filter%5BplayerIds%5D=player-1',
+        { cacheKind: 'players' }
       );
     });
   });
@@ -121,7 +143,8 @@ describe('Players', () => {
       await players.getPlayerByName('TestPlayer');
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/players?filter%5BplayerNames%5D=TestPlayer'
+        '/shards/pc-na/players?filter%5BplayerNames%5D=TestPlayer',
+        { cacheKind: 'players' }
       );
     });
   });
@@ -152,7 +175,10 @@ describe('Players', () => {
         seasonId: 'season-1',
       });
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/players/player-1/seasons/season-1');
+      expect(transport.get).toHaveBeenCalledWith(
+        '/shards/pc-na/players/player-1/seasons/season-1',
+        { cacheKind: 'seasonStats' }
+      );
       expect(result).toEqual(mockResponse);
     });
 
@@ -167,7 +193,8 @@ describe('Players', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/players/player-1/seasons/season-1?filter%5BgameMode%5D=squad'
+        '/shards/pc-na/players/player-1/seasons/season-1?filter%5BgameMode%5D=squad',
+        { cacheKind: 'seasonStats' }
       );
     });
   });
@@ -184,7 +211,8 @@ describe('Players', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/seasons/season-1/gameMode/squad-fpp/players?filter%5BplayerIds%5D=player-1%2Cplayer-2'
+        '/shards/pc-na/seasons/season-1/gameMode/squad-fpp/players?filter%5BplayerIds%5D=player-1%2Cplayer-2',
+        { cacheKind: 'seasonStats' }
       );
       expect(result).toEqual(mockResponse);
     });
@@ -221,7 +249,10 @@ describe('Players', () => {
 
       await players.getPlayerLifetimeStats('player-1');
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/players/player-1/seasons/lifetime');
+      expect(transport.get).toHaveBeenCalledWith(
+        '/shards/pc-na/players/player-1/seasons/lifetime',
+        { cacheKind: 'lifetimeStats' }
+      );
     });
   });
 
@@ -236,7 +267,8 @@ describe('Players', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/seasons/lifetime/gameMode/squad-fpp/players?filter%5BplayerIds%5D=player-1%2Cplayer-2'
+        '/shards/pc-na/seasons/lifetime/gameMode/squad-fpp/players?filter%5BplayerIds%5D=player-1%2Cplayer-2',
+        { cacheKind: 'lifetimeStats' }
       );
       expect(result).toEqual(mockResponse);
     });
@@ -263,4 +295,294 @@ describe('Players', () => {
       expect(transport.get).not.toHaveBeenCalled();
     });
   });
+
+  describe('bulk lookups', () => {
+    const player = (id: string, name: string): PlayersResponse['data'][number] => ({
+      type: 'player',
+      id,
+      attributes: {
+        createdAt: '2023-01-01T00:00:00Z',
+        name,
+        patchVersion: '1.0',
+        shardId: 'pc-na',
+        stats: null,
+        titleId: 'pubg',
+        updatedAt: '2023-01-01T00:00:00Z',
+      },
+      relationships: { assets: { data: [] }, matches: { data: [] } },
+    });
+    const playerNamesIn = (url: string): string[] =>
+      new URL(url, 'https://api.test').searchParams.get('filter[playerNames]')!.split(',');
+    const names = Array.from({ length: 25 }, (_, index) => `player${index}`);
+
+    it('splits names into chunks of 10 and merges the players found', async () => {
+      transport.get.mockImplementation(async (url) => ({
+        data: playerNamesIn(url)
+          .filter((name) => name !== 'player3')
+          .map((name) => player(`account.${name}`, name)),
+      }));
+
+      const result = await players.getPlayersBulk({ playerNames: [...names, 'player0'] });
+
+      expect(transport.get.mock.calls.map(([url]) => playerNamesIn(url))).toEqual([
+        names.slice(0, 10),
+        names.slice(10, 20),
+        names.slice(20),
+      ]);
+      expect(result.data.map(({ attributes }) => attributes.name)).toEqual(
+        names.filter((name) => name !== 'player3')
+      );
+      expect(result.notFound).toEqual(['player3']);
+    });
+
+    it('reports every name of a chunk that responds 404 as not found', async () => {
+      transport.get
+        .mockResolvedValueOnce({ data: [player('account.one', 'player0')] })
+        .mockRejectedValueOnce(new PubgNotFoundError('No Players Found Matching Criteria'));
+
+      const result = await players.getPlayersBulk({ playerNames: names.slice(0, 12) });
+
+      expect(result.data).toHaveLength(1);
+      expect(result.notFound).toEqual(names.slice(1, 12));
+    });
+
+    it('rejects the lookup when a chunk fails for another reason', async () => {
+      transport.get
+        .mockResolvedValueOnce({ data: [] })
+        .mockRejectedValueOnce(new PubgRateLimitError('Rate limit exceeded'));
+
+      await expect(players.getPlayersBulk({ playerNames: names })).rejects.toThrow(
+        PubgRateLimitError
+      );
+    });
+
+    it('bounds the chunks in flight and shares one deadline between them', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      transport.get.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Promise.resolve();
+        inFlight--;
+        return { data: [] };
+      });
+
+      await players.getPlayersBulk(
+        { playerIds: names.map((name) => `account.${name}`) },
+        { concurrency: 1, deadline: 5_000 }
+      );
+
+      const [first, ...rest] = transport.get.mock.calls.map(([, config]) => config?.deadline);
+      expect(maxInFlight).toBe(1);
+      expect(first).toEqual({ at: expect.any(Number), budgetMs: 5_000 });
+      expect(rest).toEqual([first, first]);
+    });
+
+    it('reports player IDs missing from batch stats responses', async () => {
+      transport.get.mockResolvedValue({
+        data: [
+          {
+            type: 'playerSeason',
+            id: '',
+            attributes: { bestRankPoint: 0, gameModeStats: {} },
+            relationships: {
+              player: { data: { type: 'player', id: 'account.one' } },
+              season: { data: { type: 'season', id: 'lifetime' } },
+            },
+          },
+        ],
+      });
+
+      const result = await players.getPlayerLifetimeStatsBulk({
+        gameMode: 'squad-fpp',
+        playerIds: ['account.one', 'account.two'],
+      });
+
+      expect(transport.get).toHaveBeenCalledWith(
+        '/shards/pc-na/seasons/lifetime/gameMode/squad-fpp/players?filter%5BplayerIds%5D=account.one%2Caccount.two',
+        expect.objectContaining({ cacheKind: 'lifetimeStats' })
+      );
+      expect(result.notFound).toEqual(['account.two']);
+    });
+
+    it('accepts more than 10 player IDs for season stats', async () => {
+      transport.get.mockResolvedValue({ data: [] });
+
+      const result = await players.getPlayerSeasonStatsBulk({
+        seasonId: 'season-1',
+        gameMode: 'squad',
+        playerIds: names,
+      });
+
+      expect(transport.get).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({ data: [], notFound: names });
+    });
+
+    it('rejects an invalid concurrency before requesting', async () => {
+      await expect(
+        players.getPlayersBulk({ playerNames: names }, { concurrency: 0 })
+      ).rejects.toThrow(PubgConfigurationError);
+      expect(transport.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRecentMatches', () => {
+    const matchIds = ['match-1', 'match-2', 'match-3', 'match-4', 'match-5'];
+    const playerResponse: PlayersResponse = {
+      data: [
+        {
+          type: 'player',
+          id: 'account.me',
+          attributes: {
+            createdAt: '2023-01-01T00:00:00Z',
+            name: 'me',
+            patchVersion: '1.0',
+            shardId: 'pc-na',
+            stats: null,
+            titleId: 'pubg',
+            updatedAt: '2023-01-01T00:00:00Z',
+          },
+          relationships: {
+            assets: { data: [] },
+            matches: { data: matchIds.map((id) => ({ type: 'match' as const, id })) },
+          },
+        },
+      ],
+    };
+    const matchResponse = (id: string, gameMode: string, createdAt: string): MatchResponse => ({
+      data: {
+        type: 'match',
+        id,
+        attributes: { createdAt, gameMode } as MatchResponse['data']['attributes'],
+        relationships: { assets: { data: [] }, rosters: { data: [] }, rounds: { data: [] } },
+      },
+      included: [
+        {
+          type: 'participant',
+          id: `participant-${id}`,
+          attributes: {
+            actor: '',
+            shardId: 'pc-na',
+            stats: { name: 'me', playerId: 'account.me', kills: 3 } as ParticipantStats,
+          },
+          relationships: { matches: { data: [] } },
+        },
+      ],
+    });
+    const modes: Record<string, [string, string]> = {
+      'match-1': ['squad-fpp', '2023-01-05T00:00:00Z'],
+      'match-2': ['duo', '2023-01-04T00:00:00Z'],
+      'match-3': ['squad-fpp', '2023-01-03T00:00:00Z'],
+      'match-4': ['squad-fpp', '2023-01-02T00:00:00Z'],
+      'match-5': ['squad-fpp', '2023-01-01T00:00:00Z'],
+    };
+    const matchUrls = () =>
+      transport.get.mock.calls.map(([url]) => url).filter((url) => url.includes('/matches/'));
+
+    beforeEach(() => {
+      transport.get.mockImplementation(async (url) => {
+        if (url.includes('/players')) return playerResponse;
+        const id = url.split('/').pop()!;
+        return matchResponse(id, ...modes[id]);
+      });
+    });
+
+    it("returns the player's participant row from the newest matches up to the limit", async () => {
+      const recent = await players.getRecentMatches('me', { limit: 2 });
+
+      expect(recent.map(({ match }) => match.id)).toEqual(['match-1', 'match-2']);
+      expect(recent[0].participant).toEqual(
+        expect.objectContaining({
+          accountId: 'account.me',
+          stats: expect.objectContaining({ kills: 3 }),
+        })
+      );
+      expect(transport.get).toHaveBeenCalledWith(
+        '/shards/pc-na/matches/match-1',
+        expect.objectContaining({ cacheKind: 'matches' })
+      );
+      // The slot match-1 frees is refilled before match-2 completes the limit.
+      expect(matchUrls()).toEqual([
+        '/shards/pc-na/matches/match-1',
+        '/shards/pc-na/matches/match-2',
+        '/shards/pc-na/matches/match-3',
+      ]);
+    });
+
+    it('filters by game mode and stops at the first match older than since', async () => {
+      const recent = await players.getRecentMatches('me', {
+        gameModes: ['squad-fpp'],
+        since: '2023-01-02T12:00:00Z',
+        concurrency: 1,
+      });
+
+      expect(recent.map(({ match }) => match.id)).toEqual(['match-1', 'match-3']);
+      expect(matchUrls()).toEqual([
+        '/shards/pc-na/matches/match-1',
+        '/shards/pc-na/matches/match-2',
+        '/shards/pc-na/matches/match-3',
+        '/shards/pc-na/matches/match-4',
+      ]);
+    });
+
+    it('skips matches the API no longer serves', async () => {
+      transport.get.mockImplementation(async (url) => {
+        if (url.includes('/players')) return playerResponse;
+        const id = url.split('/').pop()!;
+        if (id === 'match-1') throw new PubgNotFoundError('Match not found');
+        return matchResponse(id, ...modes[id]);
+      });
+
+      const recent = await players.getRecentMatches('me', { limit: 1 });
+
+      expect(recent.map(({ match }) => match.id)).toEqual(['match-2']);
+    });
+
+    it('shares one deadline between the player lookup and the match requests', async () => {
+      await players.getRecentMatches('me', { limit: 1, deadline: 5_000 });
+
+      const [first, ...rest] = transport.get.mock.calls.map(([, config]) => config?.deadline);
+      expect(first).toEqual({ at: expect.any(Number), budgetMs: 5_000 });
+      expect(rest).toEqual(rest.map(() => first));
+    });
+
+    it('rejects an invalid limit or since before requesting', async () => {
+      await expect(players.getRecentMatches('me', { limit: 0 })).rejects.toThrow(
+        PubgConfigurationError
+      );
+      await expect(players.getRecentMatches('me', { since: 'yesterday' })).rejects.toThrow(
+        PubgConfigurationError
+      );
+      expect(transport.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('input validation', () => {
+    beforeEach(() => {
+      players = new Players(transport, 'pc-na', new InputValidator(new SecurityManager()));
+    });
+
+    it('should reject invalid player names before requesting', async () => {
+      await expect(players.getPlayerByName('no')).rejects.toMatchObject({
+        name: 'PubgValidationError',
+        context: { metadata: { field: 'playerNames[0]' } },
+      });
+
+      expect(transport.get).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed season and account IDs before requesting', async () => {
+      await expect(
+        players.getPlayerSeasonStats({
+          playerId: 'account.0000a000000000000000000000000000',
+          seasonId: '2018-01',
+        })
+      ).rejects.toMatchObject({ context: { metadata: { field: 'seasonId' } } });
+      await expect(players.getPlayerLifetimeStats('player-1')).rejects.toMatchObject({
+        context: { metadata: { field: 'playerId' } },
+      });
+
+      expect(transport.get).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -25,7 +25,7 @@ describe('Samples', () => {
 
       const result = await samples.getSamples();
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/samples');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/samples', { cacheKind: 'samples' });
       expect(result).toEqual(mockResponse);
     });
 
@@ -41,7 +41,8 @@ describe('Samples', () => {
       });
 
       expect(transport.get).toHaveBeenCalledWith(
-        '/shards/pc-na/samples?filter%5BcreatedAt-start%5D=2023-01-01T00%3A00%3A00Z&filter%5BcreatedAt-end%5D=2023-01-31T23%3A59%3A59Z'
+        '/shards/pc-na/samples?filter%5BcreatedAt-start%5D=2023-01-01T00%3A00%3A00Z&filter%5BcreatedAt-end%5D=2023-01-31T23%3A59%3A59Z',
+        { cacheKind: 'samples' }
       );
     });
   });
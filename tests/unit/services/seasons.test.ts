@@ -47,7 +47,7 @@ describe('Seasons', () => {
 
       const result = await seasons.getSeasons();
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/seasons');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/seasons', { cacheKind: 'seasons' });
       expect(result).toEqual(mockResponse);
     });
   });
@@ -81,7 +81,7 @@ describe('Seasons', () => {
 
       const result = await seasons.getCurrentSeason();
 
-      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/seasons');
+      expect(transport.get).toHaveBeenCalledWith('/shards/pc-na/seasons', { cacheKind: 'seasons' });
       expect(result.data).toHaveLength(1);
       expect(result.data[0].attributes.isCurrentSeason).toBe(true);
     });
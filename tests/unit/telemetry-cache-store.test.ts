@@ -0,0 +1,68 @@
+import type { LogRecord } from '../../src/utils/logger';
+import { MemoryTelemetryCacheStore } from '../../src/utils/telemetry-cache-store';
+
+const payload = (bytes: number, fill = 1): Uint8Array => new Uint8Array(bytes).fill(fill);
+
+describe('MemoryTelemetryCacheStore', () => {
+  it('returns stored payloads and counts hits and misses', async () => {
+    const store = new MemoryTelemetryCacheStore({ maxBytes: 100 });
+
+    await expect(store.get('match-1')).resolves.toBeUndefined();
+    await store.set('match-1', payload(40));
+
+    await expect(store.get('match-1')).resolves.toEqual(payload(40));
+    expect(store.getStats()).toEqual({
+      entries: 1,
+      bytes: 40,
+      maxBytes: 100,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('evicts the least recently used payloads until the new one fits the byte budget', async () => {
+    const store = new MemoryTelemetryCacheStore({ maxBytes: 100 });
+    await store.set('match-1', payload(40, 1));
+    await store.set('match-2', payload(40, 2));
+    await store.get('match-1');
+
+    await store.set('match-3', payload(40, 3));
+
+    await expect(store.get('match-2')).resolves.toBeUndefined();
+    await expect(store.get('match-1')).resolves.toEqual(payload(40, 1));
+    expect(store.getStats()).toMatchObject({ entries: 2, bytes: 80 });
+  });
+
+  it('logs evictions to the configured logger with the match ID as a field', async () => {
+    const records: LogRecord[] = [];
+    const store = new MemoryTelemetryCacheStore({
+      maxBytes: 100,
+      logger: { log: (record) => records.push(record) },
+    });
+    await store.set('match-1', payload(60));
+
+    await store.set('match-2', payload(60));
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        component: 'cache',
+        message: 'Evicted least recently used telemetry',
+        fields: { matchId: 'match-1', bytes: 60 },
+      }),
+    ]);
+  });
+
+  it('replaces payloads for the same match and skips payloads larger than the budget', async () => {
+    const store = new MemoryTelemetryCacheStore({ maxBytes: 100 });
+    await store.set('match-1', payload(60));
+    await store.set('match-1', payload(30));
+    await store.set('match-2', payload(101));
+
+    await expect(store.get('match-2')).resolves.toBeUndefined();
+    expect(store.getStats()).toMatchObject({ entries: 1, bytes: 30 });
+
+    await store.clear();
+    expect(store.getStats()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,88 @@
+import { Readable } from 'node:stream';
+import { gzipSync } from 'node:zlib';
+import { parseTelemetryStream } from '../../src/utils/telemetry-stream';
+
+const EVENTS = [
+  { _T: 'LogMatchStart', common: { isGame: 0 }, mapName: 'Baltic_Main' },
+  { _T: 'LogPlayerKillV2', killer: { name: 'José "[]{}" ünïcode' }, nested: [{ a: [1, 2] }] },
+  { _T: 'LogMatchEnd', common: { isGame: 8 } },
+];
+
+const chunksOf = (buffer: Buffer, size: number): Buffer[] => {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    chunks.push(buffer.subarray(offset, offset + size));
+  }
+  return chunks;
+};
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('parseTelemetryStream', () => {
+  it('yields events from chunks split inside strings and multi-byte characters', async () => {
+    const body = Buffer.from(JSON.stringify(EVENTS, null, 2));
+
+    await expect(collect(parseTelemetryStream(Readable.from(chunksOf(body, 3))))).resolves.toEqual(
+      EVENTS
+    );
+  });
+
+  it('decompresses gzip bodies detected from their magic bytes', async () => {
+    const body = gzipSync(Buffer.from(JSON.stringify(EVENTS)));
+
+    await expect(collect(parseTelemetryStream(Readable.from(chunksOf(body, 7))))).resolves.toEqual(
+      EVENTS
+    );
+  });
+
+  it('reads web streams and already-parsed arrays', async () => {
+    const body = new Blob([JSON.stringify(EVENTS)]).stream();
+
+    await expect(collect(parseTelemetryStream(body))).resolves.toEqual(EVENTS);
+    await expect(collect(parseTelemetryStream(EVENTS))).resolves.toEqual(EVENTS);
+  });
+
+  it('yields the first event before the rest of the body arrives', async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const source = async function* () {
+      yield Buffer.from(`[${JSON.stringify(EVENTS[0])},`);
+      await gate;
+      yield Buffer.from(`${JSON.stringify(EVENTS[2])}]`);
+    };
+    const iterator = parseTelemetryStream(source())[Symbol.asyncIterator]();
+
+    await expect(iterator.next()).resolves.toEqual({ done: false, value: EVENTS[0] });
+    release();
+    await expect(collect({ [Symbol.asyncIterator]: () => iterator })).resolves.toEqual([EVENTS[2]]);
+  });
+
+  it.each([
+    ['a non-array document', '{"_T":"LogMatchStart"}'],
+    ['a truncated array', '[{"_T":"LogMatchStart"},{"_T":'],
+    ['non-object events', '[1,2]'],
+  ])('rejects %s with a SyntaxError', async (_name, body) => {
+    await expect(
+      collect(parseTelemetryStream(Readable.from([Buffer.from(body)])))
+    ).rejects.toBeInstanceOf(SyntaxError);
+  });
+
+  it('stops reading the source when aborted', async () => {
+    const controller = new AbortController();
+    const source = new Readable({ read: () => undefined });
+    source.push(`[${JSON.stringify(EVENTS[0])},`);
+    const iterator = parseTelemetryStream(source, controller.signal)[Symbol.asyncIterator]();
+
+    await iterator.next();
+    controller.abort();
+
+    await expect(iterator.next()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(source.destroyed).toBe(true);
+  });
+});